@@ -7,11 +7,30 @@ import { CameraController, CameraMode } from '../rendering/CameraController';
 import { BallEntity } from '../entities/BallEntity';
 import { TerrainEntity } from '../entities/TerrainEntity';
 import { ShotController } from '../gameplay/shot/ShotController';
-import { ShotType, SpinType } from '../gameplay/shot/ShotTypes';
+import { ShotType, SpinType, getShotBounceScale } from '../gameplay/shot/ShotTypes';
 import { GameStateManager, GameState } from '../utils/GameStateManager';
 import { InputManager } from '../utils/InputManager';
 import { EventSystem, GameEvents } from '../utils/EventSystem';
 import { CollisionHandler } from '../physics/CollisionHandler';
+import { CourseLoader } from '../gameplay/course/CourseLoader';
+import { CourseBuilder } from '../gameplay/course/CourseBuilder';
+import { CourseGenerator } from '../gameplay/course/CourseGenerator';
+import { CourseData, HoleData } from '../gameplay/course/CourseTypes';
+import { CupCheckResult } from '../entities/CupEntity';
+import { HazardEntity, HazardType } from '../entities/HazardEntity';
+import { WarpEvent } from '../entities/TeleporterEntity';
+import { TargetHitEvent } from '../entities/TargetEntity';
+import { ScoreManager } from '../gameplay/scoring/ScoreManager';
+import { RoundManager } from '../gameplay/round/RoundManager';
+import { Player, PLAYER_COLORS } from '../gameplay/players/Player';
+import { TurnManager, TurnChangedEvent } from '../gameplay/players/TurnManager';
+import { PowerUpManager } from '../gameplay/powerups/PowerUpManager';
+import { AbilityManager } from '../gameplay/abilities/AbilityManager';
+import { EnergyManager, EnergyOptions } from '../gameplay/energy/EnergyManager';
+import { HoleResultTracker } from '../gameplay/scoring/HoleResultTracker';
+import { ModifierManager } from '../gameplay/modifiers/ModifierManager';
+import { MulliganManager } from '../gameplay/mulligan/MulliganManager';
+import { ModifierType, getDailyModifiers, isModifierType } from '../gameplay/modifiers/ModifierTypes';
 
 /**
  * Main Game class that handles initialization and game loop
@@ -26,18 +45,49 @@ export class Game {
   private assetManager: AssetManager;
   private gameStateManager: GameStateManager;
   private inputManager: InputManager;
+  private scoreManager: ScoreManager;
   private eventSystem: EventSystem;
   private lastTime: number = 0;
   private isRunning: boolean = false;
   private shotController: ShotController;
-  private ball: BallEntity;
-  private terrain: TerrainEntity;
+  private ball: BallEntity; // The active player's ball
+  private terrain: TerrainEntity | null = null;
   private lastFrameTime: number = 0;
   private isInitialized: boolean = false;
-  private boundHandlers: { ballBounce: (collisionData: any) => void; ballStopped: () => void } | null = null;
+  private boundHandlers: {
+    ballBounce: (collisionData: any) => void;
+    ballStopped: () => void;
+    ballWarped: (warp: WarpEvent) => void;
+    targetHit: (hit: TargetHitEvent) => void;
+    turnChanged: (turn: TurnChangedEvent) => void;
+  } | null = null;
   private collisionHandler: CollisionHandler;
   private idleDebounceActive: boolean = false;
   private isResettingBall: boolean = false;
+  
+  // Course data
+  private courseKey: string = 'course:default';
+  private courseUrl: string = '/courses/default.json';
+  private course: CourseData | null = null;
+  private currentHole: HoleData;
+  private courseBuilder: CourseBuilder;
+  private roundManager: RoundManager;
+  
+  // Local players (hot-seat), one ball each
+  private maxPlayers: number = 4;
+  private players: Player[] = [];
+  private activePlayer: Player;
+  private turnManager: TurnManager;
+  private powerUpManager: PowerUpManager;
+  private abilityManager: AbilityManager;
+  private energyManager: EnergyManager | null = null; // Only in arcade mode (?energy=N)
+  private holeResultTracker: HoleResultTracker;
+  private modifierManager: ModifierManager | null = null; // Only with modifiers (?modifiers=daily or a list)
+  private mulliganManager: MulliganManager;
+  
+  // Hole progress
+  private penaltyStrokes: number = 1; // Added for out of bounds and hazards
+  private competitiveMulligans: number = 3; // Per player per round, outside practice
 
   /**
    * Private constructor (using singleton pattern)
@@ -65,6 +115,7 @@ export class Game {
     this.gameStateManager = GameStateManager.getInstance();
     this.eventSystem = EventSystem.getInstance();
     this.inputManager = InputManager.getInstance();
+    this.scoreManager = ScoreManager.getInstance();
     
     // Handle window resize
     window.addEventListener('resize', this.onWindowResize.bind(this));
@@ -107,6 +158,9 @@ export class Game {
     // Setup camera controller
     this.cameraController = new CameraController(this.camera);
     
+    // Load the course file (falls back to the built-in hole on failure)
+    await this.loadCourse();
+    
     // Create lighting
     this.setupLighting();
     
@@ -123,6 +177,15 @@ export class Game {
         minBounceVelocity: 1.0
       }
     );
+    this.collisionHandler.setBalls(this.players.map(player => player.getBall()));
+    
+    // Route physics contact events to the collision handler
+    this.physicsWorld.setOnContactStart((body1, body2, collider1, collider2) => {
+      this.collisionHandler.handleContactStart(collider1, collider2);
+    });
+    this.physicsWorld.setOnContactEnd((body1, body2, collider1, collider2) => {
+      this.collisionHandler.handleContactEnd(collider1, collider2);
+    });
     
     // Setup shot controller
     this.shotController = new ShotController(
@@ -131,6 +194,13 @@ export class Game {
       this.physicsWorld.getWorld()
     );
     
+    // Spin acts on the ball with each fixed physics step
+    this.physicsWorld.addStepCallback(timestep => this.shotController.step(timestep));
+    
+    // The trajectory preview gives its shadow ball the active ball's material
+    this.shotController.setBallMaterial((x, z, isOnSurface, shotBounceScale) =>
+      this.ball.getMaterialAt(x, z, isOnSurface, shotBounceScale));
+    
     // Initialize the input manager
     this.inputManager.initialize();
     
@@ -141,25 +211,82 @@ export class Game {
     this.gameStateManager.onEnterState(GameState.ROLLING, this.handleEnterRollingState.bind(this));
     this.gameStateManager.onEnterState(GameState.BOOST_READY, this.handleEnterBoostReadyState.bind(this));
     this.gameStateManager.onEnterState(GameState.IDLE, this.handleEnterIdleState.bind(this));
+    this.gameStateManager.onEnterState(GameState.HOLE_INTRO, this.handleEnterHoleIntroState.bind(this));
     
     // Create bound event handlers to avoid creating new functions on each bind
     const boundBallBounceHandler = this.handleBallBounce.bind(this);
     const boundBallStoppedHandler = this.handleBallStopped.bind(this);
+    const boundBallWarpedHandler = this.handleBallWarped.bind(this);
+    const boundTargetHitHandler = this.handleTargetHit.bind(this);
+    const boundTurnChangedHandler = this.handleTurnChanged.bind(this);
 
     // Listen for ball bounce events from physics
     this.eventSystem.on(GameEvents.BALL_BOUNCE, boundBallBounceHandler);
 
     // Listen for ball stopped event from physics
     this.eventSystem.on(GameEvents.BALL_STOPPED, boundBallStoppedHandler);
+    
+    // Listen for teleporter warps to move the camera along
+    this.eventSystem.on(GameEvents.BALL_WARPED, boundBallWarpedHandler);
+    
+    // Listen for targets being knocked out to reveal the cup
+    this.eventSystem.on(GameEvents.TARGET_HIT, boundTargetHitHandler);
+    
+    // Listen for turn changes to hand the controls to the next player's ball
+    this.eventSystem.on(GameEvents.TURN_CHANGED, boundTurnChangedHandler);
 
     // Store the bound handlers for cleanup
     this.boundHandlers = {
       ballBounce: boundBallBounceHandler,
-      ballStopped: boundBallStoppedHandler
+      ballStopped: boundBallStoppedHandler,
+      ballWarped: boundBallWarpedHandler,
+      targetHit: boundTargetHitHandler,
+      turnChanged: boundTurnChangedHandler
     };
     
-    // Set initial game state
-    this.gameStateManager.setState(GameState.IDLE);
+    // Players take turns in order, each with their own scorecard
+    this.scoreManager.setPlayers(this.players.map(player => player.getName()));
+    this.turnManager = new TurnManager(this.players);
+    
+    // Power-ups are picked up on the course and used mid-roll
+    this.powerUpManager = new PowerUpManager(this.physicsWorld, this.turnManager);
+    
+    // Copy abilities come from targets and change a shot or a roll
+    this.abilityManager = new AbilityManager(this.physicsWorld, this.turnManager, this.shotController, this.courseBuilder);
+    
+    // Arcade mode: strokes cost energy and running out ends the game
+    const energyOptions = this.getEnergyOptions();
+    if (energyOptions) {
+      this.energyManager = new EnergyManager(this.turnManager, energyOptions);
+    }
+    
+    // Session modifiers change the physics and shots for the whole game
+    const modifiers = this.getModifiers();
+    if (modifiers.length > 0) {
+      this.modifierManager = new ModifierManager(
+        this.physicsWorld,
+        this.players.map(player => player.getBall()),
+        this.shotController,
+        modifiers
+      );
+    }
+    
+    // Shots can be taken back: any number in practice (?practice), a few per round otherwise
+    this.mulliganManager = new MulliganManager(this.turnManager, this.shotController, {
+      limit: this.isPracticeMode() ? null : this.competitiveMulligans
+    });
+    
+    // Completed holes are rated against par and earn medals
+    const courseName = this.course ? this.course.name : 'Practice';
+    this.holeResultTracker = new HoleResultTracker(courseName, this.turnManager);
+    
+    // Play through the holes of the course, starting with the first
+    this.roundManager = new RoundManager(
+      courseName,
+      this.course ? this.course.holes : [this.currentHole],
+      hole => this.buildHole(hole)
+    );
+    this.roundManager.startRound();
     
     console.log('Game setup complete');
   }
@@ -178,15 +305,128 @@ export class Game {
     this.scene.add(directionalLight);
   }
 
+  /**
+   * Load the course file through the asset manager
+   * A seed in the URL (?seed=...) plays a generated course instead.
+   */
+  private loadCourse(): Promise<void> {
+    const seed = new URLSearchParams(window.location.search).get('seed');
+    if (seed) {
+      this.course = CourseGenerator.generateCourse(seed);
+      this.currentHole = this.course.holes[0];
+      console.log(`Generated course '${this.course.name}' with ${this.course.holes.length} holes`);
+      return Promise.resolve();
+    }
+    
+    return new Promise(resolve => {
+      this.assetManager.preload(
+        [{ type: 'json', key: this.courseKey, url: this.courseUrl }],
+        undefined,
+        () => {
+          this.course = CourseLoader.parse(this.assetManager.getJson(this.courseKey));
+          
+          if (this.course) {
+            this.currentHole = this.course.holes[0];
+            console.log(`Loaded course '${this.course.name}' with ${this.course.holes.length} holes`);
+          } else {
+            console.warn(`Could not load course '${this.courseKey}', using built-in hole`);
+            this.currentHole = CourseLoader.createDefaultHole();
+          }
+          
+          resolve();
+        }
+      );
+    });
+  }
+  
+  /**
+   * Number of local players, from the URL (?players=2) or 1
+   */
+  private getPlayerCount(): number {
+    const count = parseInt(new URLSearchParams(window.location.search).get('players') ?? '1', 10);
+    return isNaN(count) ? 1 : Math.min(Math.max(count, 1), this.maxPlayers);
+  }
+  
+  /**
+   * Get the energy economy options from the URL (?energy=N starts every player
+   * with N energy), or null to play without energy
+   */
+  private getEnergyOptions(): EnergyOptions | null {
+    const energy = parseInt(new URLSearchParams(window.location.search).get('energy') ?? '', 10);
+    return isNaN(energy) || energy <= 0 ? null : { startEnergy: energy };
+  }
+  
+  /**
+   * Practice mode, from the URL (?practice): unlimited mulligans
+   */
+  private isPracticeMode(): boolean {
+    return new URLSearchParams(window.location.search).has('practice');
+  }
+  
+  /**
+   * Get the session modifiers from the URL: ?modifiers=daily plays today's,
+   * ?modifiers=zero_g,bouncy a chosen list; none without the parameter
+   */
+  private getModifiers(): ModifierType[] {
+    const param = new URLSearchParams(window.location.search).get('modifiers');
+    if (!param) return [];
+    if (param === 'daily') return getDailyModifiers();
+    
+    const names = param.split(',').map(name => name.trim().toLowerCase());
+    names.filter(name => !isModifierType(name)).forEach(name => console.warn(`Unknown modifier '${name}'`));
+    return names.filter(isModifierType).filter((type, index, types) => types.indexOf(type) === index);
+  }
+  
   /**
    * Create game entities
    */
   private createEntities(): void {
-    // Create ball entity
-    this.ball = new BallEntity(this.scene, this.physicsWorld.getWorld());
+    // Create one ball per player; the first player starts
+    for (let i = 0; i < this.getPlayerCount(); i++) {
+      const ball = new BallEntity(this.scene, this.physicsWorld.getWorld());
+      this.players.push(new Player(i, `Player ${i + 1}`, PLAYER_COLORS[i], ball));
+    }
+    this.activePlayer = this.players[0];
+    this.ball = this.activePlayer.getBall();
+    
+    // Terrain and obstacles are built per hole by the round manager
+    this.courseBuilder = new CourseBuilder(this.scene, this.physicsWorld.getWorld());
     
-    // Create terrain entity
-    this.terrain = new TerrainEntity(this.scene, this.physicsWorld.getWorld());
+    // Moving obstacles advance with each fixed physics step
+    this.physicsWorld.addStepCallback(timestep => this.courseBuilder.step(timestep));
+  }
+  
+  /**
+   * Build a hole from course data and place the ball on its tee
+   */
+  private buildHole(hole: HoleData): void {
+    this.currentHole = hole;
+    this.courseBuilder.buildHole(hole);
+    this.terrain = this.courseBuilder.getTerrain();
+    
+    // Props, teleporters, targets and pickups report their contacts through the collision handler
+    if (this.collisionHandler) {
+      this.collisionHandler.setProps(this.courseBuilder.getProps());
+      this.collisionHandler.setTeleporters(this.courseBuilder.getTeleporters());
+      this.collisionHandler.setTargets(this.courseBuilder.getTargets());
+      this.collisionHandler.setPickups(this.courseBuilder.getPickups());
+    }
+    
+    // The balls read their surface material from the new terrain (or frozen water)
+    const courseBuilder = this.courseBuilder;
+    const tee = this.courseBuilder.resolvePosition(hole.tee, this.ball.getRadius() + 0.01);
+    
+    this.players.forEach(player => {
+      player.getBall().setSurfaceProvider((x, z) => courseBuilder.getSurfaceAt(x, z));
+      player.resetForHole(tee);
+    });
+    
+    this.scoreManager.startHole(hole);
+    
+    // The first player's ball goes on the tee
+    this.turnManager.startHole();
+    this.powerUpManager.startHole();
+    this.abilityManager.startHole();
   }
 
   /**
@@ -195,6 +435,15 @@ export class Game {
   private handleEnterIdleState(): void {
     // The ball has stopped or the shot was canceled
     // In a full game, this is where we would check for hole completion, etc.
+    this.ball.setShotBounce(1);
+  }
+  
+  /**
+   * Handle entering the hole intro
+   */
+  private handleEnterHoleIntroState(): void {
+    // Look over the new hole from the tee
+    this.cameraController.setMode(CameraMode.ORBIT);
   }
   
   /**
@@ -230,6 +479,11 @@ export class Game {
     
     // Set ball to moving using the proper method
     this.ball.setMoving(true);
+    
+    // The ball bounces the way the shot type says until it stops
+    if (this.shotController) {
+      this.ball.setShotBounce(getShotBounceScale(this.shotController.getShotType()));
+    }
   }
   
   /**
@@ -272,6 +526,9 @@ export class Game {
    * Handle ball stopped events from physics
    */
   private handleBallStopped(): void {
+    // Remember where the balls came to rest - penalties drop them back here
+    this.recordRestPositions();
+    
     // Transition to IDLE state if we're currently in ROLLING or BOOST_READY
     if (this.gameStateManager.isState(GameState.ROLLING) || 
         this.gameStateManager.isState(GameState.BOOST_READY)) {
@@ -284,8 +541,72 @@ export class Game {
       
       console.log('Ball stopped rolling');
     }
+    
+    // A shot that used up the last energy loses the round
+    if (this.checkOutOfEnergy()) return;
+    
+    // The shot is over - next player's turn
+    this.turnManager.endTurn();
   }
 
+  /**
+   * Record the position of every ball resting safely on the course
+   */
+  private recordRestPositions(): void {
+    this.players.forEach(player => {
+      const ball = player.getBall();
+      if (player.isOnCourse() && !this.isBallOutOfBounds(ball) && !this.getHazardAtBall(ball)) {
+        player.lastRestPosition.copy(ball.getPosition());
+      }
+    });
+  }
+  
+  /**
+   * Handle the ball going through a teleporter
+   */
+  private handleBallWarped(warp: WarpEvent): void {
+    // Other balls knocked through a teleporter don't move the camera
+    if (warp.ball !== this.ball) return;
+    
+    // Glide the camera to the exit instead of snapping
+    this.cameraController.startWarpTransition(warp.from, warp.to);
+    
+    console.log(`Ball warped from '${warp.entryId}' to '${warp.exitId}'`);
+  }
+  
+  /**
+   * Handle a target being knocked out
+   * The cup appears where the last target stood.
+   */
+  private handleTargetHit(hit: TargetHitEvent): void {
+    console.log(`Target knocked out, ${hit.remaining}/${hit.total} left`);
+    
+    if (hit.remaining > 0) return;
+    
+    const cup = this.courseBuilder.spawnCup(hit.position);
+    this.eventSystem.emit(GameEvents.CUP_SPAWNED, cup.getPosition());
+  }
+  
+  /**
+   * Hand the shot controls and the camera to the new active player's ball
+   */
+  private handleTurnChanged(turn: TurnChangedEvent): void {
+    this.activePlayer = turn.player;
+    this.ball = turn.player.getBall();
+    
+    if (this.shotController) {
+      this.shotController.setBall(this.ball.getRigidBody());
+    }
+    if (this.collisionHandler) {
+      this.collisionHandler.setBall(this.ball);
+    }
+    
+    // Glide from the previous ball to this one
+    if (turn.previous && turn.previous !== turn.player) {
+      this.cameraController.startWarpTransition(turn.previous.getBall().getPosition(), this.ball.getPosition());
+    }
+  }
+  
   /**
    * Start the game loop
    */
@@ -324,17 +645,27 @@ export class Game {
       this.physicsWorld.update(deltaTime);
     }
     
+    // Sync moving obstacles with physics
+    if (this.courseBuilder) {
+      this.courseBuilder.update();
+    }
+    
     // Update shot controller
     if (this.shotController) {
       this.shotController.update(deltaTime);
     }
     
-    // Update ball position to match physics
+    // Update ball positions to match physics
+    this.players.forEach(player => player.getBall().update());
+    
     if (this.ball) {
-      this.ball.update();
-      
-      // Check for out of bounds
+      // Check for out of bounds and hazards
       this.checkBallOutOfBounds();
+      this.checkHazards();
+      this.checkKnockedBalls();
+      
+      // Check whether the ball dropped into the cup
+      this.checkBallInCup();
     }
     
     // Update collision handling
@@ -344,6 +675,11 @@ export class Game {
     
     // Update camera to follow ball
     if (this.cameraController) {
+      if (this.ball) {
+        this.cameraController.setTarget(this.ball.getPosition());
+        this.cameraController.setBallVelocity(this.ball.getVelocity());
+      }
+      
       this.cameraController.update();
     }
     
@@ -365,46 +701,201 @@ export class Game {
   }
 
   /**
-   * Check if ball is out of bounds and reset if necessary
+   * Check if ball is out of bounds and drop it back with a penalty
    */
   private checkBallOutOfBounds(): void {
     if (!this.ball) return;
     
-    // Skip check if we're already resetting
-    if (this.isResettingBall) return;
-
-    const position = this.ball.getPosition();
-    const bounds = 50; // Arena bounds
-    
-    const isOutOfBounds = 
-      position.x < -bounds || 
-      position.x > bounds || 
-      position.z < -bounds || 
-      position.z > bounds ||
-      position.y < -10; // Fell through the floor
-    
-    if (isOutOfBounds) {
-      console.log('Ball out of bounds, resetting position');
+    // Skip check if we're already resetting or the hole is done
+    if (this.isResettingBall || this.gameStateManager.isState(GameState.HOLE_COMPLETE)) return;
+    
+    if (this.isBallOutOfBounds()) {
+      console.log('Ball out of bounds');
       
-      // Set the resetting flag to prevent duplicate resets
-      this.isResettingBall = true;
+      const dropZone = this.currentHole.dropZone
+        ? this.courseBuilder.resolvePosition(this.currentHole.dropZone)
+        : null;
       
-      // Reset ball position and stop all movement
-      this.ball.reset(); // Uses the ball's internal reset which also zeros velocity
+      this.applyPenalty('out_of_bounds', dropZone);
+    }
+  }
+  
+  /**
+   * Check whether a ball (the one in play by default) is outside the hole's bounds
+   */
+  private isBallOutOfBounds(ball: BallEntity = this.ball): boolean {
+    const position = ball.getPosition();
+    const bounds = this.currentHole.bounds; // Per-hole arena bounds
+    
+    return position.x < bounds.minX ||
+      position.x > bounds.maxX ||
+      position.z < bounds.minZ ||
+      position.z > bounds.maxZ ||
+      position.y < bounds.minY; // Fell through the floor
+  }
+  
+  /**
+   * Check if the ball entered a water or pit hazard
+   */
+  private checkHazards(): void {
+    if (!this.ball) return;
+    
+    // Skip check if we're already resetting or the hole is done
+    if (this.isResettingBall || this.gameStateManager.isState(GameState.HOLE_COMPLETE)) return;
+    
+    const hazard = this.getHazardAtBall();
+    if (hazard) {
+      console.log(`Ball landed in a ${hazard.getType()} hazard`);
+      this.applyPenalty(hazard.getType(), hazard.getDropZone());
+    }
+  }
+  
+  /**
+   * Get the hazard a ball (the one in play by default) is in, if any
+   */
+  private getHazardAtBall(ball: BallEntity = this.ball): HazardEntity | null {
+    if (!this.courseBuilder) return null;
+    
+    return this.courseBuilder.getHazards().find(hazard => hazard.containsBall(ball)) ?? null;
+  }
+  
+  /**
+   * Put other players' balls that were knocked out of bounds or into a hazard
+   * back where they last came to rest
+   * Their owners didn't cause it, so there is no penalty.
+   */
+  private checkKnockedBalls(): void {
+    if (this.gameStateManager.isState(GameState.HOLE_COMPLETE)) return;
+    
+    this.players.forEach(player => {
+      const ball = player.getBall();
+      if (player === this.activePlayer || !player.isOnCourse()) return;
       
-      // Set game state to idle - only if not already in IDLE
-      if (!this.gameStateManager.isState(GameState.IDLE)) {
-        this.gameStateManager.setState(GameState.IDLE);
+      if (this.isBallOutOfBounds(ball) || this.getHazardAtBall(ball)) {
+        ball.dropAt(player.lastRestPosition);
+        console.log(`${player.getName()}'s ball was knocked out of play and put back`);
       }
-      
-      // Clear the resetting flag after a longer delay
-      // This ensures we don't have overlapping reset operations
-      setTimeout(() => {
-        this.isResettingBall = false;
-      }, 500); // Increased from 100ms to 500ms for more robust debouncing
+    });
+  }
+  
+  /**
+   * Add a penalty stroke and drop the ball back into play
+   * @param reason What caused the penalty
+   * @param dropZone Ground point to re-spot the ball, or null for the last resting position
+   */
+  private applyPenalty(reason: HazardType | 'out_of_bounds', dropZone: THREE.Vector3 | null): void {
+    // Set the resetting flag to prevent duplicate penalties
+    this.isResettingBall = true;
+    
+    this.scoreManager.recordPenalty(this.penaltyStrokes);
+    
+    // Re-spot at the drop zone, or where the ball last came to rest
+    const dropPosition = dropZone
+      ? dropZone.clone().setY(dropZone.y + this.ball.getRadius() + 0.01)
+      : this.activePlayer.lastRestPosition.clone();
+    
+    this.ball.dropAt(dropPosition);
+    
+    // Set game state to idle - only if not already in IDLE
+    if (!this.gameStateManager.isState(GameState.IDLE)) {
+      this.gameStateManager.setState(GameState.IDLE);
     }
+    
+    this.eventSystem.emit(GameEvents.BALL_PENALTY, {
+      reason,
+      penaltyStrokes: this.penaltyStrokes,
+      strokes: this.getStrokes(),
+      position: dropPosition.clone()
+    });
+    
+    console.log(`Penalty stroke (${reason}), ball dropped at ${dropPosition.x.toFixed(1)}, ${dropPosition.z.toFixed(1)}`);
+    
+    // Clear the resetting flag after a short delay
+    // This ensures we don't have overlapping reset operations
+    setTimeout(() => {
+      this.isResettingBall = false;
+    }, 500);
+    
+    // Out of energy after the penalty loses the round
+    if (this.checkOutOfEnergy()) return;
+    
+    // A penalty ends the turn like the ball stopping would
+    this.turnManager.endTurn();
+  }
+  
+  /**
+   * End the round if the active player has run out of energy
+   * @returns True if the game is over
+   */
+  private checkOutOfEnergy(): boolean {
+    if (!this.energyManager || !this.energyManager.isOutOfEnergy(this.activePlayer)) return false;
+    
+    this.roundManager.gameOver(`${this.activePlayer.getName()} ran out of energy`);
+    return true;
   }
 
+  /**
+   * Check the ball against the cup while it is in play
+   */
+  private checkBallInCup(): void {
+    // Only a ball in play can be sunk
+    if (!this.gameStateManager.isState(GameState.ROLLING) &&
+        !this.gameStateManager.isState(GameState.BOOST_READY)) {
+      return;
+    }
+    
+    const cup = this.courseBuilder ? this.courseBuilder.getCup() : null;
+    if (!cup) return;
+    
+    if (cup.update(this.ball) === CupCheckResult.SUNK) {
+      this.handleBallSunk();
+    }
+  }
+  
+  /**
+   * Handle the ball dropping into the cup
+   */
+  private handleBallSunk(): void {
+    const cup = this.courseBuilder.getCup();
+    if (!cup) return;
+    
+    // Stop the ball inside the cup
+    cup.captureBall(this.ball);
+    this.scoreManager.completeHole();
+    
+    const strokes = this.getStrokes();
+    this.eventSystem.emit(GameEvents.HOLE_COMPLETE, {
+      player: this.activePlayer.getName(),
+      holeId: this.currentHole.id,
+      holeName: this.currentHole.name,
+      par: this.currentHole.par,
+      strokes
+    });
+    
+    console.log(`${this.activePlayer.getName()} holed out on '${this.currentHole.name}' in ${strokes} strokes (par ${this.currentHole.par})`);
+    
+    // Other players still on the hole play on
+    if (!this.turnManager.holeOutActivePlayer()) {
+      this.gameStateManager.setState(GameState.IDLE);
+      this.turnManager.endTurn();
+      return;
+    }
+    
+    // End the rolling/boost flow
+    this.gameStateManager.setState(GameState.HOLE_COMPLETE);
+    
+    // Move on to the next hole (or the round summary) after a short pause
+    this.roundManager.completeHole();
+  }
+  
+  /**
+   * Strokes taken on the current hole, penalties included
+   */
+  private getStrokes(): number {
+    const score = this.scoreManager.getCurrentHoleScore();
+    return score ? score.strokes : 0;
+  }
+  
   /**
    * Handle state-specific updates that need to happen each frame
    */
@@ -425,18 +916,24 @@ export class Game {
   }
 
   /**
-   * Handle actions for the IDLE state
+   * Handle actions for the IDLE, ROUND_COMPLETE and GAME_OVER states
    */
   private handleIdleActions(): void {
-    // Only process idle actions when actually in IDLE state
-    if (this.gameStateManager.getState() !== GameState.IDLE) return;
+    // Only process idle actions when waiting for the player
+    const state = this.gameStateManager.getState();
+    if (state !== GameState.IDLE && state !== GameState.ROUND_COMPLETE && state !== GameState.GAME_OVER) return;
     
-    // Check for space key to start a new shot
+    // Check for space key to start a new shot (or a new round)
     if (this.inputManager.isKeyDown('Space')) {
       // Debounce to prevent multiple shots
       if (!this.idleDebounceActive) {
-        // Start a new shot - this will transition to the SELECTING_TYPE state
-        this.shotController.startShot();
+        if (state === GameState.ROUND_COMPLETE || state === GameState.GAME_OVER) {
+          // Play the round again from the first hole
+          this.roundManager.startRound();
+        } else {
+          // Start a new shot - this will transition to the SELECTING_TYPE state
+          this.startShot();
+        }
         
         // Add a simple debounce to prevent immediate re-activation
         this.idleDebounceActive = true;
@@ -453,13 +950,23 @@ export class Game {
   public fireShot(power: number = 0.7): void {
     // This method is kept for backwards compatibility
     // It's now simplified to just start the shot sequence
-    this.shotController.startShot();
+    this.startShot();
     
     // TODO: In the future, we may want to implement a way to programmatically
     // set shot parameters including power, but this requires changes to the
     // ShotController interface.
   }
 
+  /**
+   * Start a shot for the active player, unless they have no energy left to take it
+   */
+  private startShot(): void {
+    // A player out of energy can't shoot - the round is lost instead
+    if (this.gameStateManager.isState(GameState.IDLE) && this.checkOutOfEnergy()) return;
+    
+    this.shotController.startShot();
+  }
+  
   /**
    * Handle window resize
    */
@@ -480,21 +987,57 @@ export class Game {
     if (this.boundHandlers) {
       this.eventSystem.off(GameEvents.BALL_BOUNCE, this.boundHandlers.ballBounce);
       this.eventSystem.off(GameEvents.BALL_STOPPED, this.boundHandlers.ballStopped);
+      this.eventSystem.off(GameEvents.BALL_WARPED, this.boundHandlers.ballWarped);
+      this.eventSystem.off(GameEvents.TARGET_HIT, this.boundHandlers.targetHit);
+      this.eventSystem.off(GameEvents.TURN_CHANGED, this.boundHandlers.turnChanged);
       this.boundHandlers = null;
     }
     
+    // Stop the round
+    if (this.roundManager) {
+      this.roundManager.dispose();
+    }
+    
+    if (this.powerUpManager) {
+      this.powerUpManager.dispose();
+    }
+    
+    if (this.abilityManager) {
+      this.abilityManager.dispose();
+    }
+    
+    if (this.energyManager) {
+      this.energyManager.dispose();
+      this.energyManager = null;
+    }
+    
+    if (this.holeResultTracker) {
+      this.holeResultTracker.dispose();
+    }
+    
+    if (this.mulliganManager) {
+      this.mulliganManager.dispose();
+    }
+    
+    if (this.modifierManager) {
+      this.modifierManager.dispose();
+      this.modifierManager = null;
+    }
+    
+    if (this.turnManager) {
+      this.turnManager.dispose();
+    }
+    
     // Dispose collision handler
     if (this.collisionHandler) {
       this.collisionHandler.dispose();
     }
     
     // Dispose of game entities
-    if (this.ball) {
-      this.ball.dispose();
-    }
+    this.players.forEach(player => player.getBall().dispose());
     
-    if (this.terrain) {
-      this.terrain.dispose();
+    if (this.courseBuilder) {
+      this.courseBuilder.dispose();
     }
     
     // Dispose of the shot controller
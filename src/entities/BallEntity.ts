@@ -1,9 +1,63 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { EventSystem, GameEvents } from '../utils/EventSystem';
+import { SurfaceMaterial, SurfaceType, SURFACE_MATERIALS } from '../physics/SurfaceMaterials';
+import { getGroundDistance } from '../physics/GroundProbe';
 
 /**
- * BallEntity - Represents the player-controlled ball
+ * Payload of the BALL_COLLISION event
+ */
+export interface BallCollisionEvent {
+  striker: BallEntity;          // The ball that was moving faster into the other
+  struck: BallEntity;
+  strikerOwner: string | null;
+  struckOwner: string | null;
+  position: THREE.Vector3;      // Midpoint between the two balls
+  impactSpeed: number;          // Closing speed along the line between the centers
+}
+
+/**
+ * Material values that replace the surface's while set (power-ups)
+ */
+export interface SurfaceOverride {
+  friction?: number;
+  restitution?: number;
+  damping?: number;             // Linear and angular damping, on the ground and in the air
+}
+
+/**
+ * State of the ball's rigid body, for rewinding a shot
+ */
+export interface BallSnapshot {
+  position: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  linearVelocity: THREE.Vector3;
+  angularVelocity: THREE.Vector3;
+}
+
+/**
+ * Friction, restitution and damping the ball gets from the surface it is on
+ */
+export interface BallMaterial {
+  friction: number;
+  restitution: number;
+  linearDamping: number;
+  angularDamping: number;
+}
+
+/**
+ * Scales applied on top of the material for a whole session (modifiers)
+ */
+export interface BallPhysicsModifier {
+  restitutionScale: number;
+  dampingScale: number;
+}
+
+/**
+ * BallEntity - Represents a player-controlled ball
+ *
+ * Several balls can be on the course at once; each may belong to a player
+ * (its owner), so collisions between balls can be attributed.
  */
 export class BallEntity {
   private scene: THREE.Scene;
@@ -14,16 +68,29 @@ export class BallEntity {
   private radius: number = 0.5;
   private isMoving: boolean = false;
   private minVelocityThreshold: number = 0.1;
+  private settleUpdates: number = 0; // Updates left before a ball just set moving can count as stopped
+  private settleDelay: number = 5;   // A knocked ball only picks up speed on the step after the contact
   private tempVec3: THREE.Vector3 = new THREE.Vector3();
   private eventSystem: EventSystem;
   private cameraTarget: THREE.Vector3 = new THREE.Vector3();
+  private spawnPosition: THREE.Vector3 = new THREE.Vector3(0, this.radius + 0.01, 0);
+  private ownerId: string | null = null; // Player the ball belongs to
   
   // Ball physics properties
-  private restitution: number = 0.7; // Bounciness
-  private friction: number = 0.3;    // Surface friction
   private mass: number = 1;          // Mass in kg
-  private linearDamping: number = 0.5; // Resistance to linear movement
-  private angularDamping: number = 0.2; // Resistance to rotation
+  private linearDamping: number = 0.5; // Resistance to linear movement in the air
+  private angularDamping: number = 0.2; // Resistance to rotation in the air
+  
+  // Surface under the ball - supplies friction, restitution and rolling damping
+  private surface: SurfaceMaterial = SURFACE_MATERIALS[SurfaceType.FAIRWAY];
+  private surfaceProvider: ((x: number, z: number) => SurfaceMaterial) | null = null;
+  private isOnSurface: boolean = false;
+  private surfaceOverride: SurfaceOverride | null = null;
+  private physicsModifier: BallPhysicsModifier = { restitutionScale: 1, dampingScale: 1 };
+  private shotBounceScale: number = 1; // Bounciness of the shot type in play
+  
+  // Gravity scales of the effects acting on the ball (hover, gravity flip), multiplied together
+  private gravityScales: Map<string, number> = new Map();
   
   /**
    * Constructor
@@ -69,7 +136,7 @@ export class BallEntity {
   private createPhysics(): void {
     // Create rigid body
     const rigidBodyDesc = RAPIER.RigidBodyDesc.dynamic()
-      .setTranslation(0, this.radius + 0.01, 0) // Slightly above ground
+      .setTranslation(this.spawnPosition.x, this.spawnPosition.y, this.spawnPosition.z) // Slightly above ground
       .setLinearDamping(this.linearDamping)
       .setAngularDamping(this.angularDamping)
       .setCcdEnabled(true); // Continuous collision detection for fast objects
@@ -77,10 +144,15 @@ export class BallEntity {
     this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
     
     // Create collider
+    // The Max combine rule lets the surface material win against neutral ground
+    // colliders, while bouncier obstacles (e.g. bumper walls) keep their own values
     const colliderDesc = RAPIER.ColliderDesc.ball(this.radius)
-      .setRestitution(this.restitution)
-      .setFriction(this.friction)
-      .setDensity(this.mass);
+      .setRestitution(this.surface.restitution)
+      .setFriction(this.surface.friction)
+      .setRestitutionCombineRule(RAPIER.CoefficientCombineRule.Max)
+      .setFrictionCombineRule(RAPIER.CoefficientCombineRule.Max)
+      .setDensity(this.mass)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS); // Report hits on other balls
     
     this.collider = this.world.createCollider(colliderDesc, this.rigidBody);
   }
@@ -97,6 +169,9 @@ export class BallEntity {
     const rotation = this.rigidBody.rotation();
     this.mesh.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
     
+    // Apply the material of the surface under the ball
+    this.updateSurface();
+    
     // Check if ball has stopped moving
     this.checkIfStopped();
   }
@@ -180,27 +255,256 @@ export class BallEntity {
     return new THREE.Vector3(angVel.x, angVel.y, angVel.z);
   }
   
+  /**
+   * Set the position the ball is reset to (e.g. the tee of the current hole)
+   */
+  public setSpawnPosition(position: THREE.Vector3): void {
+    this.spawnPosition.copy(position);
+  }
+  
+  /**
+   * Get the position the ball is reset to
+   */
+  public getSpawnPosition(): THREE.Vector3 {
+    return this.spawnPosition.clone();
+  }
+  
   /**
    * Reset the ball to starting position
    */
   public reset(): void {
+    this.dropAt(this.spawnPosition);
+  }
+  
+  /**
+   * Place the ball at rest at a position (e.g. a drop zone after a penalty)
+   */
+  public dropAt(position: THREE.Vector3): void {
     // Stop all movement
     this.rigidBody.setLinvel({ x: 0, y: 0, z: 0 }, true);
     this.rigidBody.setAngvel({ x: 0, y: 0, z: 0 }, true);
     
-    // Reset position
-    this.setPosition(new THREE.Vector3(0, this.radius + 0.01, 0));
+    // Move to the new position
+    this.setPosition(position);
+    
+    // Show the ball again (it is hidden after sinking)
+    this.setVisible(true);
     
     // Reset flag
     this.isMoving = false;
   }
   
+  /**
+   * Take a snapshot of the rigid body's state
+   */
+  public getSnapshot(): BallSnapshot {
+    const rotation = this.rigidBody.rotation();
+    return {
+      position: this.getPosition(),
+      rotation: new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w),
+      linearVelocity: this.getVelocity(),
+      angularVelocity: this.getAngularVelocity()
+    };
+  }
+  
+  /**
+   * Put the rigid body back into a snapshot's state
+   */
+  public restoreSnapshot(snapshot: BallSnapshot): void {
+    const { rotation, linearVelocity, angularVelocity } = snapshot;
+    
+    this.setPosition(snapshot.position);
+    this.rigidBody.setRotation({ x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w }, true);
+    this.rigidBody.setLinvel({ x: linearVelocity.x, y: linearVelocity.y, z: linearVelocity.z }, true);
+    this.rigidBody.setAngvel({ x: angularVelocity.x, y: angularVelocity.y, z: angularVelocity.z }, true);
+    this.mesh.quaternion.copy(rotation);
+    
+    this.isMoving = linearVelocity.length() > this.minVelocityThreshold;
+  }
+  
+  /**
+   * Set the lookup for the surface under the ball (usually the terrain's surface map)
+   */
+  public setSurfaceProvider(provider: ((x: number, z: number) => SurfaceMaterial) | null): void {
+    this.surfaceProvider = provider;
+    this.updateSurface();
+  }
+  
+  /**
+   * Get the surface material under the ball
+   */
+  public getSurface(): SurfaceMaterial {
+    return this.surface;
+  }
+  
+  /**
+   * Read the surface under the ball and apply its material
+   * Friction and restitution always follow the surface below, so a landing
+   * bounces off the surface it lands on. Rolling damping only applies on the ground.
+   */
+  private updateSurface(): void {
+    const position = this.rigidBody.translation();
+    const surface = this.getSurfaceAt(position.x, position.z);
+    const isOnSurface = this.getGroundDistance() <= 0.1;
+    
+    if (surface === this.surface && isOnSurface === this.isOnSurface) return;
+    
+    this.surface = surface;
+    this.isOnSurface = isOnSurface;
+    this.applySurface();
+  }
+  
+  /**
+   * Get the surface at a point of the course
+   */
+  private getSurfaceAt(x: number, z: number): SurfaceMaterial {
+    return this.surfaceProvider ? this.surfaceProvider(x, z) : SURFACE_MATERIALS[SurfaceType.FAIRWAY];
+  }
+  
+  /**
+   * Work out the ball's material on a surface, with the override and all scales applied
+   */
+  private getMaterial(surface: SurfaceMaterial, isOnSurface: boolean, shotBounceScale: number): BallMaterial {
+    const override = this.surfaceOverride ?? {};
+    const modifier = this.physicsModifier;
+    
+    const restitution = (override.restitution ?? surface.restitution) * modifier.restitutionScale * shotBounceScale;
+    const linearDamping = override.damping ?? (isOnSurface ? surface.rollingDamping : this.linearDamping);
+    const angularDamping = override.damping ?? (isOnSurface ? surface.rollingDamping : this.angularDamping);
+    
+    return {
+      friction: override.friction ?? surface.friction,
+      restitution: Math.min(restitution, 1),
+      linearDamping: linearDamping * modifier.dampingScale,
+      angularDamping: angularDamping * modifier.dampingScale
+    };
+  }
+  
+  /**
+   * Get the material the ball would have at a point of the course (for the trajectory preview)
+   * @param isOnSurface Whether the ball touches the ground there or flies over it
+   * @param shotBounceScale Shot type's scale on restitution (the current one by default)
+   */
+  public getMaterialAt(
+    x: number,
+    z: number,
+    isOnSurface: boolean,
+    shotBounceScale: number = this.shotBounceScale
+  ): BallMaterial {
+    return this.getMaterial(this.getSurfaceAt(x, z), isOnSurface, shotBounceScale);
+  }
+  
+  /**
+   * Apply the current surface's material, or the override where one is set
+   */
+  private applySurface(): void {
+    const material = this.getMaterial(this.surface, this.isOnSurface, this.shotBounceScale);
+    
+    this.collider.setFriction(material.friction);
+    this.collider.setRestitution(material.restitution);
+    this.rigidBody.setLinearDamping(material.linearDamping);
+    this.rigidBody.setAngularDamping(material.angularDamping);
+  }
+  
+  /**
+   * Set the session's scales on restitution and damping (null resets them)
+   */
+  public setPhysicsModifier(modifier: BallPhysicsModifier | null): void {
+    this.physicsModifier = modifier ? { ...modifier } : { restitutionScale: 1, dampingScale: 1 };
+    this.applySurface();
+  }
+  
+  /**
+   * Set the scale the current shot type puts on restitution (1 resets it)
+   */
+  public setShotBounce(scale: number): void {
+    this.shotBounceScale = scale;
+    this.applySurface();
+  }
+  
+  /**
+   * Override the surface material (null goes back to the surface under the ball)
+   */
+  public setSurfaceOverride(override: SurfaceOverride | null): void {
+    this.surfaceOverride = override;
+    this.applySurface();
+  }
+  
+  /**
+   * Set the gravity scale an effect puts on the ball (negative pulls it up, null ends the effect)
+   * Effects stack, so one ending leaves the others in place.
+   */
+  public setGravityScale(effect: string, scale: number | null): void {
+    if (scale === null) {
+      this.gravityScales.delete(effect);
+    } else {
+      this.gravityScales.set(effect, scale);
+    }
+    
+    let total = 1;
+    this.gravityScales.forEach(value => total *= value);
+    this.rigidBody.setGravityScale(total, true);
+  }
+  
+  /**
+   * Show or hide the ball mesh
+   */
+  public setVisible(visible: boolean): void {
+    this.mesh.visible = visible;
+  }
+  
+  /**
+   * Set the ball color
+   */
+  public setColor(color: THREE.ColorRepresentation): void {
+    (this.mesh.material as THREE.MeshStandardMaterial).color.set(color);
+  }
+  
+  /**
+   * Set the player the ball belongs to
+   */
+  public setOwner(ownerId: string | null): void {
+    this.ownerId = ownerId;
+  }
+  
+  /**
+   * Get the player the ball belongs to
+   */
+  public getOwner(): string | null {
+    return this.ownerId;
+  }
+  
+  /**
+   * Put the ball on the course or take it off (hidden, no collisions)
+   */
+  public setInPlay(inPlay: boolean): void {
+    this.rigidBody.setEnabled(inPlay);
+    this.setVisible(inPlay);
+    
+    if (!inPlay) {
+      this.isMoving = false;
+    }
+  }
+  
+  /**
+   * Check whether the ball is on the course
+   */
+  public isInPlay(): boolean {
+    return this.rigidBody.isEnabled();
+  }
+  
   /**
    * Check if the ball has stopped moving
    */
   private checkIfStopped(): void {
     if (!this.isMoving) return;
     
+    // Give a ball that was just set moving time to pick up speed
+    if (this.settleUpdates > 0) {
+      this.settleUpdates--;
+      return;
+    }
+    
     // Get current velocity
     const velocity = this.getVelocity();
     const speed = velocity.length();
@@ -214,8 +518,9 @@ export class BallEntity {
       // Force zero velocity to ensure it's really stopped
       this.zeroVelocity();
       
-      // Emit ball stopped event through the event system
-      this.eventSystem.emit(GameEvents.BALL_STOPPED, this.getPosition());
+      // Emit ball at rest event through the event system
+      // (the shot as a whole ends with BALL_STOPPED once every ball has stopped)
+      this.eventSystem.emit(GameEvents.BALL_AT_REST, this.getPosition(), this);
     }
   }
   
@@ -254,10 +559,19 @@ export class BallEntity {
     return this.isMoving;
   }
   
+  /**
+   * Check whether the ball was set moving too recently to count as stopped
+   */
+  public isSettling(): boolean {
+    return this.isMoving && this.settleUpdates > 0;
+  }
+  
   /**
    * Set whether the ball is moving or not
    */
   public setMoving(isMoving: boolean): void {
+    this.settleUpdates = isMoving ? this.settleDelay : 0;
+    
     // Only update if the state is changing
     if (this.isMoving !== isMoving) {
       this.isMoving = isMoving;
@@ -306,10 +620,20 @@ export class BallEntity {
    * Check if ball is on the ground or in air
    */
   public isGrounded(): boolean {
-    // Simple implementation - check if y velocity is very small and position is near ground
-    const position = this.getPosition();
+    // Check if y velocity is very small and there is a surface right below the ball
     const velocity = this.getVelocity();
-    return Math.abs(velocity.y) < 0.1 && position.y <= this.radius + 0.1;
+    if (Math.abs(velocity.y) >= 0.1) return false;
+    
+    return this.getGroundDistance() <= 0.1;
+  }
+  
+  /**
+   * Get the distance from the bottom of the ball to the surface below it
+   * Uses a downward raycast so sloped and raised terrain is handled
+   * @returns Distance to the ground, or Infinity if nothing is below the ball
+   */
+  public getGroundDistance(maxDistance: number = 10): number {
+    return getGroundDistance(this.world, this.rigidBody, maxDistance);
   }
   
   /**
@@ -0,0 +1,244 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { EventSystem, GameEvents } from '../utils/EventSystem';
+import { BallEntity } from './BallEntity';
+
+/**
+ * Result of checking the ball against the cup
+ */
+export enum CupCheckResult {
+  NONE = 'NONE',       // Ball is not at the cup
+  SUNK = 'SUNK',       // Ball dropped into the cup
+  LIP_OUT = 'LIP_OUT'  // Ball reached the cup too fast and rolled over the lip
+}
+
+/**
+ * CupEntity - The goal of a hole: a cup with a flag and a sensor collider
+ *
+ * The cup is a sensor, so it never blocks the ball. Each frame the ball is
+ * checked against the sensor; a slow enough ball is captured, a fast one lips out.
+ */
+export class CupEntity {
+  private scene: THREE.Scene;
+  private world: RAPIER.World;
+  private eventSystem: EventSystem;
+  private group: THREE.Group;
+  private rigidBody: RAPIER.RigidBody;
+  private sensor: RAPIER.Collider;
+  private position: THREE.Vector3;
+  
+  // Cup properties
+  private radius: number = 0.75;
+  private sensorHalfHeight: number = 0.6;
+  private captureHeight: number = 0.15;  // Highest the bottom of the ball can be above the cup and drop in
+  private flagHeight: number = 3.0;
+  private maxCaptureSpeed: number = 4.0; // Faster balls lip out
+  private lipOutDeflection: number = 0.35; // Share of speed redirected away from the cup
+  private lipOutSpeedLoss: number = 0.8;   // Speed kept after lipping out
+  
+  // A ball that lipped out can't drop in until it has left the cup
+  private lippedOut: boolean = false;
+  
+  /**
+   * Constructor
+   * @param position Position of the cup on the terrain surface
+   */
+  constructor(scene: THREE.Scene, world: RAPIER.World, position: THREE.Vector3) {
+    this.scene = scene;
+    this.world = world;
+    this.eventSystem = EventSystem.getInstance();
+    this.position = position.clone();
+    
+    // Create cup and flag meshes
+    this.createMesh();
+    
+    // Create sensor collider
+    this.createPhysics();
+  }
+  
+  /**
+   * Create the cup and flag meshes
+   */
+  private createMesh(): void {
+    this.group = new THREE.Group();
+    this.group.position.copy(this.position);
+    
+    // Dark hole on the ground
+    const holeGeometry = new THREE.CircleGeometry(this.radius, 32);
+    const holeMaterial = new THREE.MeshStandardMaterial({
+      color: 0x111111,
+      roughness: 1.0,
+      metalness: 0.0
+    });
+    const hole = new THREE.Mesh(holeGeometry, holeMaterial);
+    hole.rotation.x = -Math.PI / 2;
+    hole.position.y = 0.02; // Just above terrain to avoid z-fighting
+    this.group.add(hole);
+    
+    // Flag pole
+    const poleGeometry = new THREE.CylinderGeometry(0.04, 0.04, this.flagHeight, 8);
+    const poleMaterial = new THREE.MeshStandardMaterial({ color: 0xeeeeee });
+    const pole = new THREE.Mesh(poleGeometry, poleMaterial);
+    pole.position.y = this.flagHeight / 2;
+    pole.castShadow = true;
+    this.group.add(pole);
+    
+    // Triangular flag
+    const flagShape = new THREE.Shape();
+    flagShape.moveTo(0, 0);
+    flagShape.lineTo(1.0, -0.3);
+    flagShape.lineTo(0, -0.6);
+    flagShape.lineTo(0, 0);
+    
+    const flagGeometry = new THREE.ShapeGeometry(flagShape);
+    const flagMaterial = new THREE.MeshStandardMaterial({
+      color: 0xff3366, // Kirby pink
+      side: THREE.DoubleSide
+    });
+    const flag = new THREE.Mesh(flagGeometry, flagMaterial);
+    flag.position.set(0.04, this.flagHeight, 0);
+    flag.castShadow = true;
+    this.group.add(flag);
+    
+    // Add to scene
+    this.scene.add(this.group);
+  }
+  
+  /**
+   * Create the sensor collider for sink detection
+   */
+  private createPhysics(): void {
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
+      .setTranslation(this.position.x, this.position.y, this.position.z);
+    
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    
+    // Sensor cylinder around the cup opening - detects the ball without blocking it
+    const colliderDesc = RAPIER.ColliderDesc.cylinder(this.sensorHalfHeight, this.radius)
+      .setSensor(true);
+    
+    this.sensor = this.world.createCollider(colliderDesc, this.rigidBody);
+  }
+  
+  /**
+   * Check the ball against the cup
+   * Call this every frame while the ball is in play
+   */
+  public update(ball: BallEntity): CupCheckResult {
+    const isInside = this.world.intersectionPair(this.sensor, ball.getCollider());
+    
+    if (!isInside) {
+      this.lippedOut = false;
+      return CupCheckResult.NONE;
+    }
+    
+    // Still riding over the rim after a lip out
+    if (this.lippedOut) {
+      return CupCheckResult.NONE;
+    }
+    
+    // The sensor reaches past the rim and above it; only a ball at the opening counts
+    if (!this.isAtOpening(ball)) {
+      return CupCheckResult.NONE;
+    }
+    
+    const velocity = ball.getVelocity();
+    const speed = velocity.length();
+    
+    // Slow enough - the ball drops in
+    if (speed <= this.maxCaptureSpeed) {
+      return CupCheckResult.SUNK;
+    }
+    
+    // Too fast - the ball rides over the lip
+    this.lippedOut = true;
+    this.applyLipOut(ball, velocity);
+    
+    this.eventSystem.emit(GameEvents.CUP_LIP_OUT, {
+      position: ball.getPosition(),
+      speed
+    });
+    
+    console.log(`Lip out! Ball speed ${speed.toFixed(2)} above capture speed ${this.maxCaptureSpeed}`);
+    return CupCheckResult.LIP_OUT;
+  }
+  
+  /**
+   * Check whether the ball's center is over the cup opening and the ball is on the ground
+   */
+  private isAtOpening(ball: BallEntity): boolean {
+    const offset = ball.getPosition().sub(this.position);
+    const height = offset.y - ball.getRadius();
+    offset.y = 0;
+    
+    return offset.length() <= this.radius && height <= this.captureHeight;
+  }
+  
+  /**
+   * Deflect the ball away from the cup center as it rides over the rim
+   */
+  private applyLipOut(ball: BallEntity, velocity: THREE.Vector3): void {
+    const offset = ball.getPosition().sub(this.position);
+    offset.y = 0;
+    
+    if (offset.lengthSq() < 0.0001) {
+      // Dead center - deflect sideways relative to travel direction
+      offset.set(-velocity.z, 0, velocity.x);
+    }
+    
+    offset.normalize();
+    
+    const deflected = velocity.clone()
+      .addScaledVector(offset, velocity.length() * this.lipOutDeflection)
+      .multiplyScalar(this.lipOutSpeedLoss);
+    
+    ball.getRigidBody().setLinvel({ x: deflected.x, y: deflected.y, z: deflected.z }, true);
+  }
+  
+  /**
+   * Place the ball inside the cup and stop it
+   */
+  public captureBall(ball: BallEntity): void {
+    ball.zeroVelocity();
+    ball.setPosition(new THREE.Vector3(
+      this.position.x,
+      this.position.y + ball.getRadius(),
+      this.position.z
+    ));
+    ball.setMoving(false);
+    ball.setVisible(false);
+  }
+  
+  /**
+   * Get cup position
+   */
+  public getPosition(): THREE.Vector3 {
+    return this.position.clone();
+  }
+  
+  /**
+   * Get the sensor collider
+   */
+  public getSensor(): RAPIER.Collider {
+    return this.sensor;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    // Remove from scene
+    this.scene.remove(this.group);
+    
+    // Remove physics body (also removes the sensor)
+    this.world.removeRigidBody(this.rigidBody);
+    
+    // Dispose geometries and materials
+    this.group.traverse(object => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { BallEntity } from './BallEntity';
+import { SURFACE_MATERIALS, SurfaceType } from '../physics/SurfaceMaterials';
+
+/**
+ * Types of hazard volumes
+ */
+export enum HazardType {
+  WATER = 'water', // Pond or river - the ball splashes in
+  PIT = 'pit'      // Bottomless pit - the ball falls out of play
+}
+
+/**
+ * Options for creating a hazard
+ */
+export interface HazardOptions {
+  type: HazardType;
+  position: THREE.Vector3;      // Center of the volume
+  size: THREE.Vector3;          // Full extents of the volume
+  dropZone?: THREE.Vector3;     // Ground point where the ball is re-spotted after entering
+}
+
+/**
+ * HazardEntity - A sensor volume that costs a penalty stroke when the ball enters it
+ *
+ * Water can be frozen (the freeze copy ability): a solid ice slab then covers the
+ * top of the volume and the hazard no longer catches the ball.
+ */
+export class HazardEntity {
+  private scene: THREE.Scene;
+  private world: RAPIER.World;
+  private mesh: THREE.Mesh;
+  private rigidBody: RAPIER.RigidBody;
+  private sensor: RAPIER.Collider;
+  private type: HazardType;
+  private size: THREE.Vector3;
+  private dropZone: THREE.Vector3 | null;
+  private frozen: boolean = false;
+  
+  /**
+   * Constructor
+   */
+  constructor(scene: THREE.Scene, world: RAPIER.World, options: HazardOptions) {
+    this.scene = scene;
+    this.world = world;
+    this.type = options.type;
+    this.size = options.size.clone();
+    this.dropZone = options.dropZone ? options.dropZone.clone() : null;
+    
+    // Create hazard mesh
+    this.createMesh(options);
+    
+    // Create sensor collider
+    this.createPhysics(options);
+  }
+  
+  /**
+   * Create the hazard mesh
+   */
+  private createMesh(options: HazardOptions): void {
+    const geometry = new THREE.BoxGeometry(this.size.x, this.size.y, this.size.z);
+    
+    const material = this.type === HazardType.WATER
+      ? new THREE.MeshStandardMaterial({
+        color: 0x3388ff, // Water blue
+        transparent: true,
+        opacity: 0.6,
+        roughness: 0.1,
+        metalness: 0.2
+      })
+      : new THREE.MeshStandardMaterial({
+        color: 0x111122, // Dark pit
+        roughness: 1.0,
+        metalness: 0.0
+      });
+    
+    this.mesh = new THREE.Mesh(geometry, material);
+    this.mesh.position.copy(options.position);
+    this.mesh.receiveShadow = true;
+    
+    // Add to scene
+    this.scene.add(this.mesh);
+  }
+  
+  /**
+   * Create the sensor collider
+   */
+  private createPhysics(options: HazardOptions): void {
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
+      .setTranslation(options.position.x, options.position.y, options.position.z);
+    
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    
+    // Sensor - detects the ball without affecting its motion
+    const colliderDesc = RAPIER.ColliderDesc.cuboid(
+      this.size.x / 2, this.size.y / 2, this.size.z / 2
+    )
+      .setSensor(true);
+    
+    this.sensor = this.world.createCollider(colliderDesc, this.rigidBody);
+  }
+  
+  /**
+   * Check whether the ball is inside the hazard (never while frozen)
+   */
+  public containsBall(ball: BallEntity): boolean {
+    if (this.frozen) return false;
+    return this.world.intersectionPair(this.sensor, ball.getCollider());
+  }
+  
+  /**
+   * Check whether a point lies over the hazard's footprint
+   */
+  public containsPoint(x: number, z: number): boolean {
+    const center = this.rigidBody.translation();
+    return Math.abs(x - center.x) <= this.size.x / 2 && Math.abs(z - center.z) <= this.size.z / 2;
+  }
+  
+  /**
+   * Freeze water into a solid sheet of ice the ball rolls across
+   * @returns False if the hazard isn't water or is already frozen
+   */
+  public freeze(): boolean {
+    if (this.type !== HazardType.WATER || this.frozen) return false;
+    
+    this.frozen = true;
+    
+    // Thin solid slab at the top of the volume
+    const ice = SURFACE_MATERIALS[SurfaceType.ICE];
+    const slabDesc = RAPIER.ColliderDesc.cuboid(this.size.x / 2, 0.05, this.size.z / 2)
+      .setTranslation(0, this.size.y / 2 - 0.05, 0)
+      .setFriction(ice.friction)
+      .setRestitution(ice.restitution);
+    this.world.createCollider(slabDesc, this.rigidBody);
+    
+    const material = this.mesh.material as THREE.MeshStandardMaterial;
+    material.color.setHex(ice.color);
+    material.opacity = 0.9;
+    material.roughness = 0.05;
+    
+    return true;
+  }
+  
+  /**
+   * Check whether the hazard has been frozen
+   */
+  public isFrozen(): boolean {
+    return this.frozen;
+  }
+  
+  /**
+   * Get the hazard type
+   */
+  public getType(): HazardType {
+    return this.type;
+  }
+  
+  /**
+   * Get the drop zone for this hazard, or null to use the last resting position
+   */
+  public getDropZone(): THREE.Vector3 | null {
+    return this.dropZone ? this.dropZone.clone() : null;
+  }
+  
+  /**
+   * Get the sensor collider
+   */
+  public getSensor(): RAPIER.Collider {
+    return this.sensor;
+  }
+  
+  /**
+   * Get hazard mesh
+   */
+  public getMesh(): THREE.Mesh {
+    return this.mesh;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    // Remove from scene
+    this.scene.remove(this.mesh);
+    
+    // Remove physics body (also removes the sensor)
+    this.world.removeRigidBody(this.rigidBody);
+    
+    // Dispose geometry and material
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,298 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+
+/**
+ * Motion along a path of offsets from the obstacle's start position
+ * With ping-pong the obstacle travels to the last point and back, easing in and
+ * out at each end. With loop it travels on from the last point back to the start.
+ */
+export interface PathMotion {
+  type: 'path';
+  points: THREE.Vector3[];  // Offsets from the start position, the first is usually (0, 0, 0)
+  duration: number;         // Seconds to travel the whole path one way
+  pause: number;            // Seconds to wait at each end (ping-pong) or at the start (loop)
+  loop: boolean;
+}
+
+/**
+ * Continuous rotation around an axis through the obstacle's position
+ */
+export interface SpinMotion {
+  type: 'spin';
+  axis: THREE.Vector3;      // Local rotation axis (before rotationY is applied)
+  speed: number;            // Radians per second, negative to reverse
+}
+
+/**
+ * Motion of a moving obstacle
+ */
+export type ObstacleMotion = PathMotion | SpinMotion;
+
+/**
+ * Options for creating a moving obstacle
+ */
+export interface MovingObstacleOptions {
+  position: THREE.Vector3;     // Start position (path) or pivot (spin)
+  size: THREE.Vector3;         // Full extents of the box (or of each blade)
+  motion: ObstacleMotion;
+  rotationY?: number;          // Rotation around the vertical axis (radians)
+  blades?: number;             // Copies of the box spread evenly around the spin axis (windmills)
+  phase?: number;              // Time offset in seconds, to stagger obstacles
+  color?: THREE.ColorRepresentation;
+}
+
+/**
+ * MovingObstacleEntity - A kinematic obstacle that slides along a path or spins
+ *
+ * The body is kinematic and position based: every fixed physics step it is given
+ * its next pose and Rapier derives the velocity from that, so the ball is pushed
+ * and carried correctly. The pose is a pure function of the obstacle's clock,
+ * which only advances through step(), keeping the motion in sync with the
+ * physics timestep and independent of the frame rate.
+ */
+export class MovingObstacleEntity {
+  private scene: THREE.Scene;
+  private world: RAPIER.World;
+  private group: THREE.Group;
+  private rigidBody: RAPIER.RigidBody;
+  private colliders: RAPIER.Collider[] = [];
+  
+  // Motion
+  private origin: THREE.Vector3;
+  private baseRotation: THREE.Quaternion;
+  private motion: ObstacleMotion;
+  private phase: number;
+  private time: number = 0;
+  
+  // Obstacle properties
+  private size: THREE.Vector3;
+  private blades: number;
+  private friction: number = 0.5;
+  private restitution: number = 0.5;
+  
+  /**
+   * Constructor
+   */
+  constructor(scene: THREE.Scene, world: RAPIER.World, options: MovingObstacleOptions) {
+    this.scene = scene;
+    this.world = world;
+    this.origin = options.position.clone();
+    this.baseRotation = new THREE.Quaternion().setFromAxisAngle(
+      new THREE.Vector3(0, 1, 0), options.rotationY ?? 0
+    );
+    this.motion = options.motion;
+    this.phase = options.phase ?? 0;
+    this.size = options.size.clone();
+    this.blades = Math.max(1, Math.floor(options.blades ?? 1));
+    
+    // Create obstacle meshes
+    this.createMesh(options);
+    
+    // Create physics body and colliders
+    this.createPhysics();
+    
+    // Start at the pose for time zero
+    this.reset();
+  }
+  
+  /**
+   * Create the obstacle meshes (one per blade)
+   */
+  private createMesh(options: MovingObstacleOptions): void {
+    this.group = new THREE.Group();
+    
+    const material = new THREE.MeshStandardMaterial({
+      color: options.color ?? 0xcc5544, // Red so moving parts stand out
+      roughness: 0.6,
+      metalness: 0.2
+    });
+    
+    for (let i = 0; i < this.blades; i++) {
+      const mesh = new THREE.Mesh(
+        new THREE.BoxGeometry(this.size.x, this.size.y, this.size.z),
+        material
+      );
+      mesh.quaternion.copy(this.getBladeRotation(i));
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      this.group.add(mesh);
+    }
+    
+    // Add to scene
+    this.scene.add(this.group);
+  }
+  
+  /**
+   * Create the kinematic body with one collider per blade
+   */
+  private createPhysics(): void {
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.kinematicPositionBased()
+      .setTranslation(this.origin.x, this.origin.y, this.origin.z);
+    
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    
+    for (let i = 0; i < this.blades; i++) {
+      const rotation = this.getBladeRotation(i);
+      
+      // Cuboid collider uses half extents
+      const colliderDesc = RAPIER.ColliderDesc.cuboid(
+        this.size.x / 2, this.size.y / 2, this.size.z / 2
+      )
+        .setRotation({ x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w })
+        .setFriction(this.friction)
+        .setRestitution(this.restitution);
+      
+      this.colliders.push(this.world.createCollider(colliderDesc, this.rigidBody));
+    }
+  }
+  
+  /**
+   * Local rotation of a blade, spreading blades evenly around the spin axis
+   */
+  private getBladeRotation(index: number): THREE.Quaternion {
+    if (index === 0 || this.motion.type !== 'spin') {
+      return new THREE.Quaternion();
+    }
+    
+    return new THREE.Quaternion().setFromAxisAngle(
+      this.motion.axis.clone().normalize(),
+      (Math.PI * index) / this.blades
+    );
+  }
+  
+  /**
+   * Advance the obstacle clock by one physics step and queue the next pose
+   * Called before each fixed physics step.
+   */
+  public step(timestep: number): void {
+    this.time += timestep;
+    this.applyPose(
+      this.rigidBody.setNextKinematicTranslation.bind(this.rigidBody),
+      this.rigidBody.setNextKinematicRotation.bind(this.rigidBody)
+    );
+  }
+  
+  /**
+   * Compute the pose for the current time and hand it to the given setters
+   */
+  private applyPose(
+    setTranslation: (translation: RAPIER.Vector, wakeUp: boolean) => void,
+    setRotation: (rotation: RAPIER.Rotation, wakeUp: boolean) => void
+  ): void {
+    const time = this.time + this.phase;
+    const position = this.origin.clone();
+    const rotation = this.baseRotation.clone();
+    
+    if (this.motion.type === 'path') {
+      position.add(this.getPathOffset(this.motion, time));
+    } else {
+      const axis = this.motion.axis.clone().normalize();
+      rotation.multiply(new THREE.Quaternion().setFromAxisAngle(axis, this.motion.speed * time));
+    }
+    
+    setTranslation({ x: position.x, y: position.y, z: position.z }, true);
+    setRotation({ x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w }, true);
+  }
+  
+  /**
+   * Offset along a path at a given time
+   */
+  private getPathOffset(motion: PathMotion, time: number): THREE.Vector3 {
+    const points = motion.loop ? [...motion.points, motion.points[0]] : motion.points;
+    if (points.length < 2 || motion.duration <= 0) {
+      return points.length > 0 ? points[0].clone() : new THREE.Vector3();
+    }
+    
+    // Position within the cycle: pause, travel (and with ping-pong: pause, travel back)
+    const leg = motion.pause + motion.duration;
+    const cycle = motion.loop ? leg : leg * 2;
+    const cycleTime = ((time % cycle) + cycle) % cycle;
+    const legTime = cycleTime % leg;
+    let progress = Math.max(0, legTime - motion.pause) / motion.duration;
+    
+    if (!motion.loop) {
+      // Ease in and out at the ends, and run the return leg backwards
+      progress = progress * progress * (3 - 2 * progress);
+      if (cycleTime >= leg) progress = 1 - progress;
+    }
+    
+    // Walk the path by distance so speed is even across segments
+    const lengths: number[] = [];
+    let total = 0;
+    for (let i = 1; i < points.length; i++) {
+      const length = points[i].distanceTo(points[i - 1]);
+      lengths.push(length);
+      total += length;
+    }
+    
+    let distance = progress * total;
+    for (let i = 0; i < lengths.length; i++) {
+      if (distance <= lengths[i] || i === lengths.length - 1) {
+        const t = lengths[i] > 0 ? Math.min(1, distance / lengths[i]) : 1;
+        return points[i].clone().lerp(points[i + 1], t);
+      }
+      distance -= lengths[i];
+    }
+    
+    return points[points.length - 1].clone();
+  }
+  
+  /**
+   * Update method - called every frame to sync the meshes with physics
+   */
+  public update(): void {
+    const position = this.rigidBody.translation();
+    this.group.position.set(position.x, position.y, position.z);
+    
+    const rotation = this.rigidBody.rotation();
+    this.group.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+  }
+  
+  /**
+   * Restart the motion from time zero
+   */
+  public reset(): void {
+    this.time = 0;
+    this.applyPose(this.rigidBody.setTranslation.bind(this.rigidBody), this.rigidBody.setRotation.bind(this.rigidBody));
+    this.update();
+  }
+  
+  /**
+   * Get rigid body
+   */
+  public getRigidBody(): RAPIER.RigidBody {
+    return this.rigidBody;
+  }
+  
+  /**
+   * Get colliders (one per blade)
+   */
+  public getColliders(): RAPIER.Collider[] {
+    return this.colliders;
+  }
+  
+  /**
+   * Get obstacle mesh group
+   */
+  public getMesh(): THREE.Group {
+    return this.group;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    // Remove from scene
+    this.scene.remove(this.group);
+    
+    // Remove physics body (also removes its colliders)
+    this.world.removeRigidBody(this.rigidBody);
+    
+    // Dispose geometry and the shared material
+    this.group.children.forEach(child => (child as THREE.Mesh).geometry.dispose());
+    const first = this.group.children[0] as THREE.Mesh | undefined;
+    if (first) {
+      (first.material as THREE.Material).dispose();
+    }
+  }
+} 
\ No newline at end of file
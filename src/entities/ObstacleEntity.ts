@@ -0,0 +1,136 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+
+/**
+ * Options for creating an obstacle
+ */
+export interface ObstacleOptions {
+  position: THREE.Vector3;     // Center of the box
+  size: THREE.Vector3;         // Full extents of the box
+  rotationY?: number;          // Rotation around the vertical axis (radians)
+  color?: THREE.ColorRepresentation;
+}
+
+/**
+ * ObstacleEntity - A static box obstacle placed on the course (walls, blocks)
+ */
+export class ObstacleEntity {
+  private scene: THREE.Scene;
+  private world: RAPIER.World;
+  private mesh: THREE.Mesh;
+  private rigidBody: RAPIER.RigidBody;
+  private collider: RAPIER.Collider;
+  
+  // Obstacle properties
+  private size: THREE.Vector3;
+  private friction: number = 0.5;
+  private restitution: number = 0.5;
+  
+  /**
+   * Constructor
+   */
+  constructor(scene: THREE.Scene, world: RAPIER.World, options: ObstacleOptions) {
+    this.scene = scene;
+    this.world = world;
+    this.size = options.size.clone();
+    
+    // Create obstacle mesh
+    this.createMesh(options);
+    
+    // Create physics body and collider
+    this.createPhysics(options);
+  }
+  
+  /**
+   * Create the obstacle mesh
+   */
+  private createMesh(options: ObstacleOptions): void {
+    const geometry = new THREE.BoxGeometry(this.size.x, this.size.y, this.size.z);
+    
+    const material = new THREE.MeshStandardMaterial({
+      color: options.color ?? 0xaa7744, // Wooden brown
+      roughness: 0.7,
+      metalness: 0.1
+    });
+    
+    this.mesh = new THREE.Mesh(geometry, material);
+    this.mesh.position.copy(options.position);
+    this.mesh.rotation.y = options.rotationY ?? 0;
+    this.mesh.castShadow = true;
+    this.mesh.receiveShadow = true;
+    
+    // Add to scene
+    this.scene.add(this.mesh);
+  }
+  
+  /**
+   * Create physics body and collider
+   */
+  private createPhysics(options: ObstacleOptions): void {
+    // Use the mesh quaternion so physics and visuals share the same rotation
+    const rotation = this.mesh.quaternion;
+    
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
+      .setTranslation(options.position.x, options.position.y, options.position.z)
+      .setRotation({ x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w });
+    
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    
+    // Cuboid collider uses half extents
+    const colliderDesc = RAPIER.ColliderDesc.cuboid(
+      this.size.x / 2, this.size.y / 2, this.size.z / 2
+    )
+      .setFriction(this.friction)
+      .setRestitution(this.restitution);
+    
+    this.collider = this.world.createCollider(colliderDesc, this.rigidBody);
+  }
+  
+  /**
+   * Update method - called every frame
+   */
+  public update(): void {
+    // Nothing to update for static obstacles
+  }
+  
+  /**
+   * Get rigid body
+   */
+  public getRigidBody(): RAPIER.RigidBody {
+    return this.rigidBody;
+  }
+  
+  /**
+   * Get collider
+   */
+  public getCollider(): RAPIER.Collider {
+    return this.collider;
+  }
+  
+  /**
+   * Get obstacle mesh
+   */
+  public getMesh(): THREE.Mesh {
+    return this.mesh;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    // Remove from scene
+    this.scene.remove(this.mesh);
+    
+    // Remove physics body (also removes its collider)
+    this.world.removeRigidBody(this.rigidBody);
+    
+    // Dispose geometry and material
+    this.mesh.geometry.dispose();
+    
+    if (Array.isArray(this.mesh.material)) {
+      this.mesh.material.forEach(material => material.dispose());
+    } else {
+      this.mesh.material.dispose();
+    }
+  }
+} 
\ No newline at end of file
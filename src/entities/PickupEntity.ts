@@ -0,0 +1,175 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { BallEntity } from './BallEntity';
+import { PowerUpType, POWER_UPS } from '../gameplay/powerups/PowerUpTypes';
+
+/**
+ * Options for creating a power-up pickup
+ */
+export interface PickupOptions {
+  type: PowerUpType;
+  position: THREE.Vector3;      // Ground point under the pickup
+}
+
+/**
+ * Payload of the PICKUP_REACHED event
+ */
+export interface PickupReachedEvent {
+  ball: BallEntity;
+  pickup: PickupEntity;
+  type: PowerUpType;
+}
+
+/**
+ * PickupEntity - A power-up floating over the course
+ *
+ * Its collider is a sensor, so the ball rolls straight through. Reaching it
+ * doesn't take it yet: the pickup only disappears once collect() is called,
+ * which the power-up manager does when the player has room for it.
+ */
+export class PickupEntity {
+  private scene: THREE.Scene;
+  private world: RAPIER.World;
+  private group: THREE.Group;
+  private gem: THREE.Mesh;
+  private rigidBody: RAPIER.RigidBody;
+  private sensor: RAPIER.Collider;
+  
+  // Pickup properties
+  private type: PowerUpType;
+  private position: THREE.Vector3;
+  private radius: number = 0.6;
+  private hoverHeight: number = 0.6;
+  private collected: boolean = false;
+  
+  /**
+   * Constructor
+   */
+  constructor(scene: THREE.Scene, world: RAPIER.World, options: PickupOptions) {
+    this.scene = scene;
+    this.world = world;
+    this.type = options.type;
+    this.position = options.position.clone();
+    
+    // Create pickup mesh
+    this.createMesh();
+    
+    // Create sensor collider
+    this.createPhysics();
+  }
+  
+  /**
+   * Create the pickup mesh: a glowing gem over a ring on the ground
+   */
+  private createMesh(): void {
+    const color = POWER_UPS[this.type].color;
+    
+    this.group = new THREE.Group();
+    this.group.position.copy(this.position);
+    
+    this.gem = new THREE.Mesh(
+      new THREE.OctahedronGeometry(this.radius * 0.6),
+      new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 0.5 })
+    );
+    this.gem.position.y = this.hoverHeight;
+    this.group.add(this.gem);
+    
+    const ring = new THREE.Mesh(
+      new THREE.TorusGeometry(this.radius, 0.04, 8, 24),
+      new THREE.MeshBasicMaterial({ color })
+    );
+    ring.rotation.x = -Math.PI / 2;
+    ring.position.y = 0.04;
+    this.group.add(ring);
+    
+    // Add to scene
+    this.scene.add(this.group);
+  }
+  
+  /**
+   * Create the sensor collider
+   */
+  private createPhysics(): void {
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
+      .setTranslation(this.position.x, this.position.y, this.position.z);
+    
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    
+    const colliderDesc = RAPIER.ColliderDesc.ball(this.radius)
+      .setTranslation(0, this.hoverHeight, 0)
+      .setSensor(true)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+    
+    this.sensor = this.world.createCollider(colliderDesc, this.rigidBody);
+  }
+  
+  /**
+   * Take the pickup off the course
+   * @returns False if it was already collected
+   */
+  public collect(): boolean {
+    if (this.collected) return false;
+    
+    this.collected = true;
+    this.group.visible = false;
+    return true;
+  }
+  
+  /**
+   * Update method - called every frame to spin and bob the gem
+   */
+  public update(): void {
+    if (this.collected) return;
+    
+    const time = performance.now() / 1000;
+    this.gem.rotation.y = time * 2;
+    this.gem.position.y = this.hoverHeight + Math.sin(time * 3) * 0.1;
+  }
+  
+  /**
+   * Check whether the pickup has been collected
+   */
+  public isCollected(): boolean {
+    return this.collected;
+  }
+  
+  /**
+   * Get the power-up type
+   */
+  public getType(): PowerUpType {
+    return this.type;
+  }
+  
+  /**
+   * Get the sensor collider
+   */
+  public getSensor(): RAPIER.Collider {
+    return this.sensor;
+  }
+  
+  /**
+   * Get pickup mesh group
+   */
+  public getMesh(): THREE.Group {
+    return this.group;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    // Remove from scene
+    this.scene.remove(this.group);
+    
+    // Remove physics body (also removes the sensor)
+    this.world.removeRigidBody(this.rigidBody);
+    
+    // Dispose geometry and materials
+    this.group.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,271 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { BallEntity } from './BallEntity';
+
+/**
+ * Types of interactive props
+ */
+export enum PropType {
+  BUMPER = 'bumper',       // Post that knocks the ball away with extra speed
+  SPRING = 'spring',       // Pad that launches the ball upward
+  BOOST_PAD = 'boost_pad'  // Pad that pushes the ball in a set direction
+}
+
+/**
+ * Options for creating a prop
+ */
+export interface PropOptions {
+  type: PropType;
+  position: THREE.Vector3;      // Ground point under the prop's center
+  size?: THREE.Vector3;         // Bumper: diameter (x) and height (y); pads: footprint (x, z)
+  direction?: THREE.Vector3;    // Boost pad push direction (horizontal)
+  strength?: number;            // Bumper: added speed, spring: launch speed, boost pad: added speed
+}
+
+/**
+ * Payload of the BUMPER_HIT, SPRING_LAUNCH and BOOST_PAD_HIT events
+ */
+export interface PropHitEvent {
+  ball: BallEntity;
+  type: PropType;
+  position: THREE.Vector3;      // Ball position at the hit
+  velocity: THREE.Vector3;      // Ball velocity after the hit
+  strength: number;
+}
+
+/**
+ * Default size and strength per prop type
+ */
+const PROP_DEFAULTS: Record<PropType, { size: THREE.Vector3; strength: number; color: number }> = {
+  [PropType.BUMPER]: { size: new THREE.Vector3(1.2, 0.8, 1.2), strength: 4, color: 0xff66aa },
+  [PropType.SPRING]: { size: new THREE.Vector3(1.5, 0.04, 1.5), strength: 8, color: 0xffcc33 },
+  [PropType.BOOST_PAD]: { size: new THREE.Vector3(1.5, 0.04, 2), strength: 8, color: 0x33ddff }
+};
+
+/**
+ * PropEntity - An interactive course prop that changes how the ball moves
+ *
+ * Bumpers are solid posts; springs and boost pads are sensor pads the ball rolls
+ * over. Every prop collider reports collision events, and the CollisionHandler
+ * calls hit() when the ball's contact with it starts.
+ */
+export class PropEntity {
+  private scene: THREE.Scene;
+  private world: RAPIER.World;
+  private group: THREE.Group;
+  private rigidBody: RAPIER.RigidBody;
+  private collider: RAPIER.Collider;
+  private type: PropType;
+  private size: THREE.Vector3;
+  private direction: THREE.Vector3;
+  private strength: number;
+  
+  // Height of the sensor volume above the pad, so a rolling ball overlaps it
+  private padSensorHeight: number = 0.5;
+  
+  /**
+   * Constructor
+   */
+  constructor(scene: THREE.Scene, world: RAPIER.World, options: PropOptions) {
+    this.scene = scene;
+    this.world = world;
+    this.type = options.type;
+    
+    const defaults = PROP_DEFAULTS[this.type];
+    this.size = options.size ? options.size.clone() : defaults.size.clone();
+    this.strength = options.strength ?? defaults.strength;
+    
+    this.direction = options.direction ? options.direction.clone().setY(0) : new THREE.Vector3(0, 0, -1);
+    if (this.direction.lengthSq() === 0) this.direction.set(0, 0, -1);
+    this.direction.normalize();
+    
+    // Create prop mesh
+    this.createMesh(options.position, defaults.color);
+    
+    // Create physics body and collider
+    this.createPhysics(options.position);
+  }
+  
+  /**
+   * Create the prop mesh
+   */
+  private createMesh(position: THREE.Vector3, color: number): void {
+    this.group = new THREE.Group();
+    this.group.position.copy(position);
+    
+    const material = new THREE.MeshStandardMaterial({
+      color,
+      emissive: color,
+      emissiveIntensity: 0.25,
+      roughness: 0.4,
+      metalness: 0.3
+    });
+    
+    if (this.type === PropType.BUMPER) {
+      const post = new THREE.Mesh(
+        new THREE.CylinderGeometry(this.size.x / 2, this.size.x / 2, this.size.y, 24),
+        material
+      );
+      post.position.y = this.size.y / 2;
+      post.castShadow = true;
+      this.group.add(post);
+    } else {
+      const pad = new THREE.Mesh(new THREE.BoxGeometry(this.size.x, this.size.y, this.size.z), material);
+      pad.position.y = this.size.y / 2;
+      pad.receiveShadow = true;
+      this.group.add(pad);
+      
+      // Marker on top: an arrow along the push direction, or a ring for springs
+      const markerMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff, side: THREE.DoubleSide });
+      const marker = this.type === PropType.BOOST_PAD
+        ? new THREE.Mesh(PropEntity.createArrowGeometry(Math.min(this.size.x, this.size.z) * 0.6), markerMaterial)
+        : new THREE.Mesh(new THREE.RingGeometry(this.size.x * 0.2, this.size.x * 0.3, 24), markerMaterial);
+      
+      marker.rotation.x = -Math.PI / 2;
+      marker.position.y = this.size.y + 0.01;
+      
+      if (this.type === PropType.BOOST_PAD) {
+        // The arrow shape points along -z once laid flat; turn it to the push direction
+        marker.rotation.z = Math.atan2(-this.direction.x, -this.direction.z);
+      }
+      
+      this.group.add(marker);
+    }
+    
+    // Add to scene
+    this.scene.add(this.group);
+  }
+  
+  /**
+   * Flat arrow shape pointing along +y (before being laid on the pad)
+   */
+  private static createArrowGeometry(length: number): THREE.ShapeGeometry {
+    const half = length / 2;
+    const shape = new THREE.Shape();
+    shape.moveTo(0, half);
+    shape.lineTo(half * 0.8, 0);
+    shape.lineTo(half * 0.3, 0);
+    shape.lineTo(half * 0.3, -half);
+    shape.lineTo(-half * 0.3, -half);
+    shape.lineTo(-half * 0.3, 0);
+    shape.lineTo(-half * 0.8, 0);
+    shape.closePath();
+    
+    return new THREE.ShapeGeometry(shape);
+  }
+  
+  /**
+   * Create the physics body with an event-reporting collider
+   */
+  private createPhysics(position: THREE.Vector3): void {
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
+      .setTranslation(position.x, position.y, position.z);
+    
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    
+    let colliderDesc: RAPIER.ColliderDesc;
+    if (this.type === PropType.BUMPER) {
+      // Solid post
+      colliderDesc = RAPIER.ColliderDesc.cylinder(this.size.y / 2, this.size.x / 2)
+        .setTranslation(0, this.size.y / 2, 0)
+        .setFriction(0.1)
+        .setRestitution(0.9);
+    } else {
+      // Sensor volume covering the pad and the space just above it
+      const halfHeight = (this.size.y + this.padSensorHeight) / 2;
+      colliderDesc = RAPIER.ColliderDesc.cuboid(this.size.x / 2, halfHeight, this.size.z / 2)
+        .setTranslation(0, halfHeight, 0)
+        .setSensor(true);
+    }
+    
+    colliderDesc.setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+    this.collider = this.world.createCollider(colliderDesc, this.rigidBody);
+  }
+  
+  /**
+   * Apply the prop's effect to the ball
+   * Called when a contact between the ball and the prop starts.
+   */
+  public hit(ball: BallEntity): PropHitEvent {
+    const velocity = ball.getVelocity();
+    const position = ball.getPosition();
+    
+    switch (this.type) {
+      case PropType.BUMPER: {
+        // Knock the ball straight away from the post
+        const center = this.rigidBody.translation();
+        const normal = new THREE.Vector3(position.x - center.x, 0, position.z - center.z);
+        if (normal.lengthSq() === 0) normal.copy(velocity).setY(0).negate();
+        normal.normalize();
+        
+        // Reflect if the solver hasn't already turned the ball around
+        const approach = velocity.dot(normal);
+        if (approach < 0) {
+          velocity.addScaledVector(normal, -2 * approach);
+        }
+        
+        velocity.addScaledVector(normal, this.strength);
+        break;
+      }
+      
+      case PropType.SPRING:
+        velocity.y = Math.max(velocity.y, 0) + this.strength;
+        break;
+      
+      case PropType.BOOST_PAD:
+        velocity.addScaledVector(this.direction, this.strength);
+        break;
+    }
+    
+    ball.getRigidBody().setLinvel({ x: velocity.x, y: velocity.y, z: velocity.z }, true);
+    ball.setMoving(true);
+    
+    return {
+      ball,
+      type: this.type,
+      position,
+      velocity,
+      strength: this.strength
+    };
+  }
+  
+  /**
+   * Get the prop type
+   */
+  public getType(): PropType {
+    return this.type;
+  }
+  
+  /**
+   * Get the prop collider
+   */
+  public getCollider(): RAPIER.Collider {
+    return this.collider;
+  }
+  
+  /**
+   * Get prop mesh group
+   */
+  public getMesh(): THREE.Group {
+    return this.group;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    // Remove from scene
+    this.scene.remove(this.group);
+    
+    // Remove physics body (also removes its collider)
+    this.world.removeRigidBody(this.rigidBody);
+    
+    // Dispose geometry and materials
+    this.group.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,220 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { BallEntity } from './BallEntity';
+import { AbilityType, ABILITIES } from '../gameplay/abilities/AbilityTypes';
+
+/**
+ * Options for creating a target
+ */
+export interface TargetOptions {
+  position: THREE.Vector3;      // Ground point under the target's center
+  radius?: number;
+  color?: THREE.ColorRepresentation;  // Defaults to the ability's color
+  ability?: AbilityType;        // Copy ability the ball takes when knocking it out
+}
+
+/**
+ * Payload of the TARGET_HIT event
+ */
+export interface TargetHitEvent {
+  ball: BallEntity;             // Ball that knocked the target out
+  position: THREE.Vector3;      // Ground point under the target
+  remaining: number;            // Targets still standing on the hole
+  total: number;
+  ability: AbilityType | null;  // Copy ability the target gives
+}
+
+/**
+ * TargetEntity - An enemy on the hole that the ball knocks out on contact
+ *
+ * Its collider is a sensor, so the ball keeps rolling through. Once knocked out
+ * the collider is removed and the target tumbles away; update() plays that
+ * animation. On holes with targets the cup only appears when the last one falls.
+ */
+export class TargetEntity {
+  private scene: THREE.Scene;
+  private world: RAPIER.World;
+  private group: THREE.Group;
+  private rigidBody: RAPIER.RigidBody | null = null;
+  private sensor: RAPIER.Collider;
+  
+  // Target properties
+  private position: THREE.Vector3;
+  private radius: number;
+  private ability: AbilityType | null;
+  
+  // Knock-out animation
+  private knockedOutAt: number | null = null;
+  private knockOutDuration: number = 600; // ms
+  
+  /**
+   * Constructor
+   */
+  constructor(scene: THREE.Scene, world: RAPIER.World, options: TargetOptions) {
+    this.scene = scene;
+    this.world = world;
+    this.position = options.position.clone();
+    this.radius = options.radius ?? 0.7;
+    this.ability = options.ability ?? null;
+    
+    // Create target mesh
+    this.createMesh(options.color ?? (this.ability ? ABILITIES[this.ability].color : 0xff8833));
+    
+    // Create sensor collider
+    this.createPhysics();
+  }
+  
+  /**
+   * Create the target mesh: a round body with spikes and eyes
+   */
+  private createMesh(color: THREE.ColorRepresentation): void {
+    this.group = new THREE.Group();
+    this.group.position.copy(this.position);
+    
+    const body = new THREE.Mesh(
+      new THREE.SphereGeometry(this.radius, 24, 16),
+      new THREE.MeshStandardMaterial({ color, roughness: 0.5 })
+    );
+    body.position.y = this.radius;
+    body.castShadow = true;
+    this.group.add(body);
+    
+    // Spikes around the middle
+    const spikeCount = 8;
+    for (let i = 0; i < spikeCount; i++) {
+      const angle = (i / spikeCount) * Math.PI * 2;
+      const spike = new THREE.Mesh(
+        new THREE.ConeGeometry(this.radius * 0.2, this.radius * 0.5, 8),
+        new THREE.MeshStandardMaterial({ color: 0xffffff })
+      );
+      spike.position.set(Math.cos(angle) * this.radius, this.radius, Math.sin(angle) * this.radius);
+      spike.rotation.z = -Math.PI / 2;
+      spike.rotation.y = -angle;
+      this.group.add(spike);
+    }
+    
+    // Eyes facing south (+z), toward where holes usually start
+    [-1, 1].forEach(side => {
+      const eye = new THREE.Mesh(
+        new THREE.SphereGeometry(this.radius * 0.15, 8, 8),
+        new THREE.MeshBasicMaterial({ color: 0x111111 })
+      );
+      eye.position.set(side * this.radius * 0.3, this.radius * 1.25, this.radius * 0.85);
+      this.group.add(eye);
+    });
+    
+    // Add to scene
+    this.scene.add(this.group);
+  }
+  
+  /**
+   * Create the sensor collider
+   */
+  private createPhysics(): void {
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
+      .setTranslation(this.position.x, this.position.y, this.position.z);
+    
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    
+    const colliderDesc = RAPIER.ColliderDesc.ball(this.radius)
+      .setTranslation(0, this.radius, 0)
+      .setSensor(true)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+    
+    this.sensor = this.world.createCollider(colliderDesc, this.rigidBody);
+  }
+  
+  /**
+   * Knock the target out
+   * Called when the ball's contact with the target starts.
+   * @returns False if the target was already knocked out
+   */
+  public knockOut(): boolean {
+    if (this.knockedOutAt !== null) return false;
+    
+    this.knockedOutAt = performance.now();
+    
+    // No more contacts from this target
+    if (this.rigidBody) {
+      this.world.removeRigidBody(this.rigidBody);
+      this.rigidBody = null;
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Update method - called every frame to play the knock-out animation
+   */
+  public update(): void {
+    if (this.knockedOutAt === null || !this.group.visible) return;
+    
+    const progress = Math.min((performance.now() - this.knockedOutAt) / this.knockOutDuration, 1);
+    
+    // Pop up, spin and shrink away
+    this.group.position.y = this.position.y + Math.sin(progress * Math.PI) * 1.5;
+    this.group.rotation.y = progress * Math.PI * 4;
+    this.group.scale.setScalar(1 - progress);
+    
+    if (progress >= 1) {
+      this.group.visible = false;
+    }
+  }
+  
+  /**
+   * Check whether the target has been knocked out
+   */
+  public isKnockedOut(): boolean {
+    return this.knockedOutAt !== null;
+  }
+  
+  /**
+   * Get the ground point under the target
+   */
+  public getPosition(): THREE.Vector3 {
+    return this.position.clone();
+  }
+  
+  /**
+   * Get the copy ability the target gives (null if none)
+   */
+  public getAbility(): AbilityType | null {
+    return this.ability;
+  }
+  
+  /**
+   * Get the sensor collider
+   */
+  public getSensor(): RAPIER.Collider {
+    return this.sensor;
+  }
+  
+  /**
+   * Get target mesh group
+   */
+  public getMesh(): THREE.Group {
+    return this.group;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    // Remove from scene
+    this.scene.remove(this.group);
+    
+    // Remove physics body (also removes the sensor) unless already knocked out
+    if (this.rigidBody) {
+      this.world.removeRigidBody(this.rigidBody);
+      this.rigidBody = null;
+    }
+    
+    // Dispose geometry and materials
+    this.group.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,237 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { BallEntity } from './BallEntity';
+
+/**
+ * Options for creating a teleporter pad
+ */
+export interface TeleporterOptions {
+  id: string;
+  position: THREE.Vector3;      // Ground point under the pad's center
+  facing?: number;              // Direction the ball leaves this pad (radians around the vertical axis, 0 = north/-z, PI/2 = west/-x)
+  radius?: number;
+  cooldown?: number;            // Milliseconds both pads ignore the ball after a warp
+}
+
+/**
+ * Payload of the BALL_WARPED event
+ */
+export interface WarpEvent {
+  ball: BallEntity;
+  from: THREE.Vector3;          // Ball position before the warp
+  to: THREE.Vector3;            // Ball position after the warp
+  velocity: THREE.Vector3;      // Ball velocity after the warp
+  entryId: string;
+  exitId: string;
+}
+
+/**
+ * TeleporterEntity - A warp pad that sends the ball to a linked exit pad
+ *
+ * The ball keeps its speed; its velocity is turned by the difference between the
+ * exit's and the entry's facing, so a ball rolling into a pad along the pad's
+ * facing leaves the exit along the exit's facing. After a warp both pads ignore
+ * that ball for a cooldown, so it can't bounce back and forth between them; other
+ * balls can still warp. Cooldowns run down through step(), in physics time.
+ */
+export class TeleporterEntity {
+  private scene: THREE.Scene;
+  private world: RAPIER.World;
+  private group: THREE.Group;
+  private rigidBody: RAPIER.RigidBody;
+  private sensor: RAPIER.Collider;
+  
+  // Pad properties
+  private id: string;
+  private position: THREE.Vector3;
+  private facing: number;
+  private radius: number;
+  private cooldown: number;                                   // Seconds
+  private cooldowns: Map<BallEntity, number> = new Map();     // Seconds left per ball
+  private exit: TeleporterEntity | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor(scene: THREE.Scene, world: RAPIER.World, options: TeleporterOptions) {
+    this.scene = scene;
+    this.world = world;
+    this.id = options.id;
+    this.position = options.position.clone();
+    this.facing = options.facing ?? 0;
+    this.radius = options.radius ?? 0.9;
+    this.cooldown = (options.cooldown ?? 1000) / 1000;
+    
+    // Create pad mesh
+    this.createMesh();
+    
+    // Create sensor collider
+    this.createPhysics();
+  }
+  
+  /**
+   * Create the pad mesh: a glowing disc with a ring and a facing marker
+   */
+  private createMesh(): void {
+    this.group = new THREE.Group();
+    this.group.position.copy(this.position);
+    this.group.rotation.y = this.facing;
+    
+    const disc = new THREE.Mesh(
+      new THREE.CircleGeometry(this.radius, 32),
+      new THREE.MeshStandardMaterial({
+        color: 0x8844ff,
+        emissive: 0x6622ff,
+        emissiveIntensity: 0.6,
+        transparent: true,
+        opacity: 0.8
+      })
+    );
+    disc.rotation.x = -Math.PI / 2;
+    disc.position.y = 0.02;
+    this.group.add(disc);
+    
+    const ring = new THREE.Mesh(
+      new THREE.TorusGeometry(this.radius, 0.06, 8, 32),
+      new THREE.MeshStandardMaterial({ color: 0xddccff, emissive: 0xaa88ff, emissiveIntensity: 0.5 })
+    );
+    ring.rotation.x = -Math.PI / 2;
+    ring.position.y = 0.06;
+    this.group.add(ring);
+    
+    // Small notch on the rim showing which way the ball leaves
+    const marker = new THREE.Mesh(
+      new THREE.ConeGeometry(0.15, 0.3, 8),
+      new THREE.MeshBasicMaterial({ color: 0xffffff })
+    );
+    marker.rotation.x = -Math.PI / 2;
+    marker.position.set(0, 0.1, -this.radius);
+    this.group.add(marker);
+    
+    // Add to scene
+    this.scene.add(this.group);
+  }
+  
+  /**
+   * Create the sensor collider
+   */
+  private createPhysics(): void {
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
+      .setTranslation(this.position.x, this.position.y, this.position.z);
+    
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    
+    // Flat sensor cylinder the ball rolls into
+    const colliderDesc = RAPIER.ColliderDesc.cylinder(0.3, this.radius * 0.8)
+      .setTranslation(0, 0.3, 0)
+      .setSensor(true)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+    
+    this.sensor = this.world.createCollider(colliderDesc, this.rigidBody);
+  }
+  
+  /**
+   * Link this pad to its exit
+   */
+  public linkTo(exit: TeleporterEntity | null): void {
+    this.exit = exit;
+  }
+  
+  /**
+   * Run down the cooldowns by one fixed physics step
+   * Called before each fixed physics step.
+   */
+  public step(timestep: number): void {
+    this.cooldowns.forEach((remaining, ball) => {
+      if (remaining <= timestep) {
+        this.cooldowns.delete(ball);
+      } else {
+        this.cooldowns.set(ball, remaining - timestep);
+      }
+    });
+  }
+  
+  /**
+   * Send the ball to the linked exit
+   * Called when the ball's contact with the pad starts.
+   * @returns The warp, or null if the pad has no exit or is cooling down for this ball
+   */
+  public warp(ball: BallEntity): WarpEvent | null {
+    if (!this.exit || this.cooldowns.has(ball)) return null;
+    
+    const exit = this.exit;
+    const from = ball.getPosition();
+    
+    // Turn the momentum from this pad's facing to the exit's facing
+    const rotation = new THREE.Quaternion().setFromAxisAngle(
+      new THREE.Vector3(0, 1, 0),
+      exit.facing - this.facing
+    );
+    const velocity = ball.getVelocity().applyQuaternion(rotation);
+    const angularVelocity = ball.getAngularVelocity().applyQuaternion(rotation);
+    
+    // Keep the ball's height above the pad
+    const to = exit.position.clone();
+    to.y += Math.max(from.y - this.position.y, ball.getRadius() + 0.01);
+    
+    ball.setPosition(to);
+    ball.getRigidBody().setLinvel({ x: velocity.x, y: velocity.y, z: velocity.z }, true);
+    ball.getRigidBody().setAngvel({ x: angularVelocity.x, y: angularVelocity.y, z: angularVelocity.z }, true);
+    
+    // Neither pad reacts to this ball until the cooldown is over
+    this.cooldowns.set(ball, this.cooldown);
+    exit.cooldowns.set(ball, exit.cooldown);
+    
+    return {
+      ball,
+      from,
+      to,
+      velocity,
+      entryId: this.id,
+      exitId: exit.id
+    };
+  }
+  
+  /**
+   * Get the pad id
+   */
+  public getId(): string {
+    return this.id;
+  }
+  
+  /**
+   * Get the sensor collider
+   */
+  public getSensor(): RAPIER.Collider {
+    return this.sensor;
+  }
+  
+  /**
+   * Get pad mesh group
+   */
+  public getMesh(): THREE.Group {
+    return this.group;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    // Remove from scene
+    this.scene.remove(this.group);
+    
+    // Remove physics body (also removes the sensor)
+    this.world.removeRigidBody(this.rigidBody);
+    
+    // Dispose geometry and materials
+    this.group.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+    
+    this.exit = null;
+    this.cooldowns.clear();
+  }
+} 
\ No newline at end of file
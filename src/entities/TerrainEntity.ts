@@ -1,5 +1,21 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { SurfaceMap, SurfaceMaterial } from '../physics/SurfaceMaterials';
+
+/**
+ * Height samples for a heightmap terrain
+ *
+ * Heights are stored row-major: rows run along the z axis (back to front) and
+ * columns along the x axis (left to right), so the sample for grid cell
+ * corner (row, col) is at index row * (cols + 1) + col.
+ */
+export interface HeightfieldData {
+  heights: Float32Array; // (rows + 1) * (cols + 1) samples
+  rows: number;          // Number of cells along z
+  cols: number;          // Number of cells along x
+  width: number;         // World size along x
+  depth: number;         // World size along z
+}
 
 /**
  * TerrainEntity - Represents the terrain that the ball rolls on
@@ -7,16 +23,24 @@ import RAPIER from '@dimforge/rapier3d-compat';
 export class TerrainEntity {
   private scene: THREE.Scene;
   private world: RAPIER.World;
-  private mesh: THREE.Mesh;
-  private rigidBody: RAPIER.RigidBody;
-  private collider: RAPIER.Collider;
+  private mesh: THREE.Mesh | null = null;
+  private rigidBody: RAPIER.RigidBody | null = null;
+  private collider: RAPIER.Collider | null = null;
+  private gridHelper: THREE.GridHelper | null = null;
+  private groundMesh: THREE.Mesh | null = null;
+  private heightfield: HeightfieldData | null = null;
+  private heightSampler: ((x: number, z: number) => number) | null = null;
+  private surfaceMap: SurfaceMap = new SurfaceMap();
   
   // Terrain properties
   private width: number = 20;
   private depth: number = 20;
   private segments: number = 32;
-  private friction: number = 0.8;
-  private restitution: number = 0.2;
+  
+  // Ground colliders are neutral: the ball takes friction and restitution
+  // from the surface material under it (see SurfaceMaterials)
+  private friction: number = 0;
+  private restitution: number = 0;
   
   /**
    * Constructor
@@ -59,10 +83,12 @@ export class TerrainEntity {
     this.scene.add(this.mesh);
     
     // Add grid helper for visualization
-    const gridHelper = new THREE.GridHelper(this.width, this.segments);
-    this.scene.add(gridHelper);
+    this.gridHelper = new THREE.GridHelper(this.width, this.segments);
+    this.scene.add(this.gridHelper);
+    
+    // Add ground plane (for aesthetic) - only once, it survives terrain rebuilds
+    if (this.groundMesh) return;
     
-    // Add ground plane (for aesthetic)
     const groundGeometry = new THREE.PlaneGeometry(100, 100);
     const groundMaterial = new THREE.MeshStandardMaterial({
       color: 0x445544,
@@ -71,11 +97,11 @@ export class TerrainEntity {
       side: THREE.DoubleSide
     });
     
-    const ground = new THREE.Mesh(groundGeometry, groundMaterial);
-    ground.rotation.x = -Math.PI / 2;
-    ground.position.y = -0.01; // Slightly below terrain
-    ground.receiveShadow = true;
-    this.scene.add(ground);
+    this.groundMesh = new THREE.Mesh(groundGeometry, groundMaterial);
+    this.groundMesh.rotation.x = -Math.PI / 2;
+    this.groundMesh.position.y = -0.01; // Slightly below terrain
+    this.groundMesh.receiveShadow = true;
+    this.scene.add(this.groundMesh);
   }
   
   /**
@@ -98,28 +124,80 @@ export class TerrainEntity {
     this.collider = this.world.createCollider(colliderDesc, this.rigidBody);
   }
   
+  /**
+   * Create a flat terrain of the given size
+   * This replaces the current terrain.
+   */
+  public createFlatTerrain(width: number, depth: number): void {
+    // Remove existing terrain (mesh, helpers and colliders)
+    this.clear();
+    
+    this.width = width;
+    this.depth = depth;
+    
+    this.createMesh();
+    this.createPhysics();
+  }
+  
   /**
    * Create a heightmap terrain (for more complex terrain)
-   * This would replace the current flat terrain
+   * This replaces the current terrain. The visual mesh and the Rapier
+   * heightfield collider are both built from the same height samples.
+   *
+   * @param heightData Row-major height samples, (segmentsZ + 1) * (segmentsX + 1) values
+   * @param width World size along x
+   * @param depth World size along z
+   * @param segmentsX Number of cells along x
+   * @param segmentsZ Number of cells along z
    */
-  public createHeightmapTerrain(heightData: Float32Array, width: number, depth: number): void {
-    // Remove existing terrain
-    this.scene.remove(this.mesh);
+  public createHeightmapTerrain(
+    heightData: Float32Array,
+    width: number,
+    depth: number,
+    segmentsX: number = this.segments,
+    segmentsZ: number = segmentsX
+  ): void {
+    const expectedSamples = (segmentsX + 1) * (segmentsZ + 1);
+    if (heightData.length !== expectedSamples) {
+      console.error(
+        `TerrainEntity: Heightmap has ${heightData.length} samples, expected ${expectedSamples} ` +
+        `for ${segmentsX}x${segmentsZ} segments`
+      );
+      return;
+    }
+    
+    // Remove existing terrain (mesh, helpers and colliders)
+    this.clear();
+    
+    this.width = width;
+    this.depth = depth;
+    this.heightfield = {
+      heights: heightData,
+      rows: segmentsZ,
+      cols: segmentsX,
+      width,
+      depth
+    };
     
     // Create new geometry from heightmap
+    // PlaneGeometry vertices are laid out row by row, which after the -90° rotation
+    // around x matches our row-major (z rows, x columns) height layout. Its cell
+    // diagonals also match the triangulation of Rapier's heightfield.
     const geometry = new THREE.PlaneGeometry(
-      width, depth, this.segments, this.segments
+      width, depth, segmentsX, segmentsZ
     );
     
     // Apply height data to vertices
     const vertices = geometry.attributes.position.array;
     for (let i = 0; i < heightData.length; i++) {
-      // In PlaneGeometry, the y component is the height (when rotated)
+      // In PlaneGeometry, the z component is the height (when rotated)
       vertices[i * 3 + 2] = heightData[i];
     }
     
     // Update geometry
+    geometry.attributes.position.needsUpdate = true;
     geometry.computeVertexNormals();
+    geometry.computeBoundingSphere();
     
     // Create new mesh
     const material = new THREE.MeshStandardMaterial({
@@ -137,8 +215,224 @@ export class TerrainEntity {
     this.scene.add(this.mesh);
     
     // Create heightfield collider
-    // Note: Rapier requires a specific format for heightfield data
-    // This would need to be implemented based on Rapier's requirements
+    this.createHeightfieldPhysics();
+  }
+  
+  /**
+   * Create terrain from prebuilt geometry and a set of colliders
+   * This replaces the current terrain. All colliders are attached to one fixed
+   * body, forming a compound collider (used by tile-based courses).
+   *
+   * @param geometry World-space geometry, optionally with vertex colors
+   * @param colliders Collider descriptions positioned in world space, with their materials set
+   * @param heightSampler Returns the surface height at a world x/z position
+   */
+  public createCompoundTerrain(
+    geometry: THREE.BufferGeometry,
+    colliders: RAPIER.ColliderDesc[],
+    heightSampler: (x: number, z: number) => number
+  ): void {
+    if (colliders.length === 0) {
+      console.error('TerrainEntity: Compound terrain needs at least one collider');
+      return;
+    }
+    
+    // Remove existing terrain (mesh, helpers and colliders)
+    this.clear();
+    
+    geometry.computeBoundingBox();
+    const bounds = geometry.boundingBox as THREE.Box3;
+    this.width = bounds.max.x - bounds.min.x;
+    this.depth = bounds.max.z - bounds.min.z;
+    this.heightSampler = heightSampler;
+    
+    // Create mesh (geometry is already in world space)
+    const material = new THREE.MeshStandardMaterial({
+      color: geometry.getAttribute('color') ? 0xffffff : 0x00aa00,
+      vertexColors: !!geometry.getAttribute('color'),
+      roughness: 0.8,
+      metalness: 0.1
+    });
+    
+    this.mesh = new THREE.Mesh(geometry, material);
+    this.mesh.castShadow = true;
+    this.mesh.receiveShadow = true;
+    
+    // Add to scene
+    this.scene.add(this.mesh);
+    
+    // Create a static rigid body holding every collider
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed();
+    const rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    this.rigidBody = rigidBody;
+    
+    colliders.forEach((colliderDesc, i) => {
+      const collider = this.world.createCollider(colliderDesc, rigidBody);
+      
+      // Keep the first collider as the terrain's main collider
+      if (i === 0) {
+        this.collider = collider;
+      }
+    });
+  }
+  
+  /**
+   * Create the Rapier heightfield collider from the stored height data
+   */
+  private createHeightfieldPhysics(): void {
+    if (!this.heightfield) return;
+    
+    const { heights, rows, cols, width, depth } = this.heightfield;
+    
+    // Rapier expects heights in column-major order (rows along z, columns along x)
+    const columnMajor = new Float32Array(heights.length);
+    for (let row = 0; row <= rows; row++) {
+      for (let col = 0; col <= cols; col++) {
+        columnMajor[col * (rows + 1) + row] = heights[row * (cols + 1) + col];
+      }
+    }
+    
+    // Create a static rigid body for the terrain
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed();
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    
+    // Scale stretches the unit heightfield to the terrain size
+    const colliderDesc = RAPIER.ColliderDesc.heightfield(
+      rows, cols, columnMajor, { x: width, y: 1, z: depth }
+    )
+      .setFriction(this.friction)
+      .setRestitution(this.restitution);
+    
+    this.collider = this.world.createCollider(colliderDesc, this.rigidBody);
+  }
+  
+  /**
+   * Get the terrain surface height at a world position
+   * Interpolates across the same triangles used by the mesh and collider.
+   * Returns 0 for flat terrain and outside the heightfield.
+   */
+  public getHeightAt(x: number, z: number): number {
+    // Compound terrain provides its own height lookup
+    if (this.heightSampler) return this.heightSampler(x, z);
+    
+    if (!this.heightfield) return 0;
+    
+    const { heights, rows, cols, width, depth } = this.heightfield;
+    
+    // Convert to grid space
+    const gx = ((x + width / 2) / width) * cols;
+    const gz = ((z + depth / 2) / depth) * rows;
+    
+    if (gx < 0 || gz < 0 || gx > cols || gz > rows) return 0;
+    
+    const col = Math.min(Math.floor(gx), cols - 1);
+    const row = Math.min(Math.floor(gz), rows - 1);
+    const fx = gx - col;
+    const fz = gz - row;
+    
+    const h00 = heights[row * (cols + 1) + col];
+    const h10 = heights[row * (cols + 1) + col + 1];
+    const h01 = heights[(row + 1) * (cols + 1) + col];
+    const h11 = heights[(row + 1) * (cols + 1) + col + 1];
+    
+    // Each cell is split along the diagonal from (col + 1, row) to (col, row + 1)
+    if (fx + fz <= 1) {
+      return h00 + (h10 - h00) * fx + (h01 - h00) * fz;
+    }
+    
+    return h11 + (h01 - h11) * (1 - fx) + (h10 - h11) * (1 - fz);
+  }
+  
+  /**
+   * Set the surfaces of the terrain
+   * Flat and heightmap terrain are recolored to show their surface regions;
+   * compound terrain already carries its own colors.
+   */
+  public setSurfaceMap(surfaceMap: SurfaceMap): void {
+    this.surfaceMap = surfaceMap;
+    
+    if (this.mesh && !this.heightSampler) {
+      this.applySurfaceColors();
+    }
+  }
+  
+  /**
+   * Get the surface material at a world position
+   */
+  public getSurfaceAt(x: number, z: number): SurfaceMaterial {
+    return this.surfaceMap.getSurfaceAt(x, z);
+  }
+  
+  /**
+   * Color the terrain mesh vertices by the surface they lie on
+   */
+  private applySurfaceColors(): void {
+    if (!this.mesh) return;
+    
+    const geometry = this.mesh.geometry;
+    const positions = geometry.attributes.position;
+    const colors = new Float32Array(positions.count * 3);
+    const color = new THREE.Color();
+    
+    for (let i = 0; i < positions.count; i++) {
+      // The plane is rotated -90° around x, so world z is the negated local y
+      const x = positions.getX(i);
+      const z = -positions.getY(i);
+      
+      color.setHex(this.surfaceMap.getSurfaceAt(x, z).color);
+      colors[i * 3] = color.r;
+      colors[i * 3 + 1] = color.g;
+      colors[i * 3 + 2] = color.b;
+    }
+    
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    
+    const material = this.mesh.material as THREE.MeshStandardMaterial;
+    material.color.setHex(0xffffff);
+    material.vertexColors = true;
+    material.needsUpdate = true;
+  }
+  
+  /**
+   * Remove the terrain mesh, helpers and physics from the scene and world
+   */
+  private clear(): void {
+    // Remove terrain mesh
+    if (this.mesh) {
+      this.scene.remove(this.mesh);
+      this.disposeMesh(this.mesh);
+      this.mesh = null;
+    }
+    
+    // Remove grid helper
+    if (this.gridHelper) {
+      this.scene.remove(this.gridHelper);
+      this.gridHelper.dispose();
+      this.gridHelper = null;
+    }
+    
+    // Remove rigid body (also removes its colliders)
+    if (this.rigidBody) {
+      this.world.removeRigidBody(this.rigidBody);
+      this.rigidBody = null;
+      this.collider = null;
+    }
+    
+    this.heightfield = null;
+    this.heightSampler = null;
+  }
+  
+  /**
+   * Dispose geometry and material of a mesh
+   */
+  private disposeMesh(mesh: THREE.Mesh): void {
+    mesh.geometry.dispose();
+    
+    if (Array.isArray(mesh.material)) {
+      mesh.material.forEach(material => material.dispose());
+    } else {
+      mesh.material.dispose();
+    }
   }
   
   /**
@@ -150,40 +444,45 @@ export class TerrainEntity {
   }
   
   /**
-   * Get rigid body
+   * Get rigid body, or null before the terrain is created
    */
-  public getRigidBody(): RAPIER.RigidBody {
+  public getRigidBody(): RAPIER.RigidBody | null {
     return this.rigidBody;
   }
   
   /**
-   * Get collider
+   * Get collider, or null before the terrain is created
    */
-  public getCollider(): RAPIER.Collider {
+  public getCollider(): RAPIER.Collider | null {
     return this.collider;
   }
   
   /**
-   * Get terrain mesh
+   * Get terrain mesh, or null before the terrain is created
    */
-  public getMesh(): THREE.Mesh {
+  public getMesh(): THREE.Mesh | null {
     return this.mesh;
   }
   
+  /**
+   * Get the heightfield data, or null for flat terrain
+   */
+  public getHeightfield(): HeightfieldData | null {
+    return this.heightfield;
+  }
+  
   /**
    * Clean up resources
    */
   public dispose(): void {
-    // Remove from scene
-    this.scene.remove(this.mesh);
-    
-    // Dispose geometry and material
-    this.mesh.geometry.dispose();
+    // Remove terrain, helpers and colliders
+    this.clear();
     
-    if (Array.isArray(this.mesh.material)) {
-      this.mesh.material.forEach(material => material.dispose());
-    } else {
-      this.mesh.material.dispose();
+    // Remove decorative ground plane
+    if (this.groundMesh) {
+      this.scene.remove(this.groundMesh);
+      this.disposeMesh(this.groundMesh);
+      this.groundMesh = null;
     }
   }
 } 
\ No newline at end of file
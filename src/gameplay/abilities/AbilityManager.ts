@@ -0,0 +1,322 @@
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { GameStateManager, GameState } from '../../utils/GameStateManager';
+import { PhysicsWorld } from '../../physics/PhysicsWorld';
+import { BallEntity } from '../../entities/BallEntity';
+import { TargetHitEvent } from '../../entities/TargetEntity';
+import { Player } from '../players/Player';
+import { TurnManager } from '../players/TurnManager';
+import { ShotController } from '../shot/ShotController';
+import { CourseBuilder } from '../course/CourseBuilder';
+import { AbilityUI } from '../../ui/AbilityUI';
+import { AbilityType, ABILITIES, getShotAbility, HOVER_GRAVITY_SCALE } from './AbilityTypes';
+
+/**
+ * Payload of the ABILITY_GAINED, ABILITY_USED and ABILITY_LOST events
+ */
+export interface AbilityEvent {
+  player: Player;
+  ability: AbilityType;
+}
+
+/**
+ * A hover shot in flight
+ */
+interface HoverFlight {
+  ball: BallEntity;
+  airborne: boolean;      // Ball has left the ground since the shot
+}
+
+/**
+ * AbilityManager - Gives copy abilities from knocked-out targets and uses them
+ *
+ * A ball knocking out a target with an ability gives it to the ball's owner,
+ * replacing any ability they held. Shot abilities (hover, wheel) are armed with
+ * A while setting up a shot; ShotPhysics and the trajectory preview apply them,
+ * and they are used up once a shot of their type is taken. Roll abilities
+ * (stone, freeze) are used with A while the ball rolls. A ball going into a
+ * hazard loses its owner's ability.
+ */
+export class AbilityManager {
+  private eventSystem: EventSystem;
+  private gameStateManager: GameStateManager;
+  private physicsWorld: PhysicsWorld;
+  private turnManager: TurnManager;
+  private shotController: ShotController;
+  private courseBuilder: CourseBuilder;
+  private ui: AbilityUI;
+  
+  private hover: HoverFlight | null = null;
+  
+  // Ability tuning
+  private stoneDropSpeed: number = 4;     // Downward speed added when the ball turns to stone
+  
+  // Bound listeners, kept for removal
+  private boundTargetHit: (event: TargetHitEvent) => void;
+  private boundUse: () => void;
+  private boundPenalty: (event: { reason: string }) => void;
+  private boundTurnChanged: () => void;
+  private boundMulliganUsed: () => void;
+  private boundShotStarted: () => void;
+  private boundEnterIdle: () => void;
+  private boundStep: () => void;
+  
+  /**
+   * Constructor
+   */
+  constructor(
+    physicsWorld: PhysicsWorld,
+    turnManager: TurnManager,
+    shotController: ShotController,
+    courseBuilder: CourseBuilder
+  ) {
+    this.eventSystem = EventSystem.getInstance();
+    this.gameStateManager = GameStateManager.getInstance();
+    this.physicsWorld = physicsWorld;
+    this.turnManager = turnManager;
+    this.shotController = shotController;
+    this.courseBuilder = courseBuilder;
+    this.ui = new AbilityUI();
+    
+    this.boundTargetHit = this.handleTargetHit.bind(this);
+    this.boundUse = () => this.use();
+    this.boundPenalty = this.handlePenalty.bind(this);
+    this.boundTurnChanged = () => this.disarm();
+    this.boundMulliganUsed = () => this.refreshUI();
+    this.boundShotStarted = this.handleShotStarted.bind(this);
+    this.boundEnterIdle = () => this.disarm();
+    this.boundStep = this.step.bind(this);
+    
+    this.eventSystem.on(GameEvents.TARGET_HIT, this.boundTargetHit);
+    this.eventSystem.on(GameEvents.ABILITY_USE, this.boundUse);
+    this.eventSystem.on(GameEvents.BALL_PENALTY, this.boundPenalty);
+    this.eventSystem.on(GameEvents.TURN_CHANGED, this.boundTurnChanged);
+    this.gameStateManager.onEnterState(GameState.ROLLING, this.boundShotStarted);
+    this.gameStateManager.onEnterState(GameState.IDLE, this.boundEnterIdle);
+    
+    // A mulligan gives back the ability used on the shot
+    this.eventSystem.on(GameEvents.MULLIGAN_USED, this.boundMulliganUsed);
+    
+    // Hover ends when the ball lands, checked every physics step
+    this.physicsWorld.addStepCallback(this.boundStep);
+  }
+  
+  /**
+   * Get ready for a new hole
+   * Call this after the players were reset (which clears their abilities).
+   */
+  public startHole(): void {
+    this.endHover();
+    this.disarm();
+  }
+  
+  /**
+   * Give a knocked-out target's ability to the owner of the ball that hit it
+   */
+  private handleTargetHit(event: TargetHitEvent): void {
+    if (!event.ability) return;
+    
+    const player = this.turnManager.getPlayers().find(entry => entry.getBall() === event.ball);
+    if (!player) return;
+    
+    player.setAbility(event.ability);
+    
+    const gained: AbilityEvent = { player, ability: event.ability };
+    this.eventSystem.emit(GameEvents.ABILITY_GAINED, gained);
+    this.refreshUI();
+    
+    console.log(`${player.getName()} copied ${ABILITIES[event.ability].name}`);
+  }
+  
+  /**
+   * Use the active player's ability: arm or disarm a shot ability during shot
+   * setup, or use a roll ability on the rolling ball
+   * @returns False if nothing happened
+   */
+  public use(): boolean {
+    const player = this.turnManager.getActivePlayer();
+    const ability = player.getAbility();
+    if (!ability) return false;
+    
+    const definition = ABILITIES[ability];
+    
+    if (this.isBallRolling()) {
+      if (definition.shotType !== null) {
+        console.log(`${definition.name} is armed before the shot`);
+        return false;
+      }
+      
+      return this.useOnRoll(player, ability);
+    }
+    
+    if (definition.shotType === null) {
+      console.log(`${definition.name} is used while the ball rolls`);
+      return false;
+    }
+    
+    // Toggle arming for the shot being set up
+    const armed = this.shotController.getArmedAbility() === ability;
+    this.shotController.armAbility(armed ? null : ability);
+    this.refreshUI();
+    
+    return true;
+  }
+  
+  /**
+   * Use a roll ability (stone, freeze) on the player's rolling ball
+   */
+  private useOnRoll(player: Player, ability: AbilityType): boolean {
+    switch (ability) {
+      case AbilityType.STONE: {
+        // Drop dead where it is
+        const body = player.getBall().getRigidBody();
+        const velocity = body.linvel();
+        body.setLinvel({ x: 0, y: Math.min(velocity.y, 0) - this.stoneDropSpeed, z: 0 }, true);
+        body.setAngvel({ x: 0, y: 0, z: 0 }, true);
+        break;
+      }
+      
+      case AbilityType.FREEZE:
+        if (this.courseBuilder.freezeWater() === 0) {
+          console.log('No water to freeze on this hole');
+          return false;
+        }
+        break;
+      
+      default:
+        return false;
+    }
+    
+    this.consume(player, ability);
+    return true;
+  }
+  
+  /**
+   * Use up an armed shot ability once the shot is on its way
+   * An ability armed for the other shot type stays with the player.
+   */
+  private handleShotStarted(): void {
+    const armed = this.shotController.getArmedAbility();
+    if (!armed) return;
+    
+    const ability = getShotAbility(armed, this.shotController.getShotType());
+    this.shotController.armAbility(null);
+    
+    if (!ability) {
+      this.refreshUI();
+      return;
+    }
+    
+    const player = this.turnManager.getActivePlayer();
+    if (ability === AbilityType.HOVER) {
+      // The launch already lightened the ball; the ball keeps the scale from here so other effects stack with it
+      this.hover = { ball: player.getBall(), airborne: false };
+      this.hover.ball.setGravityScale(AbilityType.HOVER, HOVER_GRAVITY_SCALE);
+    }
+    
+    this.consume(player, ability);
+  }
+  
+  /**
+   * Take a used ability from the player
+   */
+  private consume(player: Player, ability: AbilityType): void {
+    player.setAbility(null);
+    
+    const event: AbilityEvent = { player, ability };
+    this.eventSystem.emit(GameEvents.ABILITY_USED, event);
+    this.refreshUI();
+    
+    console.log(`${player.getName()} used ${ABILITIES[ability].name}`);
+  }
+  
+  /**
+   * A ball going into a hazard costs the shooter their ability
+   */
+  private handlePenalty(event: { reason: string }): void {
+    if (event.reason === 'out_of_bounds') return;
+    
+    const player = this.turnManager.getActivePlayer();
+    const ability = player.getAbility();
+    if (!ability) return;
+    
+    player.setAbility(null);
+    this.shotController.armAbility(null);
+    
+    const lost: AbilityEvent = { player, ability };
+    this.eventSystem.emit(GameEvents.ABILITY_LOST, lost);
+    this.refreshUI();
+    
+    console.log(`${player.getName()} lost ${ABILITIES[ability].name} in the ${event.reason}`);
+  }
+  
+  /**
+   * End a hover once its ball lands or the shot is over
+   */
+  private step(): void {
+    if (!this.hover) return;
+    
+    if (!this.isBallRolling()) {
+      this.endHover();
+      return;
+    }
+    
+    const grounded = this.hover.ball.isGrounded();
+    if (!this.hover.airborne) {
+      this.hover.airborne = !grounded;
+    } else if (grounded) {
+      this.endHover();
+    }
+  }
+  
+  /**
+   * Give a hovering ball its normal gravity back
+   */
+  private endHover(): void {
+    if (!this.hover) return;
+    
+    this.hover.ball.setGravityScale(AbilityType.HOVER, null);
+    this.hover = null;
+  }
+  
+  /**
+   * Disarm the shot ability and show the active player's ability
+   */
+  private disarm(): void {
+    this.shotController.armAbility(null);
+    this.refreshUI();
+  }
+  
+  /**
+   * Check whether the shot's ball is rolling
+   */
+  private isBallRolling(): boolean {
+    return this.gameStateManager.isState(GameState.ROLLING) ||
+      this.gameStateManager.isState(GameState.BOOST_READY);
+  }
+  
+  /**
+   * Show the active player's ability
+   */
+  private refreshUI(): void {
+    const ability = this.turnManager.getActivePlayer().getAbility();
+    this.ui.update(ability, ability !== null && this.shotController.getArmedAbility() === ability);
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.endHover();
+    
+    this.eventSystem.off(GameEvents.TARGET_HIT, this.boundTargetHit);
+    this.eventSystem.off(GameEvents.ABILITY_USE, this.boundUse);
+    this.eventSystem.off(GameEvents.BALL_PENALTY, this.boundPenalty);
+    this.eventSystem.off(GameEvents.TURN_CHANGED, this.boundTurnChanged);
+    this.eventSystem.off(GameEvents.MULLIGAN_USED, this.boundMulliganUsed);
+    this.gameStateManager.removeEnterStateListener(GameState.ROLLING, this.boundShotStarted);
+    this.gameStateManager.removeEnterStateListener(GameState.IDLE, this.boundEnterIdle);
+    this.physicsWorld.removeStepCallback(this.boundStep);
+    
+    this.ui.dispose();
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { ShotType } from '../shot/ShotTypes';
+
+/**
+ * Copy abilities taken from knocked-out targets
+ */
+export enum AbilityType {
+  STONE = 'stone',    // Mid-roll: the ball drops dead where it is
+  FREEZE = 'freeze',  // Mid-roll: water on the hole freezes into ice
+  HOVER = 'hover',    // Fly shot: low gravity until the ball first lands
+  WHEEL = 'wheel'     // Grounder: the ball sets off much faster
+}
+
+/**
+ * Display and use of an ability
+ */
+export interface AbilityDefinition {
+  name: string;
+  color: number;              // Target and HUD color
+  shotType: ShotType | null;  // Shot type the ability changes when armed; null for abilities used mid-roll
+  changesCourse: boolean;     // Using it changes the hole itself, so the shot can't be taken back
+}
+
+/**
+ * Ability table
+ */
+export const ABILITIES: Record<AbilityType, AbilityDefinition> = {
+  [AbilityType.STONE]: { name: 'Stone', color: 0x999999, shotType: null, changesCourse: false },
+  [AbilityType.FREEZE]: { name: 'Freeze', color: 0x99ddff, shotType: null, changesCourse: true },
+  [AbilityType.HOVER]: { name: 'Hover', color: 0xffaacc, shotType: ShotType.FLY, changesCourse: false },
+  [AbilityType.WHEEL]: { name: 'Wheel', color: 0xffcc00, shotType: ShotType.GROUNDER, changesCourse: false }
+};
+
+/**
+ * Gravity scale of a hovering ball until it first lands
+ */
+export const HOVER_GRAVITY_SCALE = 0.5;
+
+/**
+ * Horizontal speed multiplier of a wheel grounder
+ */
+export const WHEEL_SPEED_MULTIPLIER = 1.5;
+
+/**
+ * Check whether a name is a known ability type
+ */
+export function isAbilityType(name: string): name is AbilityType {
+  return Object.values(AbilityType).includes(name as AbilityType);
+}
+
+/**
+ * Get the ability that changes a shot, or null if the armed ability doesn't
+ * apply to this shot type
+ * Shot physics and the trajectory preview both go through this, so the preview
+ * always shows what the shot will do.
+ */
+export function getShotAbility(ability: AbilityType | null, shotType: ShotType): AbilityType | null {
+  return ability && ABILITIES[ability].shotType === shotType ? ability : null;
+} 
\ No newline at end of file
@@ -0,0 +1,440 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { TerrainEntity } from '../../entities/TerrainEntity';
+import { ObstacleEntity } from '../../entities/ObstacleEntity';
+import { MovingObstacleEntity } from '../../entities/MovingObstacleEntity';
+import { CupEntity } from '../../entities/CupEntity';
+import { HazardEntity } from '../../entities/HazardEntity';
+import { PropEntity } from '../../entities/PropEntity';
+import { TeleporterEntity } from '../../entities/TeleporterEntity';
+import { TargetEntity } from '../../entities/TargetEntity';
+import { PickupEntity } from '../../entities/PickupEntity';
+import { TileCourseBuilder } from './TileCourseBuilder';
+import { SurfaceMap, SurfaceMaterial, SURFACE_MATERIALS, SurfaceType } from '../../physics/SurfaceMaterials';
+import { HoleData, ObstacleData, PositionData } from './CourseTypes';
+
+/**
+ * CourseBuilder - Builds the entities for a hole from course data
+ *
+ * Owns the terrain, obstacle, hazard, prop, teleporter, target, pickup and cup entities of the current hole. Building a new
+ * hole tears down the previous one first. Moving obstacles and teleporter cooldowns are advanced through step(),
+ * which the game calls before every fixed physics step. On a hole with targets the cup
+ * is only created by spawnCup() once the last target is knocked out.
+ */
+export class CourseBuilder {
+  private scene: THREE.Scene;
+  private world: RAPIER.World;
+  
+  // Entities of the current hole
+  private hole: HoleData | null = null;
+  private terrain: TerrainEntity | null = null;
+  private obstacles: ObstacleEntity[] = [];
+  private movingObstacles: MovingObstacleEntity[] = [];
+  private hazards: HazardEntity[] = [];
+  private props: PropEntity[] = [];
+  private teleporters: TeleporterEntity[] = [];
+  private targets: TargetEntity[] = [];
+  private pickups: PickupEntity[] = [];
+  private cup: CupEntity | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor(scene: THREE.Scene, world: RAPIER.World) {
+    this.scene = scene;
+    this.world = world;
+  }
+  
+  /**
+   * Build all entities for a hole, replacing the current one
+   */
+  public buildHole(hole: HoleData): void {
+    // Tear down the previous hole
+    this.clear();
+    
+    this.hole = hole;
+    
+    // Create terrain
+    this.terrain = new TerrainEntity(this.scene, this.world);
+    const tiles = this.buildTerrain(hole);
+    
+    // Assign surfaces
+    this.terrain.setSurfaceMap(this.buildSurfaceMap(hole, tiles));
+    
+    // Create obstacles
+    hole.obstacles.forEach(obstacle => this.createObstacle(obstacle));
+    
+    // Create hazards - with y omitted, the volume's top sits just above the terrain
+    hole.hazards.forEach(hazard => {
+      const center = this.resolvePosition(hazard.position, 0.05 - hazard.size.y / 2);
+      
+      this.hazards.push(new HazardEntity(this.scene, this.world, {
+        type: hazard.type,
+        position: center,
+        size: new THREE.Vector3(hazard.size.x, hazard.size.y, hazard.size.z),
+        dropZone: hazard.dropZone ? this.resolvePosition(hazard.dropZone) : undefined
+      }));
+    });
+    
+    // Create props on the terrain surface
+    hole.props.forEach(prop => {
+      this.props.push(new PropEntity(this.scene, this.world, {
+        type: prop.type,
+        position: this.resolvePosition(prop.position),
+        size: prop.size ? new THREE.Vector3(prop.size.x, prop.size.y, prop.size.z) : undefined,
+        direction: prop.direction ? new THREE.Vector3(prop.direction.x, 0, prop.direction.z) : undefined,
+        strength: prop.strength
+      }));
+    });
+    
+    // Create teleporter pads, then link each to its exit
+    hole.teleporters.forEach(teleporter => {
+      this.teleporters.push(new TeleporterEntity(this.scene, this.world, {
+        id: teleporter.id,
+        position: this.resolvePosition(teleporter.position),
+        facing: teleporter.facing,
+        radius: teleporter.radius,
+        cooldown: teleporter.cooldown
+      }));
+    });
+    
+    hole.teleporters.forEach((teleporter, i) => {
+      const exit = this.teleporters.find(pad => pad.getId() === teleporter.target) ?? null;
+      this.teleporters[i].linkTo(exit);
+    });
+    
+    // Create targets on the terrain surface
+    hole.targets.forEach(target => {
+      this.targets.push(new TargetEntity(this.scene, this.world, {
+        position: this.resolvePosition(target.position),
+        radius: target.radius,
+        color: target.color,
+        ability: target.ability
+      }));
+    });
+    
+    // Create power-up pickups on the terrain surface
+    hole.powerUps.forEach(powerUp => {
+      this.pickups.push(new PickupEntity(this.scene, this.world, {
+        type: powerUp.type,
+        position: this.resolvePosition(powerUp.position)
+      }));
+    });
+    
+    // Create the cup on the terrain surface, unless it waits for the targets
+    if (this.targets.length === 0) {
+      this.spawnCup(this.resolvePosition(hole.cup));
+    }
+    
+    console.log(
+      `CourseBuilder: Built '${hole.name}' (par ${hole.par}) with ` +
+      `${this.obstacles.length + this.movingObstacles.length} obstacles, ${this.hazards.length} hazards, ` +
+      `${this.props.length} props, ${this.teleporters.length} teleporters, ${this.targets.length} targets ` +
+      `and ${this.pickups.length} power-ups`
+    );
+  }
+  
+  /**
+   * Create the cup of the current hole
+   * Does nothing if the cup already exists.
+   * @param position Ground point under the cup's center
+   */
+  public spawnCup(position: THREE.Vector3): CupEntity {
+    if (!this.cup) {
+      this.cup = new CupEntity(this.scene, this.world, position);
+    }
+    
+    return this.cup;
+  }
+  
+  /**
+   * Create a static or moving obstacle from its description
+   */
+  private createObstacle(obstacle: ObstacleData): void {
+    const size = new THREE.Vector3(obstacle.size.x, obstacle.size.y, obstacle.size.z);
+    
+    switch (obstacle.type) {
+      case 'box':
+        this.obstacles.push(new ObstacleEntity(this.scene, this.world, {
+          position: this.resolvePosition(obstacle.position, obstacle.size.y / 2),
+          size,
+          rotationY: obstacle.rotationY,
+          color: obstacle.color
+        }));
+        break;
+      
+      case 'slider':
+        this.movingObstacles.push(new MovingObstacleEntity(this.scene, this.world, {
+          position: this.resolvePosition(obstacle.position, obstacle.size.y / 2),
+          size,
+          motion: {
+            type: 'path',
+            points: [new THREE.Vector3(), ...obstacle.path.map(point => new THREE.Vector3(point.x, point.y ?? 0, point.z))],
+            duration: obstacle.duration,
+            pause: obstacle.pause ?? 0,
+            loop: obstacle.loop ?? false
+          },
+          rotationY: obstacle.rotationY,
+          phase: obstacle.phase,
+          color: obstacle.color
+        }));
+        break;
+      
+      case 'elevator':
+        this.movingObstacles.push(new MovingObstacleEntity(this.scene, this.world, {
+          position: this.resolvePosition(obstacle.position, obstacle.size.y / 2),
+          size,
+          motion: {
+            type: 'path',
+            points: [new THREE.Vector3(), new THREE.Vector3(0, obstacle.travel, 0)],
+            duration: obstacle.duration,
+            pause: obstacle.pause ?? 0,
+            loop: false
+          },
+          phase: obstacle.phase,
+          color: obstacle.color
+        }));
+        break;
+      
+      case 'bar':
+        this.movingObstacles.push(new MovingObstacleEntity(this.scene, this.world, {
+          position: this.resolvePosition(obstacle.position, obstacle.size.y / 2),
+          size,
+          motion: { type: 'spin', axis: new THREE.Vector3(0, 1, 0), speed: obstacle.speed },
+          rotationY: obstacle.rotationY,
+          phase: obstacle.phase,
+          color: obstacle.color
+        }));
+        break;
+      
+      case 'windmill':
+        // Hub high enough that the blade tips just clear the ground
+        this.movingObstacles.push(new MovingObstacleEntity(this.scene, this.world, {
+          position: this.resolvePosition(obstacle.position, obstacle.size.x / 2 + 0.05),
+          size,
+          motion: { type: 'spin', axis: new THREE.Vector3(0, 0, 1), speed: obstacle.speed },
+          blades: obstacle.blades ?? 2,
+          rotationY: obstacle.rotationY,
+          phase: obstacle.phase,
+          color: obstacle.color
+        }));
+        break;
+    }
+  }
+  
+  /**
+   * Advance moving obstacles and teleporter cooldowns by one fixed physics step
+   */
+  public step(timestep: number): void {
+    this.movingObstacles.forEach(obstacle => obstacle.step(timestep));
+    this.teleporters.forEach(teleporter => teleporter.step(timestep));
+  }
+  
+  /**
+   * Sync moving obstacle meshes with physics and animate targets and pickups - called every frame
+   */
+  public update(): void {
+    this.movingObstacles.forEach(obstacle => obstacle.update());
+    this.targets.forEach(target => target.update());
+    this.pickups.forEach(pickup => pickup.update());
+  }
+  
+  /**
+   * Apply the hole's terrain description to the terrain entity
+   * @returns The tile builder for tile terrain, otherwise null
+   */
+  private buildTerrain(hole: HoleData): TileCourseBuilder | null {
+    if (!this.terrain) return null;
+    
+    const terrain = hole.terrain;
+    
+    switch (terrain.type) {
+      case 'flat':
+        this.terrain.createFlatTerrain(terrain.width, terrain.depth);
+        break;
+      
+      case 'heightmap':
+        this.terrain.createHeightmapTerrain(
+          new Float32Array(terrain.heights),
+          terrain.width,
+          terrain.depth,
+          terrain.cols,
+          terrain.rows
+        );
+        break;
+      
+      case 'tiles': {
+        const tiles = new TileCourseBuilder(terrain);
+        this.terrain.createCompoundTerrain(
+          tiles.buildGeometry(),
+          tiles.buildColliders(),
+          (x, z) => tiles.getHeightAt(x, z)
+        );
+        return tiles;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Build the surface lookup from the hole's default surface, regions and tiles
+   */
+  private buildSurfaceMap(hole: HoleData, tiles: TileCourseBuilder | null): SurfaceMap {
+    const surfaceMap = new SurfaceMap(hole.defaultSurface);
+    
+    hole.surfaces.forEach(region => surfaceMap.addRegion(region));
+    
+    if (tiles) {
+      surfaceMap.setTileSampler((x, z) => tiles.getSurfaceAt(x, z));
+    }
+    
+    return surfaceMap;
+  }
+  
+  /**
+   * Convert a course position to a world position
+   * When y is omitted, the position is placed on the terrain surface
+   * @param heightOffset Added on top of the terrain height (e.g. ball radius)
+   */
+  public resolvePosition(position: PositionData, heightOffset: number = 0): THREE.Vector3 {
+    const groundHeight = this.terrain ? this.terrain.getHeightAt(position.x, position.z) : 0;
+    const y = position.y !== undefined ? position.y : groundHeight + heightOffset;
+    
+    return new THREE.Vector3(position.x, y, position.z);
+  }
+  
+  /**
+   * Get the surface material at a point: ice over frozen water, otherwise the terrain's
+   */
+  public getSurfaceAt(x: number, z: number): SurfaceMaterial {
+    if (this.hazards.some(hazard => hazard.isFrozen() && hazard.containsPoint(x, z))) {
+      return SURFACE_MATERIALS[SurfaceType.ICE];
+    }
+    
+    return this.terrain ? this.terrain.getSurfaceAt(x, z) : SURFACE_MATERIALS[SurfaceType.FAIRWAY];
+  }
+  
+  /**
+   * Freeze all water hazards of the current hole
+   * @returns Number of hazards that froze
+   */
+  public freezeWater(): number {
+    return this.hazards.filter(hazard => hazard.freeze()).length;
+  }
+  
+  /**
+   * Get the hole that is currently built
+   */
+  public getHole(): HoleData | null {
+    return this.hole;
+  }
+  
+  /**
+   * Get the terrain of the current hole
+   */
+  public getTerrain(): TerrainEntity | null {
+    return this.terrain;
+  }
+  
+  /**
+   * Get the obstacles of the current hole
+   */
+  public getObstacles(): ObstacleEntity[] {
+    return this.obstacles;
+  }
+  
+  /**
+   * Get the moving obstacles of the current hole
+   */
+  public getMovingObstacles(): MovingObstacleEntity[] {
+    return this.movingObstacles;
+  }
+  
+  /**
+   * Get the hazards of the current hole
+   */
+  public getHazards(): HazardEntity[] {
+    return this.hazards;
+  }
+  
+  /**
+   * Get the props of the current hole
+   */
+  public getProps(): PropEntity[] {
+    return this.props;
+  }
+  
+  /**
+   * Get the teleporter pads of the current hole
+   */
+  public getTeleporters(): TeleporterEntity[] {
+    return this.teleporters;
+  }
+  
+  /**
+   * Get the targets of the current hole
+   */
+  public getTargets(): TargetEntity[] {
+    return this.targets;
+  }
+  
+  /**
+   * Get the power-up pickups of the current hole
+   */
+  public getPickups(): PickupEntity[] {
+    return this.pickups;
+  }
+  
+  /**
+   * Get the cup of the current hole (null until the targets are cleared)
+   */
+  public getCup(): CupEntity | null {
+    return this.cup;
+  }
+  
+  /**
+   * Remove all entities of the current hole
+   */
+  public clear(): void {
+    this.obstacles.forEach(obstacle => obstacle.dispose());
+    this.obstacles = [];
+    
+    this.movingObstacles.forEach(obstacle => obstacle.dispose());
+    this.movingObstacles = [];
+    
+    this.hazards.forEach(hazard => hazard.dispose());
+    this.hazards = [];
+    
+    this.props.forEach(prop => prop.dispose());
+    this.props = [];
+    
+    this.teleporters.forEach(teleporter => teleporter.dispose());
+    this.teleporters = [];
+    
+    this.targets.forEach(target => target.dispose());
+    this.targets = [];
+    
+    this.pickups.forEach(pickup => pickup.dispose());
+    this.pickups = [];
+    
+    if (this.cup) {
+      this.cup.dispose();
+      this.cup = null;
+    }
+    
+    if (this.terrain) {
+      this.terrain.dispose();
+      this.terrain = null;
+    }
+    
+    this.hole = null;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.clear();
+  }
+} 
\ No newline at end of file
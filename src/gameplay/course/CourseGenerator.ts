@@ -0,0 +1,321 @@
+import { SeededRandom } from '../../utils/SeededRandom';
+import { PerlinNoise } from '../../utils/Noise';
+import { SurfaceType } from '../../physics/SurfaceMaterials';
+import { HazardType } from '../../entities/HazardEntity';
+import {
+  COURSE_FORMAT_VERSION,
+  CourseData,
+  HoleData,
+  HeightmapTerrainData,
+  ObstacleData,
+  HazardData,
+  SurfaceRegionData,
+  PositionData
+} from './CourseTypes';
+
+/**
+ * Course content produced by a prefab chunk
+ */
+interface ChunkContent {
+  obstacles: ObstacleData[];
+  hazards: HazardData[];
+  surfaces: SurfaceRegionData[];
+}
+
+/**
+ * A handcrafted piece of course layout placed by the generator
+ * Chunks are built around an anchor on the fairway. Holes run from south (+z)
+ * to north (-z), so chunks are laid out across the x axis.
+ */
+interface PrefabChunk {
+  name: string;
+  build(anchor: PositionData, rng: SeededRandom): ChunkContent;
+}
+
+/**
+ * Prefab chunk table
+ */
+const PREFAB_CHUNKS: PrefabChunk[] = [
+  {
+    // Wall across the fairway with an opening on one side
+    name: 'wall',
+    build(anchor, rng) {
+      const side = rng.chance(0.5) ? 1 : -1;
+      return {
+        obstacles: [{
+          type: 'box',
+          position: { x: anchor.x + side * 2.5, z: anchor.z },
+          size: { x: 7, y: 1, z: 0.8 },
+          color: '#aa7744'
+        }],
+        hazards: [],
+        surfaces: []
+      };
+    }
+  },
+  {
+    // Two pillars with a narrow gate between them
+    name: 'gate',
+    build(anchor, rng) {
+      const gap = rng.range(2.5, 4);
+      return {
+        obstacles: [-1, 1].map(side => ({
+          type: 'box' as const,
+          position: { x: anchor.x + side * (gap / 2 + 0.75), z: anchor.z },
+          size: { x: 1.5, y: 1.5, z: 1.5 },
+          color: '#8866aa'
+        })),
+        hazards: [],
+        surfaces: []
+      };
+    }
+  },
+  {
+    // Pond to one side of the fairway
+    name: 'pond',
+    build(anchor, rng) {
+      const side = rng.chance(0.5) ? 1 : -1;
+      return {
+        obstacles: [],
+        hazards: [{
+          type: HazardType.WATER,
+          position: { x: anchor.x + side * rng.range(2, 4), z: anchor.z },
+          size: { x: rng.range(3, 5), y: 1, z: rng.range(3, 5) }
+        }],
+        surfaces: []
+      };
+    }
+  },
+  {
+    // Sand bunker on the fairway
+    name: 'bunker',
+    build(anchor, rng) {
+      const halfWidth = rng.range(1.5, 3);
+      const halfDepth = rng.range(1.5, 2.5);
+      const x = anchor.x + rng.range(-2, 2);
+      return {
+        obstacles: [],
+        hazards: [],
+        surfaces: [{
+          surface: SurfaceType.SAND,
+          minX: x - halfWidth,
+          maxX: x + halfWidth,
+          minZ: anchor.z - halfDepth,
+          maxZ: anchor.z + halfDepth
+        }]
+      };
+    }
+  },
+  {
+    // Scattered pillars
+    name: 'pillars',
+    build(anchor, rng) {
+      const obstacles: ObstacleData[] = [];
+      for (let i = 0; i < 3; i++) {
+        obstacles.push({
+          type: 'box',
+          position: { x: anchor.x + rng.range(-4, 4), z: anchor.z + rng.range(-2, 2) },
+          size: { x: 1, y: 1.5, z: 1 },
+          color: '#6688cc'
+        });
+      }
+      return { obstacles, hazards: [], surfaces: [] };
+    }
+  },
+  {
+    // Band of rough across the fairway
+    name: 'rough',
+    build(anchor, rng) {
+      const halfDepth = rng.range(1, 2);
+      return {
+        obstacles: [],
+        hazards: [],
+        surfaces: [{
+          surface: SurfaceType.ROUGH,
+          minX: anchor.x - 8,
+          maxX: anchor.x + 8,
+          minZ: anchor.z - halfDepth,
+          maxZ: anchor.z + halfDepth
+        }]
+      };
+    }
+  }
+];
+
+/**
+ * CourseGenerator - Builds holes procedurally from a seed string
+ *
+ * Terrain comes from seeded Perlin noise; obstacles, hazards and surfaces come
+ * from prefab chunks placed along the fairway. The output is plain course data,
+ * so a generated hole is built and played exactly like a hand-made one, and the
+ * same seed always produces the same hole.
+ */
+export class CourseGenerator {
+  // Terrain resolution (world units per heightmap cell)
+  private static readonly CELL_SIZE = 1.5;
+  
+  // Radius of the flattened areas around tee and cup
+  private static readonly PAD_RADIUS = 3;
+  private static readonly PAD_BLEND = 3;
+  
+  /**
+   * Generate a multi-hole course from a seed
+   * Each hole gets its own seed derived from the course seed.
+   */
+  public static generateCourse(seed: string, holeCount: number = 3): CourseData {
+    const holes: HoleData[] = [];
+    for (let i = 0; i < holeCount; i++) {
+      holes.push(CourseGenerator.generateHole(`${seed}#${i + 1}`, i));
+    }
+    
+    return {
+      version: COURSE_FORMAT_VERSION,
+      name: `Generated Course (${seed})`,
+      holes
+    };
+  }
+  
+  /**
+   * Generate a single hole from a seed
+   * @param index Position of the hole in its course (used for id and name)
+   */
+  public static generateHole(seed: string, index: number = 0): HoleData {
+    const rng = new SeededRandom(seed);
+    const noise = new PerlinNoise(rng);
+    
+    // Hole size
+    const width = rng.int(24, 32);
+    const depth = rng.int(36, 56);
+    
+    // Tee at the south end, cup at the north end
+    const tee: PositionData = { x: CourseGenerator.round(rng.range(-width / 4, width / 4)), z: depth / 2 - 5 };
+    const cup: PositionData = { x: CourseGenerator.round(rng.range(-width / 4, width / 4)), z: -depth / 2 + 5 };
+    
+    const terrain = CourseGenerator.generateTerrain(rng, noise, width, depth, [tee, cup]);
+    
+    // Place prefab chunks evenly along the fairway between tee and cup
+    const chunkCount = rng.int(2, 4);
+    const obstacles: ObstacleData[] = [];
+    const hazards: HazardData[] = [];
+    const surfaces: SurfaceRegionData[] = [];
+    
+    for (let i = 0; i < chunkCount; i++) {
+      const t = (i + 1) / (chunkCount + 1);
+      const anchor: PositionData = {
+        x: tee.x + (cup.x - tee.x) * t + rng.range(-2, 2),
+        z: tee.z + (cup.z - tee.z) * t
+      };
+      
+      const chunk = rng.pick(PREFAB_CHUNKS).build(anchor, rng);
+      obstacles.push(...chunk.obstacles.map(o => ({ ...o, position: CourseGenerator.roundPosition(o.position) })));
+      hazards.push(...chunk.hazards.map(h => ({
+        ...h,
+        position: CourseGenerator.roundPosition(h.position),
+        size: { x: CourseGenerator.round(h.size.x), y: h.size.y, z: CourseGenerator.round(h.size.z) }
+      })));
+      surfaces.push(...chunk.surfaces.map(s => ({
+        ...s,
+        minX: CourseGenerator.round(s.minX),
+        maxX: CourseGenerator.round(s.maxX),
+        minZ: CourseGenerator.round(s.minZ),
+        maxZ: CourseGenerator.round(s.maxZ)
+      })));
+    }
+    
+    // Par grows with hole length and the number of hazards to get around
+    const dx = cup.x - tee.x;
+    const dz = cup.z - tee.z;
+    const length = Math.sqrt(dx * dx + dz * dz);
+    const par = Math.min(5, 3 + (length > 40 ? 1 : 0) + (hazards.length + obstacles.length >= 4 ? 1 : 0));
+    
+    const margin = 5;
+    
+    return {
+      id: `generated-${seed}`,
+      name: `Generated Hole ${index + 1}`,
+      par,
+      tee,
+      cup,
+      bounds: {
+        minX: -width / 2 - margin,
+        maxX: width / 2 + margin,
+        minZ: -depth / 2 - margin,
+        maxZ: depth / 2 + margin,
+        minY: -10
+      },
+      terrain,
+      obstacles,
+      hazards,
+      props: [],
+      teleporters: [],
+      targets: [],
+      powerUps: [],
+      defaultSurface: SurfaceType.FAIRWAY,
+      surfaces
+    };
+  }
+  
+  /**
+   * Generate noise terrain with flat pads around the given points
+   */
+  private static generateTerrain(
+    rng: SeededRandom,
+    noise: PerlinNoise,
+    width: number,
+    depth: number,
+    pads: PositionData[]
+  ): HeightmapTerrainData {
+    const cols = Math.round(width / CourseGenerator.CELL_SIZE);
+    const rows = Math.round(depth / CourseGenerator.CELL_SIZE);
+    
+    // Terrain character
+    const amplitude = rng.range(0.5, 2.5);
+    const frequency = rng.range(0.04, 0.1);
+    const offsetX = rng.range(0, 100);
+    const offsetZ = rng.range(0, 100);
+    const tilt = rng.range(-0.03, 0.03); // Gentle overall slope along the hole
+    
+    const sample = (x: number, z: number) =>
+      noise.fbm(x * frequency + offsetX, z * frequency + offsetZ) * amplitude + z * tilt;
+    
+    // Pad heights are the noise height at their centers
+    const padHeights = pads.map(pad => sample(pad.x, pad.z));
+    
+    const heights: number[] = [];
+    for (let row = 0; row <= rows; row++) {
+      for (let col = 0; col <= cols; col++) {
+        const x = -width / 2 + (col / cols) * width;
+        const z = -depth / 2 + (row / rows) * depth;
+        let height = sample(x, z);
+        
+        // Blend toward the pad height near tee and cup
+        pads.forEach((pad, i) => {
+          const dx = x - pad.x;
+          const dz = z - pad.z;
+          const distance = Math.sqrt(dx * dx + dz * dz);
+          const blend = Math.min(1, Math.max(0, (distance - CourseGenerator.PAD_RADIUS) / CourseGenerator.PAD_BLEND));
+          const smooth = blend * blend * (3 - 2 * blend);
+          height = padHeights[i] + (height - padHeights[i]) * smooth;
+        });
+        
+        heights.push(CourseGenerator.round(height));
+      }
+    }
+    
+    return { type: 'heightmap', width, depth, rows, cols, heights };
+  }
+  
+  /**
+   * Round a position to two decimals so generated data stays compact and exact
+   */
+  private static roundPosition(position: PositionData): PositionData {
+    return { x: CourseGenerator.round(position.x), z: CourseGenerator.round(position.z) };
+  }
+  
+  /**
+   * Round a value to two decimals
+   */
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,585 @@
+import {
+  COURSE_FORMAT_VERSION,
+  CourseData,
+  HoleData,
+  TerrainData,
+  BoundsData,
+  ObstacleData,
+  HazardData,
+  PropData,
+  TeleporterData,
+  TargetData,
+  PowerUpData,
+  SurfaceRegionData,
+  PositionData
+} from './CourseTypes';
+import { TileCourseBuilder } from './TileCourseBuilder';
+import { SurfaceType, isSurfaceType } from '../../physics/SurfaceMaterials';
+import { HazardType } from '../../entities/HazardEntity';
+import { PropType } from '../../entities/PropEntity';
+import { isPowerUpType } from '../powerups/PowerUpTypes';
+import { isAbilityType } from '../abilities/AbilityTypes';
+
+/**
+ * CourseLoader - Validates raw course JSON and turns it into CourseData
+ *
+ * Course files are loaded through AssetManager as plain JSON. This class checks
+ * the format version, validates each hole and fills in optional fields so the
+ * rest of the game can rely on a complete CourseData object.
+ */
+export class CourseLoader {
+  /**
+   * Parse and validate raw course JSON
+   * @returns The validated course, or null if the data is invalid
+   */
+  public static parse(json: any): CourseData | null {
+    if (!json || typeof json !== 'object') {
+      console.error('CourseLoader: Course data is not an object');
+      return null;
+    }
+    
+    if (typeof json.version !== 'number') {
+      console.error('CourseLoader: Course data has no format version');
+      return null;
+    }
+    
+    if (json.version > COURSE_FORMAT_VERSION) {
+      console.error(
+        `CourseLoader: Course format version ${json.version} is newer than supported version ${COURSE_FORMAT_VERSION}`
+      );
+      return null;
+    }
+    
+    if (!Array.isArray(json.holes) || json.holes.length === 0) {
+      console.error('CourseLoader: Course has no holes');
+      return null;
+    }
+    
+    const holes: HoleData[] = [];
+    for (let i = 0; i < json.holes.length; i++) {
+      const hole = CourseLoader.parseHole(json.holes[i], i);
+      if (!hole) return null;
+      holes.push(hole);
+    }
+    
+    return {
+      version: json.version,
+      name: typeof json.name === 'string' ? json.name : 'Untitled Course',
+      holes
+    };
+  }
+  
+  /**
+   * Parse and validate a single hole
+   */
+  public static parseHole(json: any, index: number = 0): HoleData | null {
+    const label = `hole ${index + 1}`;
+    
+    if (!json || typeof json !== 'object') {
+      console.error(`CourseLoader: ${label} is not an object`);
+      return null;
+    }
+    
+    const terrain = CourseLoader.parseTerrain(json.terrain, label);
+    if (!terrain) return null;
+    
+    const tee = CourseLoader.parsePosition(json.tee);
+    if (!tee) {
+      console.error(`CourseLoader: ${label} has an invalid tee position`);
+      return null;
+    }
+    
+    const cup = CourseLoader.parsePosition(json.cup);
+    if (!cup) {
+      console.error(`CourseLoader: ${label} has an invalid cup position`);
+      return null;
+    }
+    
+    const hole: HoleData = {
+      id: typeof json.id === 'string' ? json.id : `hole-${index + 1}`,
+      name: typeof json.name === 'string' ? json.name : `Hole ${index + 1}`,
+      par: typeof json.par === 'number' && json.par > 0 ? json.par : 3,
+      tee,
+      cup,
+      bounds: CourseLoader.parseBounds(json.bounds, terrain),
+      terrain,
+      obstacles: CourseLoader.parseObstacles(json.obstacles, label),
+      hazards: CourseLoader.parseHazards(json.hazards, label),
+      props: CourseLoader.parseProps(json.props, label),
+      teleporters: CourseLoader.parseTeleporters(json.teleporters, label),
+      targets: CourseLoader.parseTargets(json.targets, label),
+      powerUps: CourseLoader.parsePowerUps(json.powerUps, label),
+      defaultSurface: CourseLoader.parseSurfaceName(json.defaultSurface, label),
+      surfaces: CourseLoader.parseSurfaces(json.surfaces, label)
+    };
+    
+    const dropZone = CourseLoader.parsePosition(json.dropZone);
+    if (dropZone) {
+      hole.dropZone = dropZone;
+    }
+    
+    return hole;
+  }
+  
+  /**
+   * Create the built-in fallback hole (the original 20x20 flat playfield)
+   * Used when no course file could be loaded.
+   */
+  public static createDefaultHole(): HoleData {
+    return {
+      id: 'default',
+      name: 'Practice Green',
+      par: 3,
+      tee: { x: 0, z: 0 },
+      cup: { x: 6, z: 6 },
+      bounds: { minX: -50, maxX: 50, minZ: -50, maxZ: 50, minY: -10 },
+      terrain: { type: 'flat', width: 20, depth: 20 },
+      obstacles: [],
+      hazards: [],
+      props: [],
+      teleporters: [],
+      targets: [],
+      powerUps: [],
+      defaultSurface: SurfaceType.FAIRWAY,
+      surfaces: []
+    };
+  }
+  
+  /**
+   * Parse terrain data
+   */
+  private static parseTerrain(json: any, label: string): TerrainData | null {
+    if (!json || typeof json !== 'object') {
+      console.error(`CourseLoader: ${label} has no terrain`);
+      return null;
+    }
+    
+    // Tile terrain derives its size from the grid
+    if (json.type === 'tiles') {
+      return CourseLoader.parseTileTerrain(json, label);
+    }
+    
+    if (!CourseLoader.isPositive(json.width) || !CourseLoader.isPositive(json.depth)) {
+      console.error(`CourseLoader: ${label} terrain needs a positive width and depth`);
+      return null;
+    }
+    
+    switch (json.type) {
+      case 'flat':
+        return { type: 'flat', width: json.width, depth: json.depth };
+      
+      case 'heightmap': {
+        if (!CourseLoader.isPositive(json.rows) || !CourseLoader.isPositive(json.cols)) {
+          console.error(`CourseLoader: ${label} heightmap needs positive rows and cols`);
+          return null;
+        }
+        
+        const expectedSamples = (json.rows + 1) * (json.cols + 1);
+        if (!Array.isArray(json.heights) || json.heights.length !== expectedSamples) {
+          console.error(
+            `CourseLoader: ${label} heightmap needs ${expectedSamples} height samples for ${json.cols}x${json.rows} cells`
+          );
+          return null;
+        }
+        
+        return {
+          type: 'heightmap',
+          width: json.width,
+          depth: json.depth,
+          rows: json.rows,
+          cols: json.cols,
+          heights: json.heights.map((h: any) => Number(h) || 0)
+        };
+      }
+      
+      default:
+        console.error(`CourseLoader: ${label} has unknown terrain type '${json.type}'`);
+        return null;
+    }
+  }
+  
+  /**
+   * Parse tile grid terrain
+   */
+  private static parseTileTerrain(json: any, label: string): TerrainData | null {
+    if (!CourseLoader.isPositive(json.tileSize) || !CourseLoader.isPositive(json.heightStep)) {
+      console.error(`CourseLoader: ${label} tile terrain needs a positive tileSize and heightStep`);
+      return null;
+    }
+    
+    const tiles = TileCourseBuilder.parseGrid(json.grid);
+    if (!tiles) {
+      console.error(`CourseLoader: ${label} has an invalid tile grid`);
+      return null;
+    }
+    
+    return {
+      type: 'tiles',
+      width: tiles[0].length * json.tileSize,
+      depth: tiles.length * json.tileSize,
+      tileSize: json.tileSize,
+      heightStep: json.heightStep,
+      grid: json.grid.map((row: string) => row.trim())
+    };
+  }
+  
+  /**
+   * Parse bounds, defaulting to a margin around the terrain
+   */
+  private static parseBounds(json: any, terrain: TerrainData): BoundsData {
+    const margin = 5;
+    const defaults: BoundsData = {
+      minX: -terrain.width / 2 - margin,
+      maxX: terrain.width / 2 + margin,
+      minZ: -terrain.depth / 2 - margin,
+      maxZ: terrain.depth / 2 + margin,
+      minY: -10
+    };
+    
+    if (!json || typeof json !== 'object') {
+      return defaults;
+    }
+    
+    return {
+      minX: typeof json.minX === 'number' ? json.minX : defaults.minX,
+      maxX: typeof json.maxX === 'number' ? json.maxX : defaults.maxX,
+      minZ: typeof json.minZ === 'number' ? json.minZ : defaults.minZ,
+      maxZ: typeof json.maxZ === 'number' ? json.maxZ : defaults.maxZ,
+      minY: typeof json.minY === 'number' ? json.minY : defaults.minY
+    };
+  }
+  
+  /**
+   * Parse obstacles, skipping invalid entries
+   */
+  private static parseObstacles(json: any, label: string): ObstacleData[] {
+    if (!Array.isArray(json)) return [];
+    
+    const obstacleTypes = ['box', 'slider', 'elevator', 'bar', 'windmill'];
+    const obstacles: ObstacleData[] = [];
+    json.forEach((obstacle: any, i: number) => {
+      if (!obstacle || !obstacleTypes.includes(obstacle.type)) {
+        console.warn(`CourseLoader: Skipping ${label} obstacle ${i} with unknown type '${obstacle?.type}'`);
+        return;
+      }
+      
+      const parsed = CourseLoader.parseObstacle(obstacle);
+      if (!parsed) {
+        console.warn(`CourseLoader: Skipping invalid ${label} ${obstacle.type} obstacle ${i}`);
+        return;
+      }
+      
+      obstacles.push(parsed);
+    });
+    
+    return obstacles;
+  }
+  
+  /**
+   * Parse a single obstacle of a known type
+   * @returns The obstacle, or null if a required field is missing or invalid
+   */
+  private static parseObstacle(json: any): ObstacleData | null {
+    const position = CourseLoader.parsePosition(json.position);
+    const size = json.size;
+    if (!position || !size ||
+        !CourseLoader.isPositive(size.x) || !CourseLoader.isPositive(size.y) || !CourseLoader.isPositive(size.z)) {
+      return null;
+    }
+    
+    const common = {
+      position,
+      size: { x: size.x, y: size.y, z: size.z },
+      color: typeof json.color === 'string' ? json.color : undefined
+    };
+    const rotationY = typeof json.rotationY === 'number' ? json.rotationY : 0;
+    const phase = typeof json.phase === 'number' ? json.phase : 0;
+    const pause = typeof json.pause === 'number' && json.pause >= 0 ? json.pause : 0;
+    
+    switch (json.type) {
+      case 'box':
+        return { type: 'box', ...common, rotationY };
+      
+      case 'slider': {
+        if (!Array.isArray(json.path) || !CourseLoader.isPositive(json.duration)) return null;
+        
+        const path = json.path.map((point: any) => CourseLoader.parsePosition(point));
+        if (path.length === 0 || path.includes(null)) return null;
+        
+        return {
+          type: 'slider',
+          ...common,
+          path,
+          duration: json.duration,
+          pause,
+          loop: json.loop === true,
+          rotationY,
+          phase
+        };
+      }
+      
+      case 'elevator':
+        if (typeof json.travel !== 'number' || !CourseLoader.isPositive(json.duration)) return null;
+        
+        return { type: 'elevator', ...common, travel: json.travel, duration: json.duration, pause, phase };
+      
+      case 'bar':
+        if (typeof json.speed !== 'number') return null;
+        
+        return { type: 'bar', ...common, speed: json.speed, rotationY, phase };
+      
+      case 'windmill':
+        if (typeof json.speed !== 'number') return null;
+        
+        return {
+          type: 'windmill',
+          ...common,
+          speed: json.speed,
+          blades: CourseLoader.isPositive(json.blades) ? Math.floor(json.blades) : 2,
+          rotationY,
+          phase
+        };
+      
+      default:
+        return null;
+    }
+  }
+  
+  /**
+   * Parse hazards, skipping invalid entries
+   */
+  private static parseHazards(json: any, label: string): HazardData[] {
+    if (!Array.isArray(json)) return [];
+    
+    const hazardTypes = Object.values(HazardType) as string[];
+    const hazards: HazardData[] = [];
+    json.forEach((hazard: any, i: number) => {
+      if (!hazard || !hazardTypes.includes(hazard.type)) {
+        console.warn(`CourseLoader: Skipping ${label} hazard ${i} with unknown type '${hazard?.type}'`);
+        return;
+      }
+      
+      const position = CourseLoader.parsePosition(hazard.position);
+      const size = hazard.size;
+      if (!position || !size ||
+          !CourseLoader.isPositive(size.x) || !CourseLoader.isPositive(size.y) || !CourseLoader.isPositive(size.z)) {
+        console.warn(`CourseLoader: Skipping invalid ${label} hazard ${i}`);
+        return;
+      }
+      
+      const parsed: HazardData = {
+        type: hazard.type,
+        position,
+        size: { x: size.x, y: size.y, z: size.z }
+      };
+      
+      const dropZone = CourseLoader.parsePosition(hazard.dropZone);
+      if (dropZone) {
+        parsed.dropZone = dropZone;
+      }
+      
+      hazards.push(parsed);
+    });
+    
+    return hazards;
+  }
+  
+  /**
+   * Parse props, skipping invalid entries
+   */
+  private static parseProps(json: any, label: string): PropData[] {
+    if (!Array.isArray(json)) return [];
+    
+    const propTypes = Object.values(PropType) as string[];
+    const props: PropData[] = [];
+    json.forEach((prop: any, i: number) => {
+      if (!prop || !propTypes.includes(prop.type)) {
+        console.warn(`CourseLoader: Skipping ${label} prop ${i} with unknown type '${prop?.type}'`);
+        return;
+      }
+      
+      const position = CourseLoader.parsePosition(prop.position);
+      if (!position) {
+        console.warn(`CourseLoader: Skipping invalid ${label} prop ${i}`);
+        return;
+      }
+      
+      const parsed: PropData = { type: prop.type, position };
+      
+      const size = prop.size;
+      if (size && CourseLoader.isPositive(size.x) && CourseLoader.isPositive(size.y) && CourseLoader.isPositive(size.z)) {
+        parsed.size = { x: size.x, y: size.y, z: size.z };
+      }
+      
+      const direction = prop.direction;
+      if (direction && typeof direction.x === 'number' && typeof direction.z === 'number' &&
+          (direction.x !== 0 || direction.z !== 0)) {
+        parsed.direction = { x: direction.x, z: direction.z };
+      } else if (prop.type === PropType.BOOST_PAD) {
+        console.warn(`CourseLoader: ${label} boost pad ${i} has no direction, pushing north`);
+      }
+      
+      if (CourseLoader.isPositive(prop.strength)) {
+        parsed.strength = prop.strength;
+      }
+      
+      props.push(parsed);
+    });
+    
+    return props;
+  }
+  
+  /**
+   * Parse targets, skipping invalid entries
+   */
+  private static parseTargets(json: any, label: string): TargetData[] {
+    if (!Array.isArray(json)) return [];
+    
+    const targets: TargetData[] = [];
+    json.forEach((target: any, i: number) => {
+      const position = CourseLoader.parsePosition(target?.position);
+      if (!position) {
+        console.warn(`CourseLoader: Skipping invalid ${label} target ${i}`);
+        return;
+      }
+      
+      const parsed: TargetData = { position };
+      if (CourseLoader.isPositive(target.radius)) parsed.radius = target.radius;
+      if (typeof target.color === 'string') parsed.color = target.color;
+      if (typeof target.ability === 'string') {
+        if (isAbilityType(target.ability)) {
+          parsed.ability = target.ability;
+        } else {
+          console.warn(`CourseLoader: Unknown ability '${target.ability}' on ${label} target ${i}`);
+        }
+      }
+      
+      targets.push(parsed);
+    });
+    
+    return targets;
+  }
+  
+  /**
+   * Parse power-up pickups, skipping invalid entries
+   */
+  private static parsePowerUps(json: any, label: string): PowerUpData[] {
+    if (!Array.isArray(json)) return [];
+    
+    const powerUps: PowerUpData[] = [];
+    json.forEach((powerUp: any, i: number) => {
+      if (!powerUp || typeof powerUp.type !== 'string' || !isPowerUpType(powerUp.type)) {
+        console.warn(`CourseLoader: Skipping ${label} power-up ${i} with unknown type '${powerUp?.type}'`);
+        return;
+      }
+      
+      const position = CourseLoader.parsePosition(powerUp.position);
+      if (!position) {
+        console.warn(`CourseLoader: Skipping invalid ${label} power-up ${i}`);
+        return;
+      }
+      
+      powerUps.push({ type: powerUp.type, position });
+    });
+    
+    return powerUps;
+  }
+  
+  /**
+   * Parse teleporters, skipping invalid entries and unknown targets
+   */
+  private static parseTeleporters(json: any, label: string): TeleporterData[] {
+    if (!Array.isArray(json)) return [];
+    
+    const teleporters: TeleporterData[] = [];
+    json.forEach((teleporter: any, i: number) => {
+      const position = CourseLoader.parsePosition(teleporter?.position);
+      if (!position || typeof teleporter.id !== 'string' || teleporters.some(t => t.id === teleporter.id)) {
+        console.warn(`CourseLoader: Skipping invalid ${label} teleporter ${i}`);
+        return;
+      }
+      
+      const parsed: TeleporterData = { id: teleporter.id, position };
+      if (typeof teleporter.target === 'string') parsed.target = teleporter.target;
+      if (typeof teleporter.facing === 'number') parsed.facing = teleporter.facing;
+      if (CourseLoader.isPositive(teleporter.radius)) parsed.radius = teleporter.radius;
+      if (typeof teleporter.cooldown === 'number' && teleporter.cooldown >= 0) parsed.cooldown = teleporter.cooldown;
+      
+      teleporters.push(parsed);
+    });
+    
+    // Drop links to pads that don't exist
+    teleporters.forEach(teleporter => {
+      if (teleporter.target !== undefined && !teleporters.some(t => t.id === teleporter.target)) {
+        console.warn(`CourseLoader: ${label} teleporter '${teleporter.id}' links to unknown pad '${teleporter.target}'`);
+        delete teleporter.target;
+      }
+    });
+    
+    return teleporters;
+  }
+  
+  /**
+   * Parse surface regions, skipping invalid entries
+   */
+  private static parseSurfaces(json: any, label: string): SurfaceRegionData[] {
+    if (!Array.isArray(json)) return [];
+    
+    const surfaces: SurfaceRegionData[] = [];
+    json.forEach((region: any, i: number) => {
+      if (!region || !isSurfaceType(region.surface) ||
+          typeof region.minX !== 'number' || typeof region.maxX !== 'number' ||
+          typeof region.minZ !== 'number' || typeof region.maxZ !== 'number') {
+        console.warn(`CourseLoader: Skipping invalid ${label} surface region ${i}`);
+        return;
+      }
+      
+      surfaces.push({
+        surface: region.surface,
+        minX: region.minX,
+        maxX: region.maxX,
+        minZ: region.minZ,
+        maxZ: region.maxZ
+      });
+    });
+    
+    return surfaces;
+  }
+  
+  /**
+   * Parse a surface name, falling back to fairway
+   */
+  private static parseSurfaceName(json: any, label: string): SurfaceType {
+    if (json === undefined) return SurfaceType.FAIRWAY;
+    
+    if (!isSurfaceType(json)) {
+      console.warn(`CourseLoader: ${label} has unknown surface '${json}', using fairway`);
+      return SurfaceType.FAIRWAY;
+    }
+    
+    return json;
+  }
+  
+  /**
+   * Parse a position, returning null if x or z is missing
+   */
+  private static parsePosition(json: any): PositionData | null {
+    if (!json || typeof json.x !== 'number' || typeof json.z !== 'number') {
+      return null;
+    }
+    
+    const position: PositionData = { x: json.x, z: json.z };
+    if (typeof json.y === 'number') {
+      position.y = json.y;
+    }
+    
+    return position;
+  }
+  
+  /**
+   * Check that a value is a positive number
+   */
+  private static isPositive(value: any): boolean {
+    return typeof value === 'number' && value > 0;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,281 @@
+import { SurfaceType } from '../../physics/SurfaceMaterials';
+import { HazardType } from '../../entities/HazardEntity';
+import { PropType } from '../../entities/PropEntity';
+import { PowerUpType } from '../powerups/PowerUpTypes';
+import { AbilityType } from '../abilities/AbilityTypes';
+
+/**
+ * Current version of the course file format
+ * Bump this when the format changes in a way older loaders can't read.
+ */
+export const COURSE_FORMAT_VERSION = 1;
+
+/**
+ * Position in course data
+ * When y is omitted the position is placed on the terrain surface.
+ */
+export interface PositionData {
+  x: number;
+  y?: number;
+  z: number;
+}
+
+/**
+ * Size of a box in course data (full extents, not half extents)
+ */
+export interface SizeData {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Flat rectangular terrain
+ */
+export interface FlatTerrainData {
+  type: 'flat';
+  width: number;
+  depth: number;
+}
+
+/**
+ * Heightmap terrain
+ * Heights are row-major: rows run along z, columns along x,
+ * with (rows + 1) * (cols + 1) samples in total.
+ */
+export interface HeightmapTerrainData {
+  type: 'heightmap';
+  width: number;
+  depth: number;
+  rows: number;
+  cols: number;
+  heights: number[];
+}
+
+/**
+ * Tile grid terrain in the style of Kirby's Dream Course
+ *
+ * Each grid row is a string of space-separated tile tokens, row 0 being the
+ * north (-z) edge. A token is a shape code followed by a height level, with
+ * optional edge walls after a colon:
+ *
+ *   F2      flat tile at level 2
+ *   B3      raised block (flat, stone colored) at level 3
+ *   SN0     slope rising one level towards the north (also SS, SE, SW)
+ *   CNE1    corner slope with the north-east corner raised (also CNW, CSE, CSW)
+ *   INE1    inner corner with all but the south-west corner raised (also INW, ISE, ISW)
+ *   F0:nw   flat tile with walls along its north and west edges
+ *   F1@sand flat tile with its own surface (overrides regions)
+ *   .       no tile (gap)
+ *
+ * Width and depth are derived from the grid size and tile size.
+ */
+export interface TileTerrainData {
+  type: 'tiles';
+  width: number;
+  depth: number;
+  tileSize: number;    // World size of one square tile
+  heightStep: number;  // World height of one level
+  grid: string[];
+}
+
+/**
+ * Terrain description for a hole
+ */
+export type TerrainData = FlatTerrainData | HeightmapTerrainData | TileTerrainData;
+
+/**
+ * Playable area of a hole
+ * The ball is out of bounds when it leaves the x/z rectangle or falls below minY.
+ */
+export interface BoundsData {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+  minY: number;
+}
+
+/**
+ * Static box obstacle (walls, blocks, ramps)
+ */
+export interface BoxObstacleData {
+  type: 'box';
+  position: PositionData;
+  size: SizeData;
+  rotationY?: number; // Radians around the vertical axis
+  color?: string;     // CSS hex color, e.g. "#aa7744"
+}
+
+/**
+ * Box sliding along a path (sliding blocks)
+ * Path points are offsets from the position (y defaults to 0). The box travels
+ * from the position through the points and back, or loops when loop is set.
+ */
+export interface SliderObstacleData {
+  type: 'slider';
+  position: PositionData;
+  size: SizeData;
+  path: PositionData[];
+  duration: number;   // Seconds to travel the path one way
+  pause?: number;     // Seconds to wait at each end
+  loop?: boolean;     // Return straight to the start instead of retracing the path
+  rotationY?: number;
+  phase?: number;     // Time offset in seconds, to stagger obstacles
+  color?: string;
+}
+
+/**
+ * Platform moving up and down (elevators)
+ * The platform starts at its position and rises by travel.
+ */
+export interface ElevatorObstacleData {
+  type: 'elevator';
+  position: PositionData;
+  size: SizeData;
+  travel: number;     // Height to rise
+  duration: number;   // Seconds to rise (and to come back down)
+  pause?: number;     // Seconds to wait at the top and bottom
+  phase?: number;
+  color?: string;
+}
+
+/**
+ * Bar spinning around a vertical axis through its center (rotating bars)
+ */
+export interface BarObstacleData {
+  type: 'bar';
+  position: PositionData;
+  size: SizeData;     // Length along x
+  speed: number;      // Radians per second, negative for clockwise
+  rotationY?: number; // Starting angle
+  phase?: number;
+  color?: string;
+}
+
+/**
+ * Blades spinning around a horizontal axis (windmills)
+ * The hub sits at the position; with y omitted it is placed so the blade tips
+ * just clear the ground. Blades turn in the x/y plane before rotationY is applied.
+ */
+export interface WindmillObstacleData {
+  type: 'windmill';
+  position: PositionData;
+  size: SizeData;     // Size of one blade, span along x
+  speed: number;
+  blades?: number;    // Number of blades (default 2, crossed)
+  rotationY?: number;
+  phase?: number;
+  color?: string;
+}
+
+/**
+ * Obstacle description for a hole
+ */
+export type ObstacleData =
+  | BoxObstacleData
+  | SliderObstacleData
+  | ElevatorObstacleData
+  | BarObstacleData
+  | WindmillObstacleData;
+
+/**
+ * Hazard volume (water or pit)
+ * Entering it costs a penalty stroke. When the position's y is omitted, the top
+ * of the volume sits just above the terrain surface.
+ */
+export interface HazardData {
+  type: HazardType;
+  position: PositionData;
+  size: SizeData;
+  dropZone?: PositionData; // Ground point to re-spot the ball instead of its last resting position
+}
+
+/**
+ * Interactive prop (bumper, spring or boost pad) placed on the terrain
+ * Size and strength default per type; see PropEntity.
+ */
+export interface PropData {
+  type: PropType;
+  position: PositionData;
+  size?: SizeData;                    // Bumper: diameter (x) and height (y); pads: footprint (x, z)
+  direction?: { x: number; z: number }; // Boost pad push direction
+  strength?: number;                  // Added speed (bumper, boost pad) or launch speed (spring)
+}
+
+/**
+ * Teleporter pad
+ * A pad with a target sends the ball to the pad with that id; pads without a
+ * target are exits only. Link two pads to each other for a two-way warp.
+ */
+export interface TeleporterData {
+  id: string;
+  position: PositionData;
+  target?: string;    // Id of the exit pad
+  facing?: number;    // Direction the ball leaves this pad (radians, 0 = north/-z, PI/2 = west/-x)
+  radius?: number;
+  cooldown?: number;  // Milliseconds both pads ignore the ball after a warp
+}
+
+/**
+ * Target (enemy) the ball knocks out on contact
+ * On a hole with targets the cup only appears once all are knocked out, at the
+ * position of the last one; the hole's cup position is not used.
+ */
+export interface TargetData {
+  position: PositionData;
+  radius?: number;
+  color?: string;
+  ability?: AbilityType;  // Copy ability (stone, freeze, hover or wheel) the ball takes from it
+}
+
+/**
+ * Power-up pickup (rocket_dash, sticky or gravity_flip) placed on the terrain
+ */
+export interface PowerUpData {
+  type: PowerUpType;
+  position: PositionData;
+}
+
+/**
+ * Rectangular region of the terrain with a named surface type
+ * (fairway, rough, sand, ice or bumper)
+ */
+export interface SurfaceRegionData {
+  surface: SurfaceType;
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/**
+ * A single hole of a course
+ */
+export interface HoleData {
+  id: string;
+  name: string;
+  par: number;
+  tee: PositionData;
+  cup: PositionData;
+  bounds: BoundsData;
+  terrain: TerrainData;
+  obstacles: ObstacleData[];
+  hazards: HazardData[];
+  props: PropData[];
+  teleporters: TeleporterData[];
+  targets: TargetData[];
+  powerUps: PowerUpData[];
+  dropZone?: PositionData; // Ground point to re-spot the ball after going out of bounds
+  defaultSurface: SurfaceType;
+  surfaces: SurfaceRegionData[];
+}
+
+/**
+ * A course file: a named, versioned list of holes
+ */
+export interface CourseData {
+  version: number;
+  name: string;
+  holes: HoleData[];
+} 
\ No newline at end of file
@@ -0,0 +1,575 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { TileTerrainData } from './CourseTypes';
+import { SurfaceType, SURFACE_MATERIALS, isSurfaceType } from '../../physics/SurfaceMaterials';
+
+/**
+ * Tile shapes, keyed by their token code in course data
+ */
+export enum TileShape {
+  FLAT = 'F',
+  BLOCK = 'B',
+  SLOPE_N = 'SN',
+  SLOPE_S = 'SS',
+  SLOPE_E = 'SE',
+  SLOPE_W = 'SW',
+  CORNER_NE = 'CNE',
+  CORNER_NW = 'CNW',
+  CORNER_SE = 'CSE',
+  CORNER_SW = 'CSW',
+  INNER_NE = 'INE',
+  INNER_NW = 'INW',
+  INNER_SE = 'ISE',
+  INNER_SW = 'ISW'
+}
+
+/**
+ * Tile edge (north is -z, east is +x)
+ */
+export type TileEdge = 'n' | 's' | 'e' | 'w';
+
+/**
+ * A single parsed tile
+ */
+export interface TileData {
+  shape: TileShape;
+  level: number;      // Height level of the tile's lowest corner
+  walls: TileEdge[];  // Edges with a wall
+  surface: SurfaceType | null; // Surface of the tile, or null for the hole's surfaces
+}
+
+/**
+ * World heights of the four corners of a tile
+ */
+interface CornerHeights {
+  nw: number;
+  ne: number;
+  sw: number;
+  se: number;
+}
+
+type Corner = keyof CornerHeights;
+
+/**
+ * Raised corners of each shape, in levels above the tile level
+ */
+const SHAPE_CORNERS: Record<TileShape, CornerHeights> = {
+  [TileShape.FLAT]:      { nw: 0, ne: 0, sw: 0, se: 0 },
+  [TileShape.BLOCK]:     { nw: 0, ne: 0, sw: 0, se: 0 },
+  [TileShape.SLOPE_N]:   { nw: 1, ne: 1, sw: 0, se: 0 },
+  [TileShape.SLOPE_S]:   { nw: 0, ne: 0, sw: 1, se: 1 },
+  [TileShape.SLOPE_E]:   { nw: 0, ne: 1, sw: 0, se: 1 },
+  [TileShape.SLOPE_W]:   { nw: 1, ne: 0, sw: 1, se: 0 },
+  [TileShape.CORNER_NE]: { nw: 0, ne: 1, sw: 0, se: 0 },
+  [TileShape.CORNER_NW]: { nw: 1, ne: 0, sw: 0, se: 0 },
+  [TileShape.CORNER_SE]: { nw: 0, ne: 0, sw: 0, se: 1 },
+  [TileShape.CORNER_SW]: { nw: 0, ne: 0, sw: 1, se: 0 },
+  [TileShape.INNER_NE]:  { nw: 1, ne: 1, sw: 0, se: 1 },
+  [TileShape.INNER_NW]:  { nw: 1, ne: 1, sw: 1, se: 0 },
+  [TileShape.INNER_SE]:  { nw: 0, ne: 1, sw: 1, se: 1 },
+  [TileShape.INNER_SW]:  { nw: 1, ne: 0, sw: 1, se: 1 }
+};
+
+/**
+ * Tile edges: the corners along the edge, the neighbor across it and the
+ * neighbor's corners that touch the same edge
+ */
+const EDGES: Record<TileEdge, { corners: [Corner, Corner]; offset: [number, number]; facing: [Corner, Corner]; normal: THREE.Vector3 }> = {
+  n: { corners: ['nw', 'ne'], offset: [-1, 0], facing: ['sw', 'se'], normal: new THREE.Vector3(0, 0, -1) },
+  s: { corners: ['sw', 'se'], offset: [1, 0], facing: ['nw', 'ne'], normal: new THREE.Vector3(0, 0, 1) },
+  w: { corners: ['nw', 'sw'], offset: [0, -1], facing: ['ne', 'se'], normal: new THREE.Vector3(-1, 0, 0) },
+  e: { corners: ['ne', 'se'], offset: [0, 1], facing: ['nw', 'sw'], normal: new THREE.Vector3(1, 0, 0) }
+};
+
+/**
+ * TileCourseBuilder - Turns a tile grid into terrain geometry and colliders
+ *
+ * Every tile is a quad whose corners sit on height levels. The builder emits
+ * one merged, vertex-colored geometry for the whole grid (tops, cliff sides and
+ * walls) plus one collider description per tile and wall, to be attached to a
+ * single fixed body as a compound collider.
+ *
+ * Tile tops are neutral colliders; the ball applies the surface under it.
+ * Walls carry the bumper material.
+ *
+ * Sloped tops are split along the diagonal with the higher midpoint, so the
+ * rendered surface, getHeightAt() and the convex hull colliders all agree.
+ */
+export class TileCourseBuilder {
+  private tiles: (TileData | null)[][];
+  private rows: number;
+  private cols: number;
+  private tileSize: number;
+  private heightStep: number;
+  private width: number;
+  private depth: number;
+  private baseY: number;
+  
+  // Visual and physics properties
+  private baseDepth: number = 1.0;     // How far the terrain base reaches below the lowest level
+  private wallHeight: number = 0.6;    // Wall height above the tile edge
+  private wallThickness: number = 0.2;
+  
+  // Colors
+  private topColors = [new THREE.Color(0x7ec850), new THREE.Color(0x6cb840)]; // Checkerboard greens
+  private blockColor = new THREE.Color(0xc8bca8); // Stone
+  private sideColor = new THREE.Color(0xb07a4a);  // Dirt
+  private wallColor = new THREE.Color(SURFACE_MATERIALS[SurfaceType.BUMPER].color);
+  
+  /**
+   * Constructor
+   */
+  constructor(data: TileTerrainData) {
+    this.tiles = TileCourseBuilder.parseGrid(data.grid) ?? [];
+    this.rows = this.tiles.length;
+    this.cols = this.rows > 0 ? this.tiles[0].length : 0;
+    this.tileSize = data.tileSize;
+    this.heightStep = data.heightStep;
+    this.width = this.cols * this.tileSize;
+    this.depth = this.rows * this.tileSize;
+    
+    // The terrain base sits below the lowest tile
+    let minLevel = Infinity;
+    this.tiles.forEach(row => row.forEach(tile => {
+      if (tile) minLevel = Math.min(minLevel, tile.level);
+    }));
+    this.baseY = (minLevel === Infinity ? 0 : minLevel * this.heightStep) - this.baseDepth;
+  }
+  
+  /**
+   * Parse a tile grid
+   * @returns Rows of tiles (null for gaps), or null if the grid is invalid
+   */
+  public static parseGrid(grid: string[]): (TileData | null)[][] | null {
+    if (!Array.isArray(grid) || grid.length === 0) {
+      console.error('TileCourseBuilder: Tile grid has no rows');
+      return null;
+    }
+    
+    const tiles: (TileData | null)[][] = [];
+    
+    for (let row = 0; row < grid.length; row++) {
+      if (typeof grid[row] !== 'string') {
+        console.error(`TileCourseBuilder: Tile grid row ${row} is not a string`);
+        return null;
+      }
+      
+      const tokens = grid[row].trim().split(/\s+/);
+      if (row > 0 && tokens.length !== tiles[0].length) {
+        console.error(
+          `TileCourseBuilder: Tile grid row ${row} has ${tokens.length} tiles, expected ${tiles[0].length}`
+        );
+        return null;
+      }
+      
+      const rowTiles: (TileData | null)[] = [];
+      for (const token of tokens) {
+        if (token === '.') {
+          rowTiles.push(null);
+          continue;
+        }
+        
+        const tile = TileCourseBuilder.parseToken(token);
+        if (!tile) {
+          console.error(`TileCourseBuilder: Invalid tile '${token}' in row ${row}`);
+          return null;
+        }
+        
+        rowTiles.push(tile);
+      }
+      
+      tiles.push(rowTiles);
+    }
+    
+    return tiles;
+  }
+  
+  /**
+   * Parse a single tile token such as "SN2", "F0:nw" or "F1@sand"
+   */
+  public static parseToken(token: string): TileData | null {
+    const match = /^([A-Z]+)(\d+)(?::([nsew]+))?(?:@([a-z]+))?$/.exec(token);
+    if (!match) return null;
+    
+    const shape = match[1] as TileShape;
+    if (!(shape in SHAPE_CORNERS)) return null;
+    
+    const walls = match[3] ? Array.from(new Set(match[3].split(''))) as TileEdge[] : [];
+    
+    let surface: SurfaceType | null = null;
+    if (match[4]) {
+      if (!isSurfaceType(match[4])) return null;
+      surface = match[4];
+    }
+    
+    return { shape, level: parseInt(match[2], 10), walls, surface };
+  }
+  
+  /**
+   * Build the merged render geometry for the whole grid
+   */
+  public buildGeometry(): THREE.BufferGeometry {
+    const positions: number[] = [];
+    const colors: number[] = [];
+    
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        const tile = this.tiles[row][col];
+        if (!tile) continue;
+        
+        const corners = this.getCornerPoints(row, col);
+        
+        // Top surface
+        const topColor = this.getTopColor(tile, row, col);
+        const up = new THREE.Vector3(0, 1, 0);
+        
+        if (this.splitsAlongNwSe(row, col)) {
+          this.addTriangle(positions, colors, corners.nw, corners.sw, corners.se, up, topColor);
+          this.addTriangle(positions, colors, corners.nw, corners.se, corners.ne, up, topColor);
+        } else {
+          this.addTriangle(positions, colors, corners.nw, corners.sw, corners.ne, up, topColor);
+          this.addTriangle(positions, colors, corners.ne, corners.sw, corners.se, up, topColor);
+        }
+        
+        // Cliff sides down to each lower neighbor (or the base at the grid edge)
+        (Object.keys(EDGES) as TileEdge[]).forEach(edge => {
+          const { corners: [a, b], normal } = EDGES[edge];
+          const [bottomA, bottomB] = this.getEdgeBottom(row, col, edge);
+          
+          if (corners[a].y <= bottomA && corners[b].y <= bottomB) return;
+          
+          this.addQuad(
+            positions, colors,
+            corners[a],
+            corners[b],
+            new THREE.Vector3(corners[b].x, Math.min(bottomB, corners[b].y), corners[b].z),
+            new THREE.Vector3(corners[a].x, Math.min(bottomA, corners[a].y), corners[a].z),
+            normal,
+            this.sideColor
+          );
+        });
+        
+        // Walls
+        tile.walls.forEach(edge => {
+          const { center, size } = this.getWallBox(row, col, edge);
+          this.addBox(positions, colors, center, size, this.wallColor);
+        });
+      }
+    }
+    
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    geometry.computeVertexNormals();
+    geometry.computeBoundingSphere();
+    
+    return geometry;
+  }
+  
+  /**
+   * Build collider descriptions for every tile and wall
+   * Flat tiles become cuboids, sloped tiles convex hulls reaching down to the base.
+   */
+  public buildColliders(): RAPIER.ColliderDesc[] {
+    const colliders: RAPIER.ColliderDesc[] = [];
+    
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        const tile = this.tiles[row][col];
+        if (!tile) continue;
+        
+        const corners = this.getCornerPoints(row, col);
+        const isFlat = corners.nw.y === corners.ne.y &&
+          corners.nw.y === corners.sw.y &&
+          corners.nw.y === corners.se.y;
+        
+        if (isFlat) {
+          const top = corners.nw.y;
+          const halfHeight = (top - this.baseY) / 2;
+          
+          colliders.push(
+            this.applyGroundMaterial(
+              RAPIER.ColliderDesc.cuboid(this.tileSize / 2, halfHeight, this.tileSize / 2)
+                .setTranslation(
+                  (corners.nw.x + corners.se.x) / 2,
+                  top - halfHeight,
+                  (corners.nw.z + corners.se.z) / 2
+                )
+            )
+          );
+        } else {
+          // Top corners plus the same corners on the base
+          const points: number[] = [];
+          (['nw', 'ne', 'sw', 'se'] as Corner[]).forEach(corner => {
+            const p = corners[corner];
+            points.push(p.x, p.y, p.z, p.x, this.baseY, p.z);
+          });
+          
+          const hull = RAPIER.ColliderDesc.convexHull(new Float32Array(points));
+          if (hull) {
+            colliders.push(this.applyGroundMaterial(hull));
+          } else {
+            console.warn(`TileCourseBuilder: Could not build collider for tile at row ${row}, col ${col}`);
+          }
+        }
+        
+        tile.walls.forEach(edge => {
+          const { center, size } = this.getWallBox(row, col, edge);
+          const bumper = SURFACE_MATERIALS[SurfaceType.BUMPER];
+          
+          colliders.push(
+            RAPIER.ColliderDesc.cuboid(size.x / 2, size.y / 2, size.z / 2)
+              .setTranslation(center.x, center.y, center.z)
+              .setFriction(bumper.friction)
+              .setRestitution(bumper.restitution)
+          );
+        });
+      }
+    }
+    
+    return colliders;
+  }
+  
+  /**
+   * Get the surface height of the tiles at a world position
+   * Returns 0 outside the grid and over gaps.
+   */
+  public getHeightAt(x: number, z: number): number {
+    const gx = (x + this.width / 2) / this.tileSize;
+    const gz = (z + this.depth / 2) / this.tileSize;
+    
+    if (gx < 0 || gz < 0 || gx > this.cols || gz > this.rows) return 0;
+    
+    const col = Math.min(Math.floor(gx), this.cols - 1);
+    const row = Math.min(Math.floor(gz), this.rows - 1);
+    const h = this.getCornerHeights(row, col);
+    if (!h) return 0;
+    
+    const u = gx - col;
+    const v = gz - row;
+    
+    if (this.splitsAlongNwSe(row, col)) {
+      return u >= v
+        ? h.nw + u * (h.ne - h.nw) + v * (h.se - h.ne)
+        : h.nw + v * (h.sw - h.nw) + u * (h.se - h.sw);
+    }
+    
+    return u + v <= 1
+      ? h.nw + u * (h.ne - h.nw) + v * (h.sw - h.nw)
+      : h.se + (1 - u) * (h.sw - h.se) + (1 - v) * (h.ne - h.se);
+  }
+  
+  /**
+   * Get the surface of the tile at a world position
+   * Returns null for tiles without their own surface, gaps and outside the grid.
+   */
+  public getSurfaceAt(x: number, z: number): SurfaceType | null {
+    const coords = this.getTileCoords(x, z);
+    if (!coords) return null;
+    
+    const tile = this.tiles[coords.row][coords.col];
+    return tile ? tile.surface : null;
+  }
+  
+  /**
+   * Get the tile at a grid position, or null for gaps and outside the grid
+   */
+  public getTile(row: number, col: number): TileData | null {
+    if (row < 0 || col < 0 || row >= this.rows || col >= this.cols) return null;
+    return this.tiles[row][col];
+  }
+  
+  /**
+   * Get the grid position of a world position, or null outside the grid
+   */
+  public getTileCoords(x: number, z: number): { row: number; col: number } | null {
+    const col = Math.floor((x + this.width / 2) / this.tileSize);
+    const row = Math.floor((z + this.depth / 2) / this.tileSize);
+    
+    if (row < 0 || col < 0 || row >= this.rows || col >= this.cols) return null;
+    return { row, col };
+  }
+  
+  /**
+   * Get the world size of the grid
+   */
+  public getSize(): { width: number; depth: number } {
+    return { width: this.width, depth: this.depth };
+  }
+  
+  /**
+   * Get the top color of a tile
+   */
+  private getTopColor(tile: TileData, row: number, col: number): THREE.Color {
+    if (tile.shape === TileShape.BLOCK) return this.blockColor;
+    
+    const checker = this.topColors[(row + col) % 2];
+    if (!tile.surface) return checker;
+    
+    // Surface color with a slight checker variation
+    const color = new THREE.Color(SURFACE_MATERIALS[tile.surface].color);
+    return (row + col) % 2 === 0 ? color : color.multiplyScalar(0.92);
+  }
+  
+  /**
+   * Make a ground collider neutral so the ball's surface material applies
+   */
+  private applyGroundMaterial(colliderDesc: RAPIER.ColliderDesc): RAPIER.ColliderDesc {
+    return colliderDesc.setFriction(0).setRestitution(0);
+  }
+  
+  /**
+   * Get the world heights of a tile's corners, or null for gaps
+   */
+  private getCornerHeights(row: number, col: number): CornerHeights | null {
+    const tile = this.getTile(row, col);
+    if (!tile) return null;
+    
+    const offsets = SHAPE_CORNERS[tile.shape];
+    return {
+      nw: (tile.level + offsets.nw) * this.heightStep,
+      ne: (tile.level + offsets.ne) * this.heightStep,
+      sw: (tile.level + offsets.sw) * this.heightStep,
+      se: (tile.level + offsets.se) * this.heightStep
+    };
+  }
+  
+  /**
+   * Get the world positions of a tile's top corners
+   */
+  private getCornerPoints(row: number, col: number): Record<Corner, THREE.Vector3> {
+    const h = this.getCornerHeights(row, col) as CornerHeights;
+    const x0 = -this.width / 2 + col * this.tileSize;
+    const z0 = -this.depth / 2 + row * this.tileSize;
+    const x1 = x0 + this.tileSize;
+    const z1 = z0 + this.tileSize;
+    
+    return {
+      nw: new THREE.Vector3(x0, h.nw, z0),
+      ne: new THREE.Vector3(x1, h.ne, z0),
+      sw: new THREE.Vector3(x0, h.sw, z1),
+      se: new THREE.Vector3(x1, h.se, z1)
+    };
+  }
+  
+  /**
+   * Check which diagonal splits a tile's top
+   * The diagonal with the higher midpoint gives the convex top that matches the hull collider.
+   */
+  private splitsAlongNwSe(row: number, col: number): boolean {
+    const h = this.getCornerHeights(row, col);
+    if (!h) return true;
+    
+    return h.nw + h.se >= h.ne + h.sw;
+  }
+  
+  /**
+   * Get the heights a cliff side along an edge reaches down to
+   */
+  private getEdgeBottom(row: number, col: number, edge: TileEdge): [number, number] {
+    const { offset: [dRow, dCol], facing: [a, b] } = EDGES[edge];
+    const neighbor = this.getCornerHeights(row + dRow, col + dCol);
+    
+    if (!neighbor) return [this.baseY, this.baseY];
+    return [neighbor[a], neighbor[b]];
+  }
+  
+  /**
+   * Get the box of a wall along a tile edge
+   * Walls sit just inside the tile and rise above its highest edge corner.
+   */
+  private getWallBox(row: number, col: number, edge: TileEdge): { center: THREE.Vector3; size: THREE.Vector3 } {
+    const corners = this.getCornerPoints(row, col);
+    const [a, b] = EDGES[edge].corners;
+    const bottom = Math.min(corners[a].y, corners[b].y);
+    const top = Math.max(corners[a].y, corners[b].y) + this.wallHeight;
+    const t = this.wallThickness;
+    const inset = EDGES[edge].normal.clone().multiplyScalar(-t / 2);
+    
+    const center = new THREE.Vector3(
+      (corners[a].x + corners[b].x) / 2 + inset.x,
+      (bottom + top) / 2,
+      (corners[a].z + corners[b].z) / 2 + inset.z
+    );
+    
+    const alongX = edge === 'n' || edge === 's';
+    const size = new THREE.Vector3(
+      alongX ? this.tileSize : t,
+      top - bottom,
+      alongX ? t : this.tileSize
+    );
+    
+    return { center, size };
+  }
+  
+  /**
+   * Add a triangle facing the given direction, skipping degenerate ones
+   */
+  private addTriangle(
+    positions: number[],
+    colors: number[],
+    a: THREE.Vector3,
+    b: THREE.Vector3,
+    c: THREE.Vector3,
+    facing: THREE.Vector3,
+    color: THREE.Color
+  ): void {
+    const normal = new THREE.Vector3()
+      .subVectors(b, a)
+      .cross(new THREE.Vector3().subVectors(c, a));
+    
+    if (normal.lengthSq() < 1e-10) return;
+    
+    // Flip winding so the front face points the requested way
+    const points = normal.dot(facing) >= 0 ? [a, b, c] : [a, c, b];
+    
+    points.forEach(p => {
+      positions.push(p.x, p.y, p.z);
+      colors.push(color.r, color.g, color.b);
+    });
+  }
+  
+  /**
+   * Add a quad (p0..p3 in order around its outline) facing the given direction
+   */
+  private addQuad(
+    positions: number[],
+    colors: number[],
+    p0: THREE.Vector3,
+    p1: THREE.Vector3,
+    p2: THREE.Vector3,
+    p3: THREE.Vector3,
+    facing: THREE.Vector3,
+    color: THREE.Color
+  ): void {
+    this.addTriangle(positions, colors, p0, p1, p2, facing, color);
+    this.addTriangle(positions, colors, p0, p2, p3, facing, color);
+  }
+  
+  /**
+   * Add an axis-aligned box
+   */
+  private addBox(
+    positions: number[],
+    colors: number[],
+    center: THREE.Vector3,
+    size: THREE.Vector3,
+    color: THREE.Color
+  ): void {
+    const min = center.clone().addScaledVector(size, -0.5);
+    const max = center.clone().addScaledVector(size, 0.5);
+    const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z);
+    
+    // Top and bottom
+    this.addQuad(positions, colors, v(min.x, max.y, min.z), v(max.x, max.y, min.z), v(max.x, max.y, max.z), v(min.x, max.y, max.z), new THREE.Vector3(0, 1, 0), color);
+    this.addQuad(positions, colors, v(min.x, min.y, min.z), v(max.x, min.y, min.z), v(max.x, min.y, max.z), v(min.x, min.y, max.z), new THREE.Vector3(0, -1, 0), color);
+    
+    // North and south
+    this.addQuad(positions, colors, v(min.x, min.y, min.z), v(max.x, min.y, min.z), v(max.x, max.y, min.z), v(min.x, max.y, min.z), new THREE.Vector3(0, 0, -1), color);
+    this.addQuad(positions, colors, v(min.x, min.y, max.z), v(max.x, min.y, max.z), v(max.x, max.y, max.z), v(min.x, max.y, max.z), new THREE.Vector3(0, 0, 1), color);
+    
+    // West and east
+    this.addQuad(positions, colors, v(min.x, min.y, min.z), v(min.x, min.y, max.z), v(min.x, max.y, max.z), v(min.x, max.y, min.z), new THREE.Vector3(-1, 0, 0), color);
+    this.addQuad(positions, colors, v(max.x, min.y, min.z), v(max.x, min.y, max.z), v(max.x, max.y, max.z), v(max.x, max.y, min.z), new THREE.Vector3(1, 0, 0), color);
+  }
+} 
\ No newline at end of file
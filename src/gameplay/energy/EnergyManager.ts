@@ -0,0 +1,221 @@
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { ScoreChangedEvent } from '../scoring/ScoreManager';
+import { TargetHitEvent } from '../../entities/TargetEntity';
+import { HoleIntroEvent } from '../round/RoundManager';
+import { MulliganEvent } from '../mulligan/MulliganManager';
+import { Player } from '../players/Player';
+import { TurnManager } from '../players/TurnManager';
+import { EnergyUI } from '../../ui/EnergyUI';
+
+/**
+ * Options for the shot-energy economy
+ */
+export interface EnergyOptions {
+  startEnergy?: number;   // Energy every player starts the round with
+  maxEnergy?: number;     // Refunds never go above this
+  strokeCost?: number;    // Energy each stroke costs
+  penaltyCost?: number;   // Energy each penalty costs (out of bounds, hazards)
+  targetRefund?: number;  // Energy given back for knocking out a target
+  sinkRefund?: number;    // Energy given back for sinking the ball
+}
+
+/**
+ * Payload of the ENERGY_CHANGED event
+ */
+export interface EnergyChangedEvent {
+  player: Player;
+  energy: number;
+  maxEnergy: number;
+  change: number;         // Negative for costs, positive for refunds
+}
+
+/**
+ * A player's energy just before their shot
+ */
+interface ShotEnergy {
+  player: Player;
+  energy: number;
+}
+
+/**
+ * EnergyManager - Arcade shot-energy economy
+ *
+ * Every player starts the round with a pool of energy. Strokes and penalties
+ * cost energy; knocking out targets and sinking the ball give some back. A player
+ * whose ball comes to rest with no energy left is out of energy, which the game
+ * turns into GAME_OVER. Energy carries over from hole to hole. A mulligan gives
+ * the shooter back the energy they had before the shot.
+ */
+export class EnergyManager {
+  private eventSystem: EventSystem;
+  private turnManager: TurnManager;
+  private ui: EnergyUI;
+  
+  private energy: Map<Player, number> = new Map();
+  private shotEnergy: ShotEnergy | null = null;
+  
+  // Economy tuning
+  private startEnergy: number;
+  private maxEnergy: number;
+  private strokeCost: number;
+  private penaltyCost: number;
+  private targetRefund: number;
+  private sinkRefund: number;
+  
+  // Bound listeners, kept for removal
+  private boundScoreChanged: (event: ScoreChangedEvent) => void;
+  private boundTargetHit: (event: TargetHitEvent) => void;
+  private boundHoleComplete: () => void;
+  private boundHoleIntro: (event: HoleIntroEvent) => void;
+  private boundTurnChanged: () => void;
+  private boundShotStarting: () => void;
+  private boundMulliganUsed: (event: MulliganEvent) => void;
+  
+  /**
+   * Constructor
+   */
+  constructor(turnManager: TurnManager, options: EnergyOptions = {}) {
+    this.eventSystem = EventSystem.getInstance();
+    this.turnManager = turnManager;
+    this.ui = new EnergyUI();
+    
+    this.startEnergy = options.startEnergy ?? 5;
+    this.maxEnergy = options.maxEnergy ?? Math.max(this.startEnergy, 8);
+    this.strokeCost = options.strokeCost ?? 1;
+    this.penaltyCost = options.penaltyCost ?? 1;
+    this.targetRefund = options.targetRefund ?? 1;
+    this.sinkRefund = options.sinkRefund ?? 2;
+    
+    this.boundScoreChanged = this.handleScoreChanged.bind(this);
+    this.boundTargetHit = this.handleTargetHit.bind(this);
+    this.boundHoleComplete = () => this.change(this.turnManager.getActivePlayer(), this.sinkRefund);
+    this.boundHoleIntro = this.handleHoleIntro.bind(this);
+    this.boundTurnChanged = () => this.refreshUI();
+    this.boundShotStarting = this.handleShotStarting.bind(this);
+    this.boundMulliganUsed = this.handleMulliganUsed.bind(this);
+    
+    this.eventSystem.on(GameEvents.SCORE_CHANGED, this.boundScoreChanged);
+    this.eventSystem.on(GameEvents.TARGET_HIT, this.boundTargetHit);
+    this.eventSystem.on(GameEvents.HOLE_COMPLETE, this.boundHoleComplete);
+    this.eventSystem.on(GameEvents.HOLE_INTRO, this.boundHoleIntro);
+    this.eventSystem.on(GameEvents.TURN_CHANGED, this.boundTurnChanged);
+    this.eventSystem.on(GameEvents.SHOT_STARTING, this.boundShotStarting);
+    this.eventSystem.on(GameEvents.MULLIGAN_USED, this.boundMulliganUsed);
+    
+    this.startRound();
+  }
+  
+  /**
+   * Fill every player's energy for a new round
+   */
+  public startRound(): void {
+    this.turnManager.getPlayers().forEach(player => this.energy.set(player, this.startEnergy));
+    this.refreshUI();
+  }
+  
+  /**
+   * A round starts over at its first hole
+   */
+  private handleHoleIntro(event: HoleIntroEvent): void {
+    if (event.holeIndex === 0) {
+      this.startRound();
+    }
+  }
+  
+  /**
+   * Charge the active player for strokes and penalties
+   */
+  private handleScoreChanged(event: ScoreChangedEvent): void {
+    if (event.reason === 'stroke') {
+      this.change(this.turnManager.getActivePlayer(), -this.strokeCost);
+    } else if (event.reason === 'penalty') {
+      this.change(this.turnManager.getActivePlayer(), -this.penaltyCost);
+    }
+  }
+  
+  /**
+   * Remember the shooter's energy before the stroke is charged
+   */
+  private handleShotStarting(): void {
+    const player = this.turnManager.getActivePlayer();
+    this.shotEnergy = { player, energy: this.getEnergy(player) };
+  }
+  
+  /**
+   * Give back the energy the taken-back shot cost (its stroke and any penalty)
+   */
+  private handleMulliganUsed(event: MulliganEvent): void {
+    const shotEnergy = this.shotEnergy;
+    this.shotEnergy = null;
+    if (!shotEnergy || shotEnergy.player !== event.player) return;
+    
+    this.change(event.player, shotEnergy.energy - this.getEnergy(event.player));
+  }
+  
+  /**
+   * Refund the owner of the ball that knocked out a target
+   */
+  private handleTargetHit(event: TargetHitEvent): void {
+    const player = this.turnManager.getPlayers().find(entry => entry.getBall() === event.ball);
+    if (player) {
+      this.change(player, this.targetRefund);
+    }
+  }
+  
+  /**
+   * Add to (or take from) a player's energy, kept between 0 and the maximum
+   */
+  private change(player: Player, amount: number): void {
+    const current = this.getEnergy(player);
+    const energy = Math.min(Math.max(current + amount, 0), this.maxEnergy);
+    if (energy === current) return;
+    
+    this.energy.set(player, energy);
+    
+    const event: EnergyChangedEvent = {
+      player,
+      energy,
+      maxEnergy: this.maxEnergy,
+      change: energy - current
+    };
+    this.eventSystem.emit(GameEvents.ENERGY_CHANGED, event);
+    this.refreshUI();
+  }
+  
+  /**
+   * Get a player's energy
+   */
+  public getEnergy(player: Player): number {
+    return this.energy.get(player) ?? this.startEnergy;
+  }
+  
+  /**
+   * Check whether a player has run out of energy
+   * A player who has sunk their ball on this hole is safe until the next one.
+   */
+  public isOutOfEnergy(player: Player): boolean {
+    return this.getEnergy(player) <= 0 && !player.isHoledOut();
+  }
+  
+  /**
+   * Show the active player's energy
+   */
+  private refreshUI(): void {
+    this.ui.update(this.getEnergy(this.turnManager.getActivePlayer()), this.maxEnergy);
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.eventSystem.off(GameEvents.SCORE_CHANGED, this.boundScoreChanged);
+    this.eventSystem.off(GameEvents.TARGET_HIT, this.boundTargetHit);
+    this.eventSystem.off(GameEvents.HOLE_COMPLETE, this.boundHoleComplete);
+    this.eventSystem.off(GameEvents.HOLE_INTRO, this.boundHoleIntro);
+    this.eventSystem.off(GameEvents.TURN_CHANGED, this.boundTurnChanged);
+    this.eventSystem.off(GameEvents.SHOT_STARTING, this.boundShotStarting);
+    this.eventSystem.off(GameEvents.MULLIGAN_USED, this.boundMulliganUsed);
+    
+    this.ui.dispose();
+  }
+} 
\ No newline at end of file
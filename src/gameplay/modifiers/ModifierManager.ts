@@ -0,0 +1,103 @@
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { PhysicsWorld } from '../../physics/PhysicsWorld';
+import { BallEntity } from '../../entities/BallEntity';
+import { ShotController } from '../shot/ShotController';
+import { ModifierUI } from '../../ui/ModifierUI';
+import { ModifierType, ModifierEffects, MODIFIERS, combineModifiers } from './ModifierTypes';
+
+/**
+ * Payload of the MODIFIERS_APPLIED event
+ */
+export interface ModifiersAppliedEvent {
+  modifiers: ModifierType[];
+  effects: ModifierEffects;
+}
+
+/**
+ * ModifierManager - Applies the session's modifiers for the whole game
+ *
+ * World gravity is scaled through the physics world, restitution and damping
+ * on every ball, and shot power, the boost window and the trajectory preview
+ * through the shot controller, so the preview always matches the shot. The
+ * modifiers are shown on the HUD; disposing puts everything back to normal.
+ */
+export class ModifierManager {
+  private eventSystem: EventSystem;
+  private physicsWorld: PhysicsWorld;
+  private balls: BallEntity[];
+  private shotController: ShotController;
+  private ui: ModifierUI;
+  
+  private modifiers: ModifierType[];
+  private effects: ModifierEffects;
+  private baseGravity: { x: number; y: number; z: number };
+  
+  /**
+   * Constructor
+   */
+  constructor(
+    physicsWorld: PhysicsWorld,
+    balls: BallEntity[],
+    shotController: ShotController,
+    modifiers: ModifierType[]
+  ) {
+    this.eventSystem = EventSystem.getInstance();
+    this.physicsWorld = physicsWorld;
+    this.balls = balls;
+    this.shotController = shotController;
+    this.ui = new ModifierUI();
+    
+    const gravity = physicsWorld.getWorld().gravity;
+    this.baseGravity = { x: gravity.x, y: gravity.y, z: gravity.z };
+    
+    this.modifiers = [...modifiers];
+    this.effects = combineModifiers(this.modifiers);
+    this.apply(this.effects);
+    
+    this.ui.update(this.modifiers.map(type => MODIFIERS[type]));
+    
+    const event: ModifiersAppliedEvent = { modifiers: [...this.modifiers], effects: { ...this.effects } };
+    this.eventSystem.emit(GameEvents.MODIFIERS_APPLIED, event);
+    
+    if (this.modifiers.length > 0) {
+      console.log(`Modifiers: ${this.modifiers.map(type => MODIFIERS[type].name).join(', ')}`);
+    }
+  }
+  
+  /**
+   * Apply a set of effects to the world, the balls and the shot controller
+   */
+  private apply(effects: ModifierEffects): void {
+    const scale = effects.gravityScale;
+    this.physicsWorld.setGravity(this.baseGravity.x * scale, this.baseGravity.y * scale, this.baseGravity.z * scale);
+    
+    this.balls.forEach(ball => ball.setPhysicsModifier({
+      restitutionScale: effects.restitutionScale,
+      dampingScale: effects.dampingScale
+    }));
+    
+    this.shotController.applyModifiers(effects);
+  }
+  
+  /**
+   * Get the active modifiers
+   */
+  public getModifiers(): ModifierType[] {
+    return [...this.modifiers];
+  }
+  
+  /**
+   * Get the combined effects of the active modifiers
+   */
+  public getEffects(): ModifierEffects {
+    return { ...this.effects };
+  }
+  
+  /**
+   * Clean up resources, putting the physics and shots back to normal
+   */
+  public dispose(): void {
+    this.apply(combineModifiers([]));
+    this.ui.dispose();
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { SeededRandom } from '../../utils/SeededRandom';
+
+/**
+ * Session modifiers that change the physics or the rules of a whole game
+ */
+export enum ModifierType {
+  ZERO_G = 'zero_g',            // Very low gravity: long, floaty flights
+  HEAVY = 'heavy',              // Strong gravity: short, flat flights
+  BOUNCY = 'bouncy',            // The ball bounces much higher off every surface
+  SLIPPERY = 'slippery',        // Less damping: the ball rolls much further
+  POWER_SURGE = 'power_surge',  // Every shot hits harder
+  WIDE_BOOST = 'wide_boost'     // Longer window to land a perfect boost
+}
+
+/**
+ * Display and effect of a modifier
+ * Every effect is a scale on the normal value; a missing effect leaves it alone.
+ */
+export interface ModifierDefinition {
+  name: string;
+  description: string;
+  gravityScale?: number;        // World gravity
+  restitutionScale?: number;    // Ball bounciness (capped at 1)
+  dampingScale?: number;        // Ball damping in the air and on the ground
+  powerScale?: number;          // Shot power
+  boostWindowScale?: number;    // Perfect boost timing window
+}
+
+/**
+ * Modifier table
+ */
+export const MODIFIERS: Record<ModifierType, ModifierDefinition> = {
+  [ModifierType.ZERO_G]: { name: 'Zero-G', description: 'Gravity is almost gone', gravityScale: 0.3 },
+  [ModifierType.HEAVY]: { name: 'Heavy', description: 'Gravity pulls harder', gravityScale: 1.6 },
+  [ModifierType.BOUNCY]: { name: 'Bouncy', description: 'The ball bounces high', restitutionScale: 1.8 },
+  [ModifierType.SLIPPERY]: { name: 'Slippery', description: 'The ball rolls further', dampingScale: 0.4 },
+  [ModifierType.POWER_SURGE]: { name: 'Power Surge', description: 'Shots hit harder', powerScale: 1.25 },
+  [ModifierType.WIDE_BOOST]: { name: 'Wide Boost', description: 'Boost timing is easier', boostWindowScale: 3 }
+};
+
+/**
+ * Combined effect of the active modifiers
+ */
+export interface ModifierEffects {
+  gravityScale: number;
+  restitutionScale: number;
+  dampingScale: number;
+  powerScale: number;
+  boostWindowScale: number;
+}
+
+/**
+ * Effects of playing without modifiers
+ */
+export const NO_MODIFIER_EFFECTS: ModifierEffects = {
+  gravityScale: 1,
+  restitutionScale: 1,
+  dampingScale: 1,
+  powerScale: 1,
+  boostWindowScale: 1
+};
+
+/**
+ * Number of modifiers picked for each day
+ */
+export const DAILY_MODIFIER_COUNT = 2;
+
+/**
+ * Check whether a name is a known modifier type
+ */
+export function isModifierType(name: string): name is ModifierType {
+  return Object.values(ModifierType).includes(name as ModifierType);
+}
+
+/**
+ * Combine modifiers into one set of effects (scales multiply)
+ */
+export function combineModifiers(modifiers: ModifierType[]): ModifierEffects {
+  return modifiers.reduce<ModifierEffects>((effects, type) => {
+    const modifier = MODIFIERS[type];
+    return {
+      gravityScale: effects.gravityScale * (modifier.gravityScale ?? 1),
+      restitutionScale: effects.restitutionScale * (modifier.restitutionScale ?? 1),
+      dampingScale: effects.dampingScale * (modifier.dampingScale ?? 1),
+      powerScale: effects.powerScale * (modifier.powerScale ?? 1),
+      boostWindowScale: effects.boostWindowScale * (modifier.boostWindowScale ?? 1)
+    };
+  }, { ...NO_MODIFIER_EFFECTS });
+}
+
+/**
+ * Get the modifiers of a day
+ * Seeded by the UTC date (YYYY-MM-DD), so every player gets the same
+ * modifiers on the same day whatever their time zone. Two modifiers never change the same value
+ * (no Zero-G and Heavy on one day).
+ */
+export function getDailyModifiers(date: Date = new Date()): ModifierType[] {
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const random = new SeededRandom(`modifiers:${date.getUTCFullYear()}-${month}-${day}`);
+  
+  let remaining = Object.values(ModifierType) as ModifierType[];
+  const picked: ModifierType[] = [];
+  while (picked.length < DAILY_MODIFIER_COUNT && remaining.length > 0) {
+    const type = random.pick(remaining);
+    picked.push(type);
+    remaining = remaining.filter(other => !changesSameValue(type, other));
+  }
+  
+  return picked;
+}
+
+/**
+ * Check whether two modifiers change any of the same values
+ */
+function changesSameValue(a: ModifierType, b: ModifierType): boolean {
+  const keys = Object.keys(NO_MODIFIER_EFFECTS) as (keyof ModifierEffects)[];
+  return a === b || keys.some(key => MODIFIERS[a][key] !== undefined && MODIFIERS[b][key] !== undefined);
+} 
\ No newline at end of file
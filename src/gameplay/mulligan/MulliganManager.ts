@@ -0,0 +1,267 @@
+import * as THREE from 'three';
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { GameStateManager, GameState } from '../../utils/GameStateManager';
+import { BallSnapshot } from '../../entities/BallEntity';
+import { PowerUpType } from '../powerups/PowerUpTypes';
+import { AbilityType, ABILITIES } from '../abilities/AbilityTypes';
+import { AbilityEvent } from '../abilities/AbilityManager';
+import { Player } from '../players/Player';
+import { TurnManager } from '../players/TurnManager';
+import { ShotController } from '../shot/ShotController';
+import { ShotOptions } from '../shot/ShotParameterManager';
+import { ScoreManager } from '../scoring/ScoreManager';
+import { HoleIntroEvent } from '../round/RoundManager';
+import { MulliganUI } from '../../ui/MulliganUI';
+
+/**
+ * Options for mulligans
+ */
+export interface MulliganOptions {
+  limit?: number | null;  // Mulligans per player per round; null for unlimited (practice)
+}
+
+/**
+ * Payload of the MULLIGAN_USED event
+ */
+export interface MulliganEvent {
+  player: Player;
+  remaining: number | null;   // Null when unlimited
+}
+
+/**
+ * Everything a mulligan puts back, taken just before the shot
+ */
+interface ShotSnapshot {
+  player: Player;
+  balls: Map<Player, BallSnapshot>;           // Every ball on the course (the shot may knock others)
+  restPositions: Map<Player, THREE.Vector3>;  // Where penalties drop each ball
+  inventories: Map<Player, Map<PowerUpType, number>>;  // Power-ups held (the roll may use one)
+  abilities: Map<Player, AbilityType | null>;          // Copy abilities held (the shot may use one)
+  strokes: number;
+  penalties: number;
+  options: ShotOptions;
+}
+
+/**
+ * MulliganManager - Takes back the last shot
+ *
+ * Just before every shot the balls on the course, the players' power-ups and
+ * abilities, the shooter's strokes and the shot parameters are saved (the
+ * EnergyManager keeps the shooter's energy itself). A mulligan (Z) while the ball rolls, or after it
+ * stopped but before the next shot, puts them all back and returns to IDLE.
+ * Only the shooter's own turn can be taken back, and not once the shot changed
+ * the hole (knocked out a target, picked up a power-up, froze the water) or
+ * sank the ball. Practice allows any number of mulligans;
+ * otherwise each player has a limited number per round.
+ */
+export class MulliganManager {
+  private eventSystem: EventSystem;
+  private gameStateManager: GameStateManager;
+  private scoreManager: ScoreManager;
+  private turnManager: TurnManager;
+  private shotController: ShotController;
+  private ui: MulliganUI;
+  
+  private limit: number | null;
+  private used: Map<Player, number> = new Map();
+  private snapshot: ShotSnapshot | null = null;
+  
+  // Bound listeners, kept for removal
+  private boundShotStarting: () => void;
+  private boundRequest: () => void;
+  private boundInvalidate: () => void;
+  private boundAbilityUsed: (event: AbilityEvent) => void;
+  private boundHoleIntro: (event: HoleIntroEvent) => void;
+  private boundStateChange: () => void;
+  
+  /**
+   * Constructor
+   */
+  constructor(turnManager: TurnManager, shotController: ShotController, options: MulliganOptions = {}) {
+    this.eventSystem = EventSystem.getInstance();
+    this.gameStateManager = GameStateManager.getInstance();
+    this.scoreManager = ScoreManager.getInstance();
+    this.turnManager = turnManager;
+    this.shotController = shotController;
+    this.ui = new MulliganUI();
+    
+    this.limit = options.limit === undefined ? 3 : options.limit;
+    
+    this.boundShotStarting = this.takeSnapshot.bind(this);
+    this.boundRequest = this.mulligan.bind(this);
+    this.boundInvalidate = () => this.clearSnapshot();
+    this.boundAbilityUsed = event => {
+      if (ABILITIES[event.ability].changesCourse) {
+        this.clearSnapshot();
+      }
+    };
+    this.boundHoleIntro = this.handleHoleIntro.bind(this);
+    this.boundStateChange = () => this.refreshUI();
+    
+    this.eventSystem.on(GameEvents.SHOT_STARTING, this.boundShotStarting);
+    this.eventSystem.on(GameEvents.MULLIGAN_REQUEST, this.boundRequest);
+    this.eventSystem.on(GameEvents.HOLE_INTRO, this.boundHoleIntro);
+    this.eventSystem.on(GameEvents.STATE_CHANGE, this.boundStateChange);
+    
+    // Shots that changed the hole or passed the turn can't be taken back
+    this.eventSystem.on(GameEvents.TARGET_HIT, this.boundInvalidate);
+    this.eventSystem.on(GameEvents.POWERUP_COLLECTED, this.boundInvalidate);
+    this.eventSystem.on(GameEvents.ABILITY_USED, this.boundAbilityUsed);
+    this.eventSystem.on(GameEvents.HOLE_COMPLETE, this.boundInvalidate);
+    this.eventSystem.on(GameEvents.TURN_CHANGED, this.boundInvalidate);
+    this.eventSystem.on(GameEvents.GAME_OVER, this.boundInvalidate);
+  }
+  
+  /**
+   * Forget the last shot; a new round also gives every player their mulligans back
+   */
+  private handleHoleIntro(event: HoleIntroEvent): void {
+    if (event.holeIndex === 0) {
+      this.used.clear();
+    }
+    this.clearSnapshot();
+  }
+  
+  /**
+   * Save the state just before the active player's shot
+   */
+  private takeSnapshot(): void {
+    const score = this.scoreManager.getCurrentHoleScore();
+    if (!score) return;
+    
+    const balls = new Map<Player, BallSnapshot>();
+    const restPositions = new Map<Player, THREE.Vector3>();
+    const inventories = new Map<Player, Map<PowerUpType, number>>();
+    const abilities = new Map<Player, AbilityType | null>();
+    this.turnManager.getPlayers().forEach(player => {
+      if (!player.isOnCourse() || player.isHoledOut()) return;
+      
+      balls.set(player, player.getBall().getSnapshot());
+      restPositions.set(player, player.lastRestPosition.clone());
+      inventories.set(player, player.getInventory().getSnapshot());
+      abilities.set(player, player.getAbility());
+    });
+    
+    this.snapshot = {
+      player: this.turnManager.getActivePlayer(),
+      balls,
+      restPositions,
+      inventories,
+      abilities,
+      strokes: score.strokes,
+      penalties: score.penalties,
+      options: this.shotController.getShotOptions()
+    };
+    this.refreshUI();
+  }
+  
+  /**
+   * Take back the last shot if allowed
+   * @returns True if the shot was taken back
+   */
+  public mulligan(): boolean {
+    const snapshot = this.snapshot;
+    if (!snapshot) {
+      console.log('No shot to take back');
+      return false;
+    }
+    
+    const player = snapshot.player;
+    if (player !== this.turnManager.getActivePlayer() || !this.isMulliganState()) return false;
+    
+    const remaining = this.getRemaining(player);
+    if (remaining !== null && remaining <= 0) {
+      console.log(`${player.getName()} has no mulligans left this round`);
+      return false;
+    }
+    
+    // Balls, power-ups, abilities, score and shot set-up go back to just before the shot
+    snapshot.balls.forEach((ball, owner) => owner.getBall().restoreSnapshot(ball));
+    snapshot.restPositions.forEach((position, owner) => owner.lastRestPosition.copy(position));
+    snapshot.inventories.forEach((inventory, owner) => owner.getInventory().restoreSnapshot(inventory));
+    snapshot.abilities.forEach((ability, owner) => owner.setAbility(ability));
+    this.scoreManager.restoreStrokes(snapshot.strokes, snapshot.penalties);
+    this.shotController.restoreShotOptions(snapshot.options);
+    
+    if (!this.gameStateManager.isState(GameState.IDLE)) {
+      this.gameStateManager.setState(GameState.IDLE);
+    }
+    
+    this.used.set(player, (this.used.get(player) ?? 0) + 1);
+    this.snapshot = null;
+    this.refreshUI();
+    
+    const event: MulliganEvent = { player, remaining: this.getRemaining(player) };
+    this.eventSystem.emit(GameEvents.MULLIGAN_USED, event);
+    
+    console.log(`${player.getName()} took a mulligan` + (event.remaining !== null ? ` (${event.remaining} left)` : ''));
+    return true;
+  }
+  
+  /**
+   * Get a player's mulligans left this round, or null when unlimited
+   */
+  public getRemaining(player: Player): number | null {
+    if (this.limit === null) return null;
+    
+    return Math.max(this.limit - (this.used.get(player) ?? 0), 0);
+  }
+  
+  /**
+   * Check whether the last shot can be taken back
+   */
+  public canMulligan(): boolean {
+    if (!this.snapshot || this.snapshot.player !== this.turnManager.getActivePlayer()) return false;
+    if (!this.isMulliganState()) return false;
+    
+    const remaining = this.getRemaining(this.snapshot.player);
+    return remaining === null || remaining > 0;
+  }
+  
+  /**
+   * Check whether the game is in a state a shot can be taken back from
+   * (the ball rolling, or stopped before the next shot is set up)
+   */
+  private isMulliganState(): boolean {
+    return this.gameStateManager.isState(GameState.IDLE) ||
+      this.gameStateManager.isState(GameState.ROLLING) ||
+      this.gameStateManager.isState(GameState.BOOST_READY);
+  }
+  
+  /**
+   * Forget the saved shot
+   */
+  private clearSnapshot(): void {
+    this.snapshot = null;
+    this.refreshUI();
+  }
+  
+  /**
+   * Show the mulligan hint while the last shot can be taken back
+   */
+  private refreshUI(): void {
+    if (this.canMulligan() && this.snapshot) {
+      this.ui.show(this.getRemaining(this.snapshot.player));
+    } else {
+      this.ui.hide();
+    }
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.eventSystem.off(GameEvents.SHOT_STARTING, this.boundShotStarting);
+    this.eventSystem.off(GameEvents.MULLIGAN_REQUEST, this.boundRequest);
+    this.eventSystem.off(GameEvents.HOLE_INTRO, this.boundHoleIntro);
+    this.eventSystem.off(GameEvents.STATE_CHANGE, this.boundStateChange);
+    this.eventSystem.off(GameEvents.TARGET_HIT, this.boundInvalidate);
+    this.eventSystem.off(GameEvents.POWERUP_COLLECTED, this.boundInvalidate);
+    this.eventSystem.off(GameEvents.ABILITY_USED, this.boundAbilityUsed);
+    this.eventSystem.off(GameEvents.HOLE_COMPLETE, this.boundInvalidate);
+    this.eventSystem.off(GameEvents.TURN_CHANGED, this.boundInvalidate);
+    this.eventSystem.off(GameEvents.GAME_OVER, this.boundInvalidate);
+    
+    this.ui.dispose();
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+import { BallEntity } from '../../entities/BallEntity';
+import { PowerUpInventory } from '../powerups/PowerUpInventory';
+import { AbilityType } from '../abilities/AbilityTypes';
+
+/**
+ * Ball colors of players 1 to 4
+ */
+export const PLAYER_COLORS: number[] = [0xffffff, 0xff69b4, 0x55aaff, 0xffcc33];
+
+/**
+ * Player - One participant of a local match and their ball
+ *
+ * All balls on the course are live, so the active ball can knock the others
+ * around. A player's ball isn't on the course until their first turn on a hole,
+ * so balls never start stacked on the tee. Power-ups picked up on a hole are
+ * kept until used or until the next hole starts, as is the copy ability, which
+ * is also lost when the ball goes into a hazard.
+ */
+export class Player {
+  private index: number;
+  private name: string;
+  private color: number;
+  private ball: BallEntity;
+  private inventory: PowerUpInventory = new PowerUpInventory();
+  private ability: AbilityType | null = null;
+  
+  // Hole progress
+  private onCourse: boolean = false;     // Ball has been placed on the tee this hole
+  private holedOut: boolean = false;     // Ball was sunk this hole
+  
+  // Drop-back spot after a penalty (where the ball last came to rest)
+  public readonly lastRestPosition: THREE.Vector3 = new THREE.Vector3();
+  
+  /**
+   * Constructor
+   */
+  constructor(index: number, name: string, color: number, ball: BallEntity) {
+    this.index = index;
+    this.name = name;
+    this.color = color;
+    this.ball = ball;
+    
+    this.ball.setColor(color);
+    this.ball.setOwner(this.getId());
+  }
+  
+  /**
+   * Take the ball off the course and get ready to play a hole from its tee
+   */
+  public resetForHole(tee: THREE.Vector3): void {
+    this.ball.setSpawnPosition(tee);
+    this.ball.setInPlay(false);
+    this.lastRestPosition.copy(tee);
+    this.onCourse = false;
+    this.holedOut = false;
+    this.inventory.clear();
+    this.ability = null;
+  }
+  
+  /**
+   * Make this player's ball the one in play
+   * On the first turn of a hole the ball is placed on the tee.
+   */
+  public activate(): void {
+    if (this.holedOut) return;
+    
+    if (!this.onCourse) {
+      this.ball.setInPlay(true);
+      this.ball.reset();
+      this.onCourse = true;
+    }
+  }
+  
+  /**
+   * Take the sunk ball off the course for the rest of the hole
+   */
+  public holeOut(): void {
+    this.holedOut = true;
+    this.ball.setInPlay(false);
+  }
+  
+  /**
+   * Get the player's id, used as the owner of their ball
+   */
+  public getId(): string {
+    return `player-${this.index + 1}`;
+  }
+  
+  /**
+   * Check whether the player's ball is on the course (placed and not holed out)
+   */
+  public isOnCourse(): boolean {
+    return this.onCourse && !this.holedOut;
+  }
+  
+  /**
+   * Get the player's position in the turn order (0-based)
+   */
+  public getIndex(): number {
+    return this.index;
+  }
+  
+  /**
+   * Get the player's display name
+   */
+  public getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the player's ball color
+   */
+  public getColor(): number {
+    return this.color;
+  }
+  
+  /**
+   * Get the player's ball
+   */
+  public getBall(): BallEntity {
+    return this.ball;
+  }
+  
+  /**
+   * Get the player's unused power-ups
+   */
+  public getInventory(): PowerUpInventory {
+    return this.inventory;
+  }
+  
+  /**
+   * Get the player's copy ability (null if none)
+   */
+  public getAbility(): AbilityType | null {
+    return this.ability;
+  }
+  
+  /**
+   * Set the player's copy ability (a new one replaces the old one)
+   */
+  public setAbility(ability: AbilityType | null): void {
+    this.ability = ability;
+  }
+  
+  /**
+   * Check whether the player has sunk their ball on this hole
+   */
+  public isHoledOut(): boolean {
+    return this.holedOut;
+  }
+} 
\ No newline at end of file
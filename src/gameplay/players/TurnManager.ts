@@ -0,0 +1,152 @@
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { GameStateManager, GameState } from '../../utils/GameStateManager';
+import { ScoreManager } from '../scoring/ScoreManager';
+import { TurnIndicatorUI } from '../../ui/TurnIndicatorUI';
+import { Player } from './Player';
+
+/**
+ * Payload of the TURN_CHANGED event
+ */
+export interface TurnChangedEvent {
+  player: Player;
+  previous: Player | null;    // Null at the start of a hole
+}
+
+/**
+ * TurnManager - Hot-seat turn order for 2 to 4 players on one machine
+ *
+ * Players take one shot each in order. A turn ends when the balls come to rest
+ * (or the ball is dropped after a penalty); players who have holed out are skipped.
+ * On every change the new player's ball is put in play if it isn't yet, and
+ * TURN_CHANGED tells the game to hand the shot controls and the camera over.
+ */
+export class TurnManager {
+  private eventSystem: EventSystem;
+  private gameStateManager: GameStateManager;
+  private scoreManager: ScoreManager;
+  private indicator: TurnIndicatorUI;
+  
+  private players: Player[];
+  private activeIndex: number = 0;
+  private shotInPlay: boolean = false;    // The active player has hit and the turn hasn't ended yet
+  
+  // Bound state listener, kept for removal
+  private boundShotStarted: () => void;
+  
+  /**
+   * Constructor
+   */
+  constructor(players: Player[]) {
+    this.eventSystem = EventSystem.getInstance();
+    this.gameStateManager = GameStateManager.getInstance();
+    this.scoreManager = ScoreManager.getInstance();
+    this.indicator = new TurnIndicatorUI();
+    this.players = players;
+    
+    // A shot is in play once the ball starts rolling
+    this.boundShotStarted = () => {
+      this.shotInPlay = true;
+    };
+    this.gameStateManager.onEnterState(GameState.ROLLING, this.boundShotStarted);
+    
+    // The turn indicator only matters with more than one player
+    if (this.players.length > 1) {
+      this.indicator.show();
+    }
+  }
+  
+  /**
+   * Start a hole with the first player
+   * Call this after every player was reset to the new tee.
+   */
+  public startHole(): void {
+    this.shotInPlay = false;
+    this.setActive(0, null);
+  }
+  
+  /**
+   * End the active player's turn and pass to the next player still on the hole
+   * Called when the ball stops (or is dropped after a penalty); does nothing if
+   * no shot was taken this turn.
+   */
+  public endTurn(): void {
+    if (!this.shotInPlay) return;
+    this.shotInPlay = false;
+    
+    const next = this.findNextPlayer();
+    if (next === -1 || next === this.activeIndex) return;
+    
+    this.setActive(next, this.getActivePlayer());
+  }
+  
+  /**
+   * Mark the active player's ball as sunk
+   * @returns True when every player has holed out
+   */
+  public holeOutActivePlayer(): boolean {
+    this.getActivePlayer().holeOut();
+    return this.isHoleComplete();
+  }
+  
+  /**
+   * Check whether every player has holed out
+   */
+  public isHoleComplete(): boolean {
+    return this.players.every(player => player.isHoledOut());
+  }
+  
+  /**
+   * Index of the next player in order who hasn't holed out, or -1 if none
+   */
+  private findNextPlayer(): number {
+    for (let offset = 1; offset <= this.players.length; offset++) {
+      const index = (this.activeIndex + offset) % this.players.length;
+      if (!this.players[index].isHoledOut()) {
+        return index;
+      }
+    }
+    
+    return -1;
+  }
+  
+  /**
+   * Hand the turn to a player
+   */
+  private setActive(index: number, previous: Player | null): void {
+    this.activeIndex = index;
+    const player = this.players[index];
+    player.activate();
+    
+    this.scoreManager.setActivePlayer(index);
+    this.indicator.setPlayer(player.getName(), player.getColor());
+    
+    const event: TurnChangedEvent = { player, previous };
+    this.eventSystem.emit(GameEvents.TURN_CHANGED, event);
+    
+    if (this.players.length > 1) {
+      console.log(`${player.getName()}'s turn`);
+    }
+  }
+  
+  /**
+   * Get the player whose turn it is
+   */
+  public getActivePlayer(): Player {
+    return this.players[this.activeIndex];
+  }
+  
+  /**
+   * Get all players in turn order
+   */
+  public getPlayers(): Player[] {
+    return this.players;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.gameStateManager.removeEnterStateListener(GameState.ROLLING, this.boundShotStarted);
+    this.indicator.dispose();
+  }
+} 
\ No newline at end of file
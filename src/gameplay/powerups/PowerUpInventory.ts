@@ -0,0 +1,87 @@
+import { PowerUpType } from './PowerUpTypes';
+
+/**
+ * PowerUpInventory - The power-ups a player has picked up and not used yet
+ *
+ * Holds up to a fixed number of power-ups in total; pickups beyond that are
+ * left on the course.
+ */
+export class PowerUpInventory {
+  private counts: Map<PowerUpType, number> = new Map();
+  private capacity: number;
+  
+  /**
+   * Constructor
+   * @param capacity Most power-ups held at once
+   */
+  constructor(capacity: number = 3) {
+    this.capacity = capacity;
+  }
+  
+  /**
+   * Add a power-up
+   * @returns False if the inventory is full
+   */
+  public add(type: PowerUpType): boolean {
+    if (this.getTotal() >= this.capacity) return false;
+    
+    this.counts.set(type, this.getCount(type) + 1);
+    return true;
+  }
+  
+  /**
+   * Take one power-up of a type out to use it
+   * @returns False if there is none of that type
+   */
+  public take(type: PowerUpType): boolean {
+    const count = this.getCount(type);
+    if (count === 0) return false;
+    
+    this.counts.set(type, count - 1);
+    return true;
+  }
+  
+  /**
+   * Get how many power-ups of a type are held
+   */
+  public getCount(type: PowerUpType): number {
+    return this.counts.get(type) ?? 0;
+  }
+  
+  /**
+   * Get how many power-ups are held in total
+   */
+  public getTotal(): number {
+    let total = 0;
+    this.counts.forEach(count => total += count);
+    return total;
+  }
+  
+  /**
+   * Check whether the inventory can take another power-up
+   */
+  public isFull(): boolean {
+    return this.getTotal() >= this.capacity;
+  }
+  
+  /**
+   * Get a copy of the held power-ups, to put back later
+   */
+  public getSnapshot(): Map<PowerUpType, number> {
+    return new Map(this.counts);
+  }
+  
+  /**
+   * Put back power-ups saved with getSnapshot
+   */
+  public restoreSnapshot(snapshot: Map<PowerUpType, number>): void {
+    this.counts = new Map(snapshot);
+  }
+  
+  /**
+   * Remove all power-ups
+   */
+  public clear(): void {
+    this.counts.clear();
+  }
+} 
\ No newline at end of file
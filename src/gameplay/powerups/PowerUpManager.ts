@@ -0,0 +1,282 @@
+import * as THREE from 'three';
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { GameStateManager, GameState } from '../../utils/GameStateManager';
+import { PhysicsWorld } from '../../physics/PhysicsWorld';
+import { BallEntity } from '../../entities/BallEntity';
+import { PickupReachedEvent } from '../../entities/PickupEntity';
+import { Player } from '../players/Player';
+import { TurnManager } from '../players/TurnManager';
+import { PowerUpUI } from '../../ui/PowerUpUI';
+import { PowerUpType, POWER_UPS } from './PowerUpTypes';
+
+/**
+ * Payload of the POWERUP_COLLECTED event
+ */
+export interface PowerUpCollectedEvent {
+  player: Player;
+  type: PowerUpType;
+}
+
+/**
+ * Payload of the POWERUP_ACTIVATED and POWERUP_EXPIRED events
+ */
+export interface PowerUpEffectEvent {
+  player: Player;
+  ball: BallEntity;
+  type: PowerUpType;
+}
+
+/**
+ * A running power-up effect
+ */
+interface ActiveEffect {
+  player: Player;
+  ball: BallEntity;
+  type: PowerUpType;
+  remaining: number;      // Seconds of physics time left
+  revert: () => void;     // Undoes everything the effect changed on the ball
+}
+
+/**
+ * PowerUpManager - Collects power-ups into the players' inventories and runs their effects
+ *
+ * A ball rolling into a pickup stores it with the ball's owner. The active
+ * player can use one while their ball rolls; only one effect runs at a time.
+ * Effect time counts fixed physics steps, and every effect is undone when its
+ * time is up, when the ball comes to rest or when the shot ends any other way.
+ */
+export class PowerUpManager {
+  private eventSystem: EventSystem;
+  private gameStateManager: GameStateManager;
+  private physicsWorld: PhysicsWorld;
+  private turnManager: TurnManager;
+  private ui: PowerUpUI;
+  
+  private activeEffect: ActiveEffect | null = null;
+  
+  // Effect tuning
+  private rocketDashSpeed: number = 8;      // Speed added along the ball's path
+  private stickyFriction: number = 2;
+  private stickyDamping: number = 2.5;
+  private gravityFlipScale: number = -1;
+  
+  // Bound listeners, kept for removal
+  private boundPickupReached: (event: PickupReachedEvent) => void;
+  private boundActivate: (type: PowerUpType) => void;
+  private boundBallAtRest: (position: THREE.Vector3, ball: BallEntity) => void;
+  private boundTurnChanged: () => void;
+  private boundMulliganUsed: () => void;
+  private boundStep: (timestep: number) => void;
+  
+  /**
+   * Constructor
+   */
+  constructor(physicsWorld: PhysicsWorld, turnManager: TurnManager) {
+    this.eventSystem = EventSystem.getInstance();
+    this.gameStateManager = GameStateManager.getInstance();
+    this.physicsWorld = physicsWorld;
+    this.turnManager = turnManager;
+    this.ui = new PowerUpUI();
+    
+    this.boundPickupReached = this.handlePickupReached.bind(this);
+    this.boundActivate = type => this.activate(type);
+    this.boundBallAtRest = this.handleBallAtRest.bind(this);
+    this.boundTurnChanged = () => this.refreshUI();
+    this.boundMulliganUsed = () => this.refreshUI();
+    this.boundStep = this.step.bind(this);
+    
+    this.eventSystem.on(GameEvents.PICKUP_REACHED, this.boundPickupReached);
+    this.eventSystem.on(GameEvents.POWERUP_ACTIVATE, this.boundActivate);
+    this.eventSystem.on(GameEvents.BALL_AT_REST, this.boundBallAtRest);
+    this.eventSystem.on(GameEvents.TURN_CHANGED, this.boundTurnChanged);
+    
+    // A mulligan gives back the power-up used on the shot
+    this.eventSystem.on(GameEvents.MULLIGAN_USED, this.boundMulliganUsed);
+    
+    // Effect time runs with the simulation
+    this.physicsWorld.addStepCallback(this.boundStep);
+  }
+  
+  /**
+   * Get ready for a new hole
+   * Call this after the players were reset (which empties their inventories).
+   */
+  public startHole(): void {
+    this.endEffect();
+    this.refreshUI();
+  }
+  
+  /**
+   * Store a reached pickup with the owner of the ball that reached it
+   */
+  private handlePickupReached(event: PickupReachedEvent): void {
+    const player = this.findPlayer(event.ball);
+    if (!player) return;
+    
+    // A full inventory leaves the pickup on the course
+    if (!player.getInventory().add(event.type)) {
+      console.log(`${player.getName()} can't carry more power-ups`);
+      return;
+    }
+    
+    event.pickup.collect();
+    
+    const collected: PowerUpCollectedEvent = { player, type: event.type };
+    this.eventSystem.emit(GameEvents.POWERUP_COLLECTED, collected);
+    this.refreshUI();
+    
+    console.log(`${player.getName()} picked up ${POWER_UPS[event.type].name}`);
+  }
+  
+  /**
+   * Use one of the active player's power-ups on their rolling ball
+   * @returns False if the ball isn't rolling, an effect is already running or
+   * the player has none of that type
+   */
+  public activate(type: PowerUpType): boolean {
+    if (!this.isBallRolling()) return false;
+    
+    if (this.activeEffect) {
+      console.log(`${POWER_UPS[this.activeEffect.type].name} is still running`);
+      return false;
+    }
+    
+    const player = this.turnManager.getActivePlayer();
+    if (!player.getInventory().take(type)) return false;
+    
+    const ball = player.getBall();
+    this.activeEffect = {
+      player,
+      ball,
+      type,
+      remaining: POWER_UPS[type].duration,
+      revert: this.applyEffect(type, ball)
+    };
+    
+    const event: PowerUpEffectEvent = { player, ball, type };
+    this.eventSystem.emit(GameEvents.POWERUP_ACTIVATED, event);
+    this.refreshUI();
+    
+    console.log(`${player.getName()} used ${POWER_UPS[type].name}`);
+    return true;
+  }
+  
+  /**
+   * Start a power-up's effect on a ball
+   * @returns A function that undoes the effect
+   */
+  private applyEffect(type: PowerUpType, ball: BallEntity): () => void {
+    switch (type) {
+      case PowerUpType.ROCKET_DASH: {
+        // Kick along the ball's path and coast without drag while it lasts
+        const direction = ball.getVelocity().setY(0);
+        if (direction.lengthSq() > 0) {
+          const impulse = direction.normalize().multiplyScalar(this.rocketDashSpeed * ball.getRigidBody().mass());
+          ball.applyImpulse(impulse);
+        }
+        
+        ball.setSurfaceOverride({ damping: 0 });
+        return () => ball.setSurfaceOverride(null);
+      }
+      
+      case PowerUpType.STICKY:
+        // Grip the ground and stop bouncing
+        ball.setSurfaceOverride({ friction: this.stickyFriction, restitution: 0, damping: this.stickyDamping });
+        return () => ball.setSurfaceOverride(null);
+      
+      case PowerUpType.GRAVITY_FLIP:
+        ball.setGravityScale(type, this.gravityFlipScale);
+        return () => ball.setGravityScale(type, null);
+    }
+  }
+  
+  /**
+   * Count down the running effect by one fixed physics step
+   */
+  private step(timestep: number): void {
+    if (!this.activeEffect) return;
+    
+    // The shot ended some other way (sunk, penalty, canceled)
+    if (!this.isBallRolling()) {
+      this.endEffect();
+      return;
+    }
+    
+    this.activeEffect.remaining -= timestep;
+    if (this.activeEffect.remaining <= 0) {
+      this.endEffect();
+    }
+  }
+  
+  /**
+   * End the effect when its ball comes to rest
+   */
+  private handleBallAtRest(position: THREE.Vector3, ball: BallEntity): void {
+    if (this.activeEffect && this.activeEffect.ball === ball) {
+      this.endEffect();
+    }
+  }
+  
+  /**
+   * Undo the running effect, if any
+   */
+  public endEffect(): void {
+    const effect = this.activeEffect;
+    if (!effect) return;
+    
+    this.activeEffect = null;
+    effect.revert();
+    
+    const event: PowerUpEffectEvent = { player: effect.player, ball: effect.ball, type: effect.type };
+    this.eventSystem.emit(GameEvents.POWERUP_EXPIRED, event);
+    this.refreshUI();
+  }
+  
+  /**
+   * Check whether the shot's ball is rolling
+   */
+  private isBallRolling(): boolean {
+    return this.gameStateManager.isState(GameState.ROLLING) ||
+      this.gameStateManager.isState(GameState.BOOST_READY);
+  }
+  
+  /**
+   * Find the player a ball belongs to
+   */
+  private findPlayer(ball: BallEntity): Player | null {
+    return this.turnManager.getPlayers().find(player => player.getBall() === ball) ?? null;
+  }
+  
+  /**
+   * Show the active player's power-ups
+   */
+  private refreshUI(): void {
+    this.ui.update(
+      this.turnManager.getActivePlayer().getInventory(),
+      this.activeEffect ? this.activeEffect.type : null
+    );
+  }
+  
+  /**
+   * Get the type of the running effect, or null
+   */
+  public getActiveEffect(): PowerUpType | null {
+    return this.activeEffect ? this.activeEffect.type : null;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.endEffect();
+    
+    this.eventSystem.off(GameEvents.PICKUP_REACHED, this.boundPickupReached);
+    this.eventSystem.off(GameEvents.POWERUP_ACTIVATE, this.boundActivate);
+    this.eventSystem.off(GameEvents.BALL_AT_REST, this.boundBallAtRest);
+    this.eventSystem.off(GameEvents.TURN_CHANGED, this.boundTurnChanged);
+    this.eventSystem.off(GameEvents.MULLIGAN_USED, this.boundMulliganUsed);
+    this.physicsWorld.removeStepCallback(this.boundStep);
+    
+    this.ui.dispose();
+  }
+} 
\ No newline at end of file
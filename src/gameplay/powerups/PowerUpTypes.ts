@@ -0,0 +1,34 @@
+/**
+ * Mid-roll power-ups
+ */
+export enum PowerUpType {
+  ROCKET_DASH = 'rocket_dash',  // Burst of thrust along the ball's path
+  STICKY = 'sticky',            // Ball grips the surface and stops bouncing
+  GRAVITY_FLIP = 'gravity_flip' // Gravity pulls the ball up for a moment
+}
+
+/**
+ * Display and timing of a power-up
+ */
+export interface PowerUpDefinition {
+  name: string;
+  duration: number;   // Seconds the effect lasts (it also ends when the ball stops)
+  color: number;      // Pickup and HUD color
+  key: string;        // Key code that uses it while the ball rolls
+}
+
+/**
+ * Power-up table
+ */
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  [PowerUpType.ROCKET_DASH]: { name: 'Rocket Dash', duration: 0.6, color: 0xff5533, key: 'Digit1' },
+  [PowerUpType.STICKY]: { name: 'Sticky', duration: 3, color: 0x66dd44, key: 'Digit2' },
+  [PowerUpType.GRAVITY_FLIP]: { name: 'Gravity Flip', duration: 1, color: 0xaa66ff, key: 'Digit3' }
+};
+
+/**
+ * Check whether a name is a known power-up type
+ */
+export function isPowerUpType(name: string): name is PowerUpType {
+  return Object.values(PowerUpType).includes(name as PowerUpType);
+} 
\ No newline at end of file
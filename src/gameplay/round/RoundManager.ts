@@ -0,0 +1,256 @@
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { GameStateManager, GameState } from '../../utils/GameStateManager';
+import { ScoreManager } from '../scoring/ScoreManager';
+import { HoleScore } from '../scoring/Scorecard';
+import { HoleData } from '../course/CourseTypes';
+import { RoundBannerUI } from '../../ui/RoundBannerUI';
+
+/**
+ * Payload of the HOLE_INTRO event
+ */
+export interface HoleIntroEvent {
+  holeIndex: number;      // 0-based index in the round
+  holeCount: number;
+  hole: HoleData;
+}
+
+/**
+ * One player's result of a round
+ */
+export interface PlayerRoundResult {
+  player: string;
+  holes: HoleScore[];
+  totalStrokes: number;
+  totalPar: number;
+  relativeToPar: number;
+}
+
+/**
+ * Payload of the ROUND_COMPLETE event
+ */
+export interface RoundCompleteEvent {
+  courseName: string;
+  results: PlayerRoundResult[];   // In turn order
+}
+
+/**
+ * Payload of the GAME_OVER event
+ */
+export interface GameOverEvent {
+  courseName: string;
+  holeIndex: number;      // 0-based index of the hole the round was lost on
+  reason: string;
+}
+
+/**
+ * Options for the round manager
+ */
+export interface RoundManagerOptions {
+  introDuration?: number;       // ms the hole intro shows before play starts
+  holeCompleteDelay?: number;   // ms after sinking before the next hole (or the summary)
+}
+
+/**
+ * RoundManager - Plays through the holes of a course in order
+ *
+ * Each hole goes through HOLE_INTRO, play (IDLE and the shot states) and
+ * HOLE_COMPLETE. After the last hole the round ends in ROUND_COMPLETE; a lost
+ * round (out of energy) ends early in GAME_OVER. Building
+ * a hole (tearing down the previous one and placing the ball on the tee) is left
+ * to the buildHole callback, so the round only decides which hole comes next.
+ */
+export class RoundManager {
+  private eventSystem: EventSystem;
+  private gameStateManager: GameStateManager;
+  private scoreManager: ScoreManager;
+  private banner: RoundBannerUI;
+  
+  private courseName: string;
+  private holes: HoleData[];
+  private buildHole: (hole: HoleData) => void;
+  private currentHoleIndex: number = 0;
+  
+  // Timing
+  private introDuration: number;
+  private holeCompleteDelay: number;
+  private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  /**
+   * Constructor
+   * @param buildHole Builds a hole's entities and places the ball on its tee
+   */
+  constructor(
+    courseName: string,
+    holes: HoleData[],
+    buildHole: (hole: HoleData) => void,
+    options: RoundManagerOptions = {}
+  ) {
+    this.eventSystem = EventSystem.getInstance();
+    this.gameStateManager = GameStateManager.getInstance();
+    this.scoreManager = ScoreManager.getInstance();
+    this.banner = new RoundBannerUI();
+    
+    this.courseName = courseName;
+    this.holes = holes;
+    this.buildHole = buildHole;
+    this.introDuration = options.introDuration ?? 2000;
+    this.holeCompleteDelay = options.holeCompleteDelay ?? 3000;
+  }
+  
+  /**
+   * Start a new round from the first hole
+   */
+  public startRound(): void {
+    if (this.holes.length === 0) {
+      console.error('Cannot start a round without holes');
+      return;
+    }
+    
+    this.scoreManager.startRound();
+    this.enterHole(0);
+  }
+  
+  /**
+   * Build a hole and show its intro, then hand over to play
+   */
+  private enterHole(index: number): void {
+    this.clearPendingTimer();
+    this.currentHoleIndex = index;
+    
+    const hole = this.holes[index];
+    this.buildHole(hole);
+    
+    if (!this.gameStateManager.setState(GameState.HOLE_INTRO)) return;
+    
+    this.banner.showHoleIntro(index + 1, this.holes.length, hole.name, hole.par);
+    
+    const event: HoleIntroEvent = {
+      holeIndex: index,
+      holeCount: this.holes.length,
+      hole
+    };
+    this.eventSystem.emit(GameEvents.HOLE_INTRO, event);
+    
+    console.log(`Hole ${index + 1}/${this.holes.length}: '${hole.name}' (par ${hole.par})`);
+    
+    this.pendingTimer = setTimeout(() => {
+      this.pendingTimer = null;
+      this.banner.hide();
+      
+      if (this.gameStateManager.isState(GameState.HOLE_INTRO)) {
+        this.gameStateManager.setState(GameState.IDLE);
+      }
+    }, this.introDuration);
+  }
+  
+  /**
+   * Move on after the current hole was completed
+   * Called once the ball is sunk and the state is HOLE_COMPLETE.
+   */
+  public completeHole(): void {
+    this.clearPendingTimer();
+    
+    this.pendingTimer = setTimeout(() => {
+      this.pendingTimer = null;
+      if (!this.gameStateManager.isState(GameState.HOLE_COMPLETE)) return;
+      
+      if (this.isLastHole()) {
+        this.completeRound();
+      } else {
+        this.enterHole(this.currentHoleIndex + 1);
+      }
+    }, this.holeCompleteDelay);
+  }
+  
+  /**
+   * End the round and show the summary
+   */
+  private completeRound(): void {
+    if (!this.gameStateManager.setState(GameState.ROUND_COMPLETE)) return;
+    
+    const scorecards = this.scoreManager.getScorecards();
+    const event: RoundCompleteEvent = {
+      courseName: this.courseName,
+      results: scorecards.map(scorecard => ({
+        player: scorecard.getPlayerName(),
+        holes: scorecard.getHoles().map(hole => ({ ...hole })),
+        totalStrokes: scorecard.getTotalStrokes(),
+        totalPar: scorecard.getTotalPar(),
+        relativeToPar: scorecard.getRelativeScore()
+      }))
+    };
+    
+    this.banner.showRoundComplete(scorecards);
+    this.eventSystem.emit(GameEvents.ROUND_COMPLETE, event);
+    
+    event.results.forEach(result => {
+      console.log(`Round complete! ${result.player}: ${result.totalStrokes} strokes (par ${result.totalPar})`);
+    });
+  }
+  
+  /**
+   * End the round early because it was lost
+   * @param reason Shown on the banner (e.g. who ran out of energy)
+   */
+  public gameOver(reason: string): void {
+    this.clearPendingTimer();
+    if (!this.gameStateManager.setState(GameState.GAME_OVER)) return;
+    
+    const event: GameOverEvent = {
+      courseName: this.courseName,
+      holeIndex: this.currentHoleIndex,
+      reason
+    };
+    
+    this.banner.showGameOver(reason);
+    this.eventSystem.emit(GameEvents.GAME_OVER, event);
+    
+    console.log(`Game over on hole ${this.currentHoleIndex + 1}: ${reason}`);
+  }
+  
+  /**
+   * Cancel a scheduled intro end or hole change
+   */
+  private clearPendingTimer(): void {
+    if (this.pendingTimer !== null) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+  }
+  
+  /**
+   * Get the hole being played
+   */
+  public getCurrentHole(): HoleData {
+    return this.holes[this.currentHoleIndex];
+  }
+  
+  /**
+   * Get the 0-based index of the hole being played
+   */
+  public getCurrentHoleIndex(): number {
+    return this.currentHoleIndex;
+  }
+  
+  /**
+   * Get the number of holes in the round
+   */
+  public getHoleCount(): number {
+    return this.holes.length;
+  }
+  
+  /**
+   * Check whether the current hole is the last of the round
+   */
+  public isLastHole(): boolean {
+    return this.currentHoleIndex >= this.holes.length - 1;
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.clearPendingTimer();
+    this.banner.dispose();
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { HoleResult, MedalTier, compareMedals } from './HoleResults';
+
+/**
+ * Best results of one course, by hole id
+ */
+type CourseResults = Record<string, HoleResult>;
+
+/**
+ * HoleResultStore - Singleton that keeps the best result of every hole in local storage
+ *
+ * Results are stored per course under one key each. A new result replaces the
+ * stored one if it earned a better medal, or the same medal in fewer strokes.
+ * Without local storage (private browsing, tests) results only last the session.
+ */
+export class HoleResultStore {
+  private static instance: HoleResultStore | null = null;
+  private static readonly KEY_PREFIX = 'sanko-rollers:results:';
+  
+  // Courses loaded so far, by course name
+  private courses: Map<string, CourseResults> = new Map();
+  
+  /**
+   * Private constructor (singleton pattern)
+   */
+  private constructor() {}
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): HoleResultStore {
+    if (!HoleResultStore.instance) {
+      HoleResultStore.instance = new HoleResultStore();
+    }
+    
+    return HoleResultStore.instance;
+  }
+  
+  /**
+   * Record a hole result, keeping it if it beats the stored one
+   * @returns True if it is the new best for the hole
+   */
+  public record(courseName: string, result: HoleResult): boolean {
+    const results = this.load(courseName);
+    const best = results[result.holeId];
+    
+    if (best && !HoleResultStore.isBetter(result, best)) return false;
+    
+    results[result.holeId] = { ...result };
+    this.save(courseName, results);
+    return true;
+  }
+  
+  /**
+   * Get the best result of a hole, or null if it was never completed
+   */
+  public getBestResult(courseName: string, holeId: string): HoleResult | null {
+    const result = this.load(courseName)[holeId];
+    return result ? { ...result } : null;
+  }
+  
+  /**
+   * Get the best medal earned on any hole of a course, or null if none
+   */
+  public getBestMedal(courseName: string): MedalTier | null {
+    return Object.values(this.load(courseName)).reduce<MedalTier | null>(
+      (best, result) => (!best || compareMedals(result.medal, best) > 0 ? result.medal : best),
+      null
+    );
+  }
+  
+  /**
+   * Check whether a result beats another: better medal, then fewer strokes
+   */
+  private static isBetter(result: HoleResult, other: HoleResult): boolean {
+    const medal = compareMedals(result.medal, other.medal);
+    return medal > 0 || (medal === 0 && result.strokes < other.strokes);
+  }
+  
+  /**
+   * Get a course's results, reading them from local storage the first time
+   */
+  private load(courseName: string): CourseResults {
+    let results = this.courses.get(courseName);
+    if (results) return results;
+    
+    results = {};
+    try {
+      const json = window.localStorage.getItem(HoleResultStore.KEY_PREFIX + courseName);
+      const parsed = json ? JSON.parse(json) : null;
+      if (parsed && typeof parsed === 'object') {
+        results = parsed as CourseResults;
+      }
+    } catch (error) {
+      console.warn(`Could not read results for '${courseName}':`, error);
+    }
+    
+    this.courses.set(courseName, results);
+    return results;
+  }
+  
+  /**
+   * Write a course's results to local storage
+   */
+  private save(courseName: string, results: CourseResults): void {
+    this.courses.set(courseName, results);
+    
+    try {
+      window.localStorage.setItem(HoleResultStore.KEY_PREFIX + courseName, JSON.stringify(results));
+    } catch (error) {
+      console.warn(`Could not save results for '${courseName}':`, error);
+    }
+  }
+  
+  /**
+   * Reset the HoleResultStore (for testing or game reset)
+   */
+  public static resetInstance(): void {
+    HoleResultStore.instance = null;
+  }
+} 
\ No newline at end of file
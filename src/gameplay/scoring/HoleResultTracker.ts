@@ -0,0 +1,170 @@
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { GameStateManager, GameState } from '../../utils/GameStateManager';
+import { Player } from '../players/Player';
+import { TurnManager, TurnChangedEvent } from '../players/TurnManager';
+import { HoleIntroEvent } from '../round/RoundManager';
+import { ScoreManager } from './ScoreManager';
+import { HoleResultStore } from './HoleResultStore';
+import { HoleResult, getScoreRating, getMedal, SCORE_RATING_NAMES, MEDALS } from './HoleResults';
+import { HoleResultUI } from '../../ui/HoleResultUI';
+
+/**
+ * Payload of the HOLE_RESULT event
+ */
+export interface HoleResultEvent {
+  player: Player;
+  result: HoleResult;
+  newBest: boolean;       // Beat the stored best for the hole
+}
+
+/**
+ * HoleResultTracker - Rates every completed hole and keeps the best results
+ *
+ * Counts each player's perfect boosts and the time spent on their own turns
+ * (from the end of the hole intro). When a player sinks their ball the strokes
+ * are rated against par, a medal is awarded, the result is shown and stored,
+ * and HOLE_RESULT is emitted. The hole intro shows the best stored result.
+ *
+ * The game starts straight into its course without a course select screen, so
+ * the course's best medal is shown in the intro of its first hole instead.
+ */
+export class HoleResultTracker {
+  private eventSystem: EventSystem;
+  private gameStateManager: GameStateManager;
+  private scoreManager: ScoreManager;
+  private store: HoleResultStore;
+  private turnManager: TurnManager;
+  private ui: HoleResultUI;
+  
+  private courseName: string;
+  
+  // Per-player progress on the current hole
+  private boosts: Map<Player, number> = new Map();
+  private times: Map<Player, number> = new Map();      // Seconds of finished turns
+  private turnStartedAt: number | null = null;         // Null until the hole intro is over
+  
+  // Bound listeners, kept for removal
+  private boundHoleIntro: (event: HoleIntroEvent) => void;
+  private boundPlayStarted: () => void;
+  private boundTurnChanged: (event: TurnChangedEvent) => void;
+  private boundBoostLanded: () => void;
+  private boundHoleComplete: () => void;
+  
+  /**
+   * Constructor
+   */
+  constructor(courseName: string, turnManager: TurnManager) {
+    this.eventSystem = EventSystem.getInstance();
+    this.gameStateManager = GameStateManager.getInstance();
+    this.scoreManager = ScoreManager.getInstance();
+    this.store = HoleResultStore.getInstance();
+    this.turnManager = turnManager;
+    this.ui = new HoleResultUI();
+    this.courseName = courseName;
+    
+    this.boundHoleIntro = this.handleHoleIntro.bind(this);
+    this.boundPlayStarted = () => {
+      this.turnStartedAt = performance.now();
+      this.ui.hide();
+    };
+    this.boundTurnChanged = this.handleTurnChanged.bind(this);
+    this.boundBoostLanded = () => {
+      const player = this.turnManager.getActivePlayer();
+      this.boosts.set(player, (this.boosts.get(player) ?? 0) + 1);
+    };
+    this.boundHoleComplete = this.handleHoleComplete.bind(this);
+    
+    this.eventSystem.on(GameEvents.HOLE_INTRO, this.boundHoleIntro);
+    this.eventSystem.on(GameEvents.TURN_CHANGED, this.boundTurnChanged);
+    this.eventSystem.on(GameEvents.BOOST_LANDED, this.boundBoostLanded);
+    this.eventSystem.on(GameEvents.HOLE_COMPLETE, this.boundHoleComplete);
+    this.gameStateManager.onExitState(GameState.HOLE_INTRO, this.boundPlayStarted);
+  }
+  
+  /**
+   * Start tracking a hole and show its best result
+   */
+  private handleHoleIntro(event: HoleIntroEvent): void {
+    this.boosts.clear();
+    this.times.clear();
+    this.turnStartedAt = null;
+    
+    const best = this.store.getBestResult(this.courseName, event.hole.id);
+    
+    // Stands in for course select: the first hole also shows the course's best medal
+    const courseBest = event.holeIndex === 0 ? this.store.getBestMedal(this.courseName) : null;
+    this.ui.showBest(best, courseBest);
+  }
+  
+  /**
+   * Close the previous player's turn time
+   */
+  private handleTurnChanged(event: TurnChangedEvent): void {
+    if (this.turnStartedAt === null) return;
+    
+    if (event.previous) {
+      this.addTurnTime(event.previous);
+    }
+    this.turnStartedAt = performance.now();
+  }
+  
+  /**
+   * Rate, show and store the active player's completed hole
+   */
+  private handleHoleComplete(): void {
+    const score = this.scoreManager.getCurrentHoleScore();
+    if (!score) return;
+    
+    const player = this.turnManager.getActivePlayer();
+    this.addTurnTime(player);
+    this.turnStartedAt = performance.now();
+    
+    const boosts = this.boosts.get(player) ?? 0;
+    const time = this.times.get(player) ?? 0;
+    const result: HoleResult = {
+      holeId: score.holeId,
+      holeName: score.holeName,
+      par: score.par,
+      strokes: score.strokes,
+      rating: getScoreRating(score.strokes, score.par),
+      boosts,
+      time,
+      medal: getMedal(score.strokes, score.par, boosts, time)
+    };
+    
+    const newBest = this.store.record(this.courseName, result);
+    const multiplayer = this.turnManager.getPlayers().length > 1;
+    this.ui.showResult(multiplayer ? player.getName() : null, result, newBest);
+    
+    const event: HoleResultEvent = { player, result, newBest };
+    this.eventSystem.emit(GameEvents.HOLE_RESULT, event);
+    
+    console.log(
+      `${player.getName()}: ${SCORE_RATING_NAMES[result.rating]} - ${MEDALS[result.medal].name} medal ` +
+      `(${boosts} boosts, ${time.toFixed(1)}s)${newBest ? ' - new best!' : ''}`
+    );
+  }
+  
+  /**
+   * Add the running turn's time to a player
+   */
+  private addTurnTime(player: Player): void {
+    if (this.turnStartedAt === null) return;
+    
+    const seconds = (performance.now() - this.turnStartedAt) / 1000;
+    this.times.set(player, (this.times.get(player) ?? 0) + seconds);
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.eventSystem.off(GameEvents.HOLE_INTRO, this.boundHoleIntro);
+    this.eventSystem.off(GameEvents.TURN_CHANGED, this.boundTurnChanged);
+    this.eventSystem.off(GameEvents.BOOST_LANDED, this.boundBoostLanded);
+    this.eventSystem.off(GameEvents.HOLE_COMPLETE, this.boundHoleComplete);
+    this.gameStateManager.removeExitStateListener(GameState.HOLE_INTRO, this.boundPlayStarted);
+    
+    this.ui.dispose();
+  }
+} 
\ No newline at end of file
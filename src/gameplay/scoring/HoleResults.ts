@@ -0,0 +1,127 @@
+/**
+ * Rating of a hole's strokes against par
+ */
+export enum ScoreRating {
+  HOLE_IN_ONE = 'hole_in_one',
+  CONDOR = 'condor',              // 4 under par
+  ALBATROSS = 'albatross',        // 3 under par
+  EAGLE = 'eagle',                // 2 under par
+  BIRDIE = 'birdie',              // 1 under par
+  PAR = 'par',
+  BOGEY = 'bogey',                // 1 over par
+  DOUBLE_BOGEY = 'double_bogey',  // 2 over par
+  TRIPLE_BOGEY = 'triple_bogey',  // 3 over par
+  OVER = 'over'                   // 4 or more over par
+}
+
+/**
+ * Display names of the score ratings
+ */
+export const SCORE_RATING_NAMES: Record<ScoreRating, string> = {
+  [ScoreRating.HOLE_IN_ONE]: 'Hole in One',
+  [ScoreRating.CONDOR]: 'Condor',
+  [ScoreRating.ALBATROSS]: 'Albatross',
+  [ScoreRating.EAGLE]: 'Eagle',
+  [ScoreRating.BIRDIE]: 'Birdie',
+  [ScoreRating.PAR]: 'Par',
+  [ScoreRating.BOGEY]: 'Bogey',
+  [ScoreRating.DOUBLE_BOGEY]: 'Double Bogey',
+  [ScoreRating.TRIPLE_BOGEY]: 'Triple Bogey',
+  [ScoreRating.OVER]: 'Over Par'
+};
+
+/**
+ * Medal tiers, worst to best
+ */
+export enum MedalTier {
+  BRONZE = 'bronze',
+  SILVER = 'silver',
+  GOLD = 'gold',
+  PLATINUM = 'platinum'
+}
+
+/**
+ * Display of a medal tier
+ */
+export interface MedalDefinition {
+  name: string;
+  color: number;
+  minPoints: number;      // Medal points needed for the tier
+}
+
+/**
+ * Medal table, in order from worst to best
+ * Points come from strokes (up to 3), boosts landed (up to 2) and time (up to 2);
+ * sinking the ball always earns at least bronze.
+ */
+export const MEDALS: Record<MedalTier, MedalDefinition> = {
+  [MedalTier.BRONZE]: { name: 'Bronze', color: 0xcd7f32, minPoints: 0 },
+  [MedalTier.SILVER]: { name: 'Silver', color: 0xc0c0c0, minPoints: 2 },
+  [MedalTier.GOLD]: { name: 'Gold', color: 0xffd700, minPoints: 4 },
+  [MedalTier.PLATINUM]: { name: 'Platinum', color: 0xe5f4ff, minPoints: 6 }
+};
+
+/**
+ * Seconds per stroke of par for the fast and the good time bonus
+ */
+export const FAST_SECONDS_PER_PAR = 15;
+export const GOOD_SECONDS_PER_PAR = 30;
+
+/**
+ * Result of one player's completed hole
+ */
+export interface HoleResult {
+  holeId: string;
+  holeName: string;
+  par: number;
+  strokes: number;        // Penalties included
+  rating: ScoreRating;
+  boosts: number;         // Perfectly timed boosts landed
+  time: number;           // Seconds of the player's own turns
+  medal: MedalTier;
+}
+
+/**
+ * Rate strokes against par
+ */
+export function getScoreRating(strokes: number, par: number): ScoreRating {
+  if (strokes === 1) return ScoreRating.HOLE_IN_ONE;
+  
+  const relative = strokes - par;
+  if (relative <= -4) return ScoreRating.CONDOR;
+  
+  switch (relative) {
+    case -3: return ScoreRating.ALBATROSS;
+    case -2: return ScoreRating.EAGLE;
+    case -1: return ScoreRating.BIRDIE;
+    case 0: return ScoreRating.PAR;
+    case 1: return ScoreRating.BOGEY;
+    case 2: return ScoreRating.DOUBLE_BOGEY;
+    case 3: return ScoreRating.TRIPLE_BOGEY;
+    default: return ScoreRating.OVER;
+  }
+}
+
+/**
+ * Award the medal for a completed hole
+ */
+export function getMedal(strokes: number, par: number, boosts: number, time: number): MedalTier {
+  const relative = strokes - par;
+  const strokePoints = relative < 0 ? 3 : relative === 0 ? 2 : relative === 1 ? 1 : 0;
+  const boostPoints = Math.min(boosts, 2);
+  const timePoints = time <= par * FAST_SECONDS_PER_PAR ? 2 : time <= par * GOOD_SECONDS_PER_PAR ? 1 : 0;
+  const points = strokePoints + boostPoints + timePoints;
+  
+  // Best tier whose threshold is met
+  const tiers = Object.values(MedalTier) as MedalTier[];
+  return tiers.reduce((best, tier) => (points >= MEDALS[tier].minPoints ? tier : best), MedalTier.BRONZE);
+}
+
+/**
+ * Compare medal tiers
+ * @returns Positive if a is the better medal, negative if b is, 0 if equal
+ */
+export function compareMedals(a: MedalTier, b: MedalTier): number {
+  const tiers = Object.values(MedalTier) as MedalTier[];
+  return tiers.indexOf(a) - tiers.indexOf(b);
+} 
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { Scorecard, ScorecardHole, HoleScore } from './Scorecard';
+
+/**
+ * What changed the score
+ */
+export type ScoreChangeReason = 'hole_start' | 'stroke' | 'penalty' | 'mulligan' | 'hole_complete';
+
+/**
+ * Payload of the SCORE_CHANGED event
+ */
+export interface ScoreChangedEvent {
+  reason: ScoreChangeReason;
+  player: string;
+  hole: HoleScore;
+  relativeToPar: number;  // Current hole's strokes minus par
+  totalStrokes: number;
+  totalRelative: number;  // Relative to par over completed holes
+}
+
+/**
+ * ScoreManager - Singleton that owns the players' scorecards
+ *
+ * The single source of truth for scores: gameplay records strokes and penalties
+ * here, and UI or persistence read the scorecards or listen for SCORE_CHANGED.
+ * Strokes and penalties go to the active player's scorecard.
+ */
+export class ScoreManager {
+  private static instance: ScoreManager | null = null;
+  private eventSystem: EventSystem;
+  private scorecards: Scorecard[];
+  private activeIndex: number = 0;
+  
+  /**
+   * Private constructor (singleton pattern)
+   */
+  private constructor() {
+    this.eventSystem = EventSystem.getInstance();
+    this.scorecards = [new Scorecard('Player 1')];
+  }
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ScoreManager {
+    if (!ScoreManager.instance) {
+      ScoreManager.instance = new ScoreManager();
+    }
+    
+    return ScoreManager.instance;
+  }
+  
+  /**
+   * Set up one scorecard per player (clears all scores)
+   */
+  public setPlayers(names: string[]): void {
+    if (names.length === 0) {
+      console.warn('ScoreManager needs at least one player');
+      return;
+    }
+    
+    this.scorecards = names.map(name => new Scorecard(name));
+    this.activeIndex = 0;
+  }
+  
+  /**
+   * Set whose strokes are being recorded
+   */
+  public setActivePlayer(index: number): void {
+    if (index < 0 || index >= this.scorecards.length) {
+      console.warn(`No scorecard for player ${index}`);
+      return;
+    }
+    
+    this.activeIndex = index;
+  }
+  
+  /**
+   * Clear the scorecards for a new round
+   */
+  public startRound(): void {
+    this.scorecards.forEach(scorecard => scorecard.reset());
+    this.activeIndex = 0;
+  }
+  
+  /**
+   * Start scoring a hole for every player (replaying a hole starts it over)
+   */
+  public startHole(hole: ScorecardHole): void {
+    this.scorecards.forEach(scorecard => {
+      const score = scorecard.startHole(hole);
+      this.emitScoreChanged('hole_start', scorecard, score);
+    });
+  }
+  
+  /**
+   * Record a stroke for the current shot
+   */
+  public recordStroke(): void {
+    const scorecard = this.getScorecard();
+    const score = scorecard.addStroke();
+    if (score) {
+      this.emitScoreChanged('stroke', scorecard, score);
+    }
+  }
+  
+  /**
+   * Record penalty strokes (out of bounds, hazards)
+   */
+  public recordPenalty(strokes: number): void {
+    const scorecard = this.getScorecard();
+    const score = scorecard.addPenalty(strokes);
+    if (score) {
+      this.emitScoreChanged('penalty', scorecard, score);
+    }
+  }
+  
+  /**
+   * Put the active player's strokes on the current hole back to earlier values
+   * (a mulligan takes back the shot and its penalties)
+   */
+  public restoreStrokes(strokes: number, penalties: number): void {
+    const scorecard = this.getScorecard();
+    const score = scorecard.restoreStrokes(strokes, penalties);
+    if (score) {
+      this.emitScoreChanged('mulligan', scorecard, score);
+    }
+  }
+  
+  /**
+   * Record the active player's ball being sunk on the current hole
+   */
+  public completeHole(): void {
+    const scorecard = this.getScorecard();
+    const score = scorecard.completeHole();
+    if (score) {
+      this.emitScoreChanged('hole_complete', scorecard, score);
+    }
+  }
+  
+  /**
+   * Get a player's scorecard (the active player's by default)
+   */
+  public getScorecard(index: number = this.activeIndex): Scorecard {
+    return this.scorecards[index];
+  }
+  
+  /**
+   * Get all scorecards in turn order
+   */
+  public getScorecards(): Scorecard[] {
+    return this.scorecards;
+  }
+  
+  /**
+   * Get the active player's score on the hole being played
+   */
+  public getCurrentHoleScore(): HoleScore | null {
+    return this.getScorecard().getCurrentHole();
+  }
+  
+  /**
+   * Emit SCORE_CHANGED for a hole of a scorecard
+   */
+  private emitScoreChanged(reason: ScoreChangeReason, scorecard: Scorecard, hole: HoleScore): void {
+    const event: ScoreChangedEvent = {
+      reason,
+      player: scorecard.getPlayerName(),
+      hole: { ...hole },
+      relativeToPar: Scorecard.getRelativeToPar(hole),
+      totalStrokes: scorecard.getTotalStrokes(),
+      totalRelative: scorecard.getRelativeScore()
+    };
+    
+    this.eventSystem.emit(GameEvents.SCORE_CHANGED, event);
+  }
+  
+  /**
+   * Reset the ScoreManager (for testing or game reset)
+   */
+  public static resetInstance(): void {
+    ScoreManager.instance = null;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,161 @@
+/**
+ * Score of a single hole
+ */
+export interface HoleScore {
+  holeId: string;
+  holeName: string;
+  par: number;
+  strokes: number;        // All strokes, penalties included
+  penalties: number;      // Penalty strokes among them
+  completed: boolean;     // The ball has been sunk
+}
+
+/**
+ * Hole description a scorecard needs (matches HoleData)
+ */
+export interface ScorecardHole {
+  id: string;
+  name: string;
+  par: number;
+}
+
+/**
+ * Scorecard - Stroke record of one player, hole by hole
+ *
+ * Holes are kept in the order they were started. Replaying a hole starts its
+ * entry over instead of adding a second one.
+ */
+export class Scorecard {
+  private playerName: string;
+  private holes: HoleScore[] = [];
+  private currentHole: HoleScore | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor(playerName: string) {
+    this.playerName = playerName;
+  }
+  
+  /**
+   * Start (or restart) scoring a hole
+   */
+  public startHole(hole: ScorecardHole): HoleScore {
+    let score = this.holes.find(entry => entry.holeId === hole.id);
+    
+    if (!score) {
+      score = { holeId: hole.id, holeName: hole.name, par: hole.par, strokes: 0, penalties: 0, completed: false };
+      this.holes.push(score);
+    } else {
+      score.holeName = hole.name;
+      score.par = hole.par;
+      score.strokes = 0;
+      score.penalties = 0;
+      score.completed = false;
+    }
+    
+    this.currentHole = score;
+    return score;
+  }
+  
+  /**
+   * Record a stroke on the current hole
+   */
+  public addStroke(): HoleScore | null {
+    if (!this.currentHole || this.currentHole.completed) return null;
+    
+    this.currentHole.strokes++;
+    return this.currentHole;
+  }
+  
+  /**
+   * Record penalty strokes on the current hole
+   */
+  public addPenalty(strokes: number): HoleScore | null {
+    if (!this.currentHole || this.currentHole.completed) return null;
+    
+    this.currentHole.strokes += strokes;
+    this.currentHole.penalties += strokes;
+    return this.currentHole;
+  }
+  
+  /**
+   * Put the current hole's strokes back to earlier values (mulligan)
+   */
+  public restoreStrokes(strokes: number, penalties: number): HoleScore | null {
+    if (!this.currentHole || this.currentHole.completed) return null;
+    
+    this.currentHole.strokes = strokes;
+    this.currentHole.penalties = penalties;
+    return this.currentHole;
+  }
+  
+  /**
+   * Mark the current hole as completed
+   */
+  public completeHole(): HoleScore | null {
+    if (!this.currentHole) return null;
+    
+    this.currentHole.completed = true;
+    return this.currentHole;
+  }
+  
+  /**
+   * Get the player this scorecard belongs to
+   */
+  public getPlayerName(): string {
+    return this.playerName;
+  }
+  
+  /**
+   * Get the hole currently being played
+   */
+  public getCurrentHole(): HoleScore | null {
+    return this.currentHole;
+  }
+  
+  /**
+   * Get the scores of all holes started so far
+   */
+  public getHoles(): HoleScore[] {
+    return this.holes;
+  }
+  
+  /**
+   * Total strokes over all holes
+   */
+  public getTotalStrokes(): number {
+    return this.holes.reduce((total, hole) => total + hole.strokes, 0);
+  }
+  
+  /**
+   * Total par of the completed holes
+   */
+  public getTotalPar(): number {
+    return this.holes.filter(hole => hole.completed).reduce((total, hole) => total + hole.par, 0);
+  }
+  
+  /**
+   * Score relative to par over the completed holes (negative is under par)
+   */
+  public getRelativeScore(): number {
+    return this.holes
+      .filter(hole => hole.completed)
+      .reduce((total, hole) => total + Scorecard.getRelativeToPar(hole), 0);
+  }
+  
+  /**
+   * Score of a hole relative to its par
+   */
+  public static getRelativeToPar(hole: HoleScore): number {
+    return hole.strokes - hole.par;
+  }
+  
+  /**
+   * Clear all holes
+   */
+  public reset(): void {
+    this.holes = [];
+    this.currentHole = null;
+  }
+} 
\ No newline at end of file
@@ -24,6 +24,7 @@ export class BoostController {
   
   // Kirby-style precise timing window - 2 frames at 60 FPS (0.033 seconds)
   private readonly KIRBY_BOOST_WINDOW: number = 0.033; // seconds
+  private boostWindowScale: number = 1.0; // Set by session modifiers
   private readonly DISPLAY_WINDOW_DURATION: number = 0.300; // How long to show the indicator (300ms)
   
   private boostWindowStartTime: number = 0; // High-precision timestamp
@@ -52,6 +53,20 @@ export class BoostController {
     this.setupEventListeners();
   }
   
+  /**
+   * Scale the boost timing window (session modifiers)
+   */
+  public setWindowScale(scale: number): void {
+    this.boostWindowScale = Math.max(scale, 0.1);
+  }
+  
+  /**
+   * Get the current boost timing window in seconds
+   */
+  public getBoostWindow(): number {
+    return this.KIRBY_BOOST_WINDOW * this.boostWindowScale;
+  }
+  
   /**
    * Set up event listeners
    */
@@ -72,6 +87,13 @@ export class BoostController {
     this.gameStateManager.onExitState(GameState.BOOST_READY, () => {
       // Hide boost indicator when leaving boost-ready state
       this.hideBoostIndicator();
+      
+      // Leaving for anything but rolling (e.g. ball sunk) ends the window,
+      // so the expiry timer can't force the state back to ROLLING
+      if (!this.gameStateManager.isState(GameState.ROLLING)) {
+        this.clearBoostWindow();
+        this.boostAvailable = false;
+      }
     });
   }
   
@@ -105,7 +127,7 @@ export class BoostController {
     // NOTE: This is for UI display only, actual boost window is much shorter
     this.startBoostWindow();
     
-    console.log(`Boost opportunity detected! Window: ${this.KIRBY_BOOST_WINDOW.toFixed(3)}s`);
+    console.log(`Boost opportunity detected! Window: ${this.getBoostWindow().toFixed(3)}s`);
   }
   
   /**
@@ -123,19 +145,20 @@ export class BoostController {
     console.log(`Boost attempt: ${timeSinceBounce.toFixed(3)}s after bounce`);
     
     // Check if within the Kirby timing window (0.033 seconds)
-    if (timeSinceBounce <= this.KIRBY_BOOST_WINDOW) {
+    if (timeSinceBounce <= this.getBoostWindow()) {
       // Apply boost to the ball
       this.applyBoost();
       
       // Track successful boost (within timing window)
       this.successfulBoosts++;
+      this.eventSystem.emit(GameEvents.BOOST_LANDED, timeSinceBounce);
       
       // Display timing feedback
       this.showTimingFeedback(true, timeSinceBounce);
       console.log(`SUCCESS! Perfect boost timing: ${timeSinceBounce.toFixed(3)}s`);
     } else {
       // Failed timing, but still apply a reduced boost
-      const latenessFactor = Math.max(0, 1 - (timeSinceBounce / (this.KIRBY_BOOST_WINDOW * 3)));
+      const latenessFactor = Math.max(0, 1 - (timeSinceBounce / (this.getBoostWindow() * 3)));
       
       if (latenessFactor > 0) {
         // Apply reduced boost
@@ -172,7 +195,7 @@ export class BoostController {
       feedbackElement.style.color = 'black';
     } else {
       // Calculate how late the timing was
-      const latenessFactor = timeSinceBounce / this.KIRBY_BOOST_WINDOW;
+      const latenessFactor = timeSinceBounce / this.getBoostWindow();
       
       if (latenessFactor < 3) {
         feedbackElement.textContent = 'LATE!';
@@ -331,6 +354,13 @@ export class BoostController {
     console.log(`Boost sound effect would play at ${(0.5 + (intensity * 0.5)).toFixed(2)} volume`);
   }
   
+  /**
+   * Set the ball boosts are applied to
+   */
+  public setBallBody(ballBody: RAPIER.RigidBody): void {
+    this.ballBody = ballBody;
+  }
+  
   /**
    * Update method called once per frame
    * @param deltaTime Time since last frame in seconds
@@ -346,7 +376,7 @@ export class BoostController {
       
       // If we're beyond the precise timing window but UI is still showing,
       // add visual cue that perfect timing has passed
-      if (timeSinceBounce > this.KIRBY_BOOST_WINDOW && this.boostAvailable) {
+      if (timeSinceBounce > this.getBoostWindow() && this.boostAvailable) {
         this.boostIndicatorUI.setLateStatus();
       }
     }
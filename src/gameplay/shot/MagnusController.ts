@@ -0,0 +1,87 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { GameStateManager, GameState } from '../../utils/GameStateManager';
+import { applyMagnusStep, applySpinBounce, SPIN_GROUND_TOLERANCE } from './SpinModel';
+import { getGroundDistance } from '../../physics/GroundProbe';
+
+/**
+ * MagnusController - Spin forces on the ball in play (Phase 4)
+ *
+ * Responsible for:
+ * - Holding the spin a shot launched the ball with
+ * - Applying the Magnus force every physics step (see SpinModel)
+ * - Changing the ball's bounces for topspin and backspin
+ *
+ * Uses the same model as the trajectory preview, so the ball follows the predicted curve.
+ */
+export class MagnusController {
+  private gameStateManager: GameStateManager;
+  private ballBody: RAPIER.RigidBody;
+  private world: RAPIER.World;
+  
+  // Spin left on the ball (world-space axis, length is strength)
+  private spin: THREE.Vector3 = new THREE.Vector3();
+  private wasOnGround: boolean = true;
+  
+  /**
+   * Constructor
+   */
+  constructor(ballBody: RAPIER.RigidBody, world: RAPIER.World) {
+    this.ballBody = ballBody;
+    this.world = world;
+    this.gameStateManager = GameStateManager.getInstance();
+  }
+  
+  /**
+   * Put spin on the ball as a shot is taken (a zero vector takes it off)
+   */
+  public launch(spin: THREE.Vector3): void {
+    this.spin.copy(spin);
+    this.wasOnGround = true;
+  }
+  
+  /**
+   * Get the spin left on the ball
+   */
+  public getSpin(): THREE.Vector3 {
+    return this.spin.clone();
+  }
+  
+  /**
+   * Set the ball the spin acts on (any spin left is dropped)
+   */
+  public setBallBody(ballBody: RAPIER.RigidBody): void {
+    this.ballBody = ballBody;
+    this.spin.set(0, 0, 0);
+  }
+  
+  /**
+   * Check whether the ball is touching the ground below it
+   */
+  private isOnGround(): boolean {
+    return getGroundDistance(this.world, this.ballBody, SPIN_GROUND_TOLERANCE) <= SPIN_GROUND_TOLERANCE;
+  }
+  
+  /**
+   * Apply the spin for one fixed physics step while the ball is in play
+   * @param timestep Physics step in seconds
+   */
+  public step(timestep: number): void {
+    if (this.spin.lengthSq() === 0) return;
+    if (!this.gameStateManager.isState(GameState.ROLLING) &&
+        !this.gameStateManager.isState(GameState.BOOST_READY)) return;
+    
+    const linvel = this.ballBody.linvel();
+    const velocity = new THREE.Vector3(linvel.x, linvel.y, linvel.z);
+    const onGround = this.isOnGround();
+    
+    // Touching down after a flight is a bounce
+    if (onGround && !this.wasOnGround) {
+      applySpinBounce(velocity, this.spin);
+    }
+    this.wasOnGround = onGround;
+    
+    applyMagnusStep(velocity, this.spin, timestep, onGround);
+    this.ballBody.setLinvel({ x: velocity.x, y: velocity.y, z: velocity.z }, true);
+  }
+} 
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { GameStateManager, GameState } from '../../utils/GameStateManager';
 import { EventSystem, GameEvents } from '../../utils/EventSystem';
 import { ShotParameterManager } from './ShotParameterManager';
-import { SpinType, ShotType } from './ShotTypes';
+import { SpinType, SHOT_TYPES } from './ShotTypes';
 
 /**
  * PowerController - Handles Phase 3 (Power and Spin Selection) of the shot system
@@ -260,7 +260,7 @@ export class PowerController {
    */
   private getPowerSpeed(): number {
     // Base speed variation based on shot type
-    const speedModifier = this.parameterManager.shotType === ShotType.GROUNDER ? 1.0 : 0.85;
+    const speedModifier = SHOT_TYPES[this.parameterManager.shotType].meterSpeed;
     
     // Return adjusted speed, normalized to ensure 2-second fill time
     return this.powerChangeSpeed * speedModifier;
@@ -0,0 +1,193 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+import { GameStateManager, GameState } from '../../utils/GameStateManager';
+import { EventSystem, GameEvents } from '../../utils/EventSystem';
+import { RollControlUI } from '../../ui/RollControlUI';
+import { getGroundDistance } from '../../physics/GroundProbe';
+
+/**
+ * Payload of the BRAKE_APPLIED and HOP_APPLIED events
+ */
+export interface RollControlEvent {
+  remaining: number;      // Uses of the command left this shot
+}
+
+/**
+ * RollController - Mid-roll brake and hop commands (Phase 4)
+ *
+ * Responsible for:
+ * - Braking: bleeding off the ball's horizontal and spin speed over a short time
+ * - Hopping: an upward kick while the ball is on the ground
+ * - Limiting each command to a few uses per shot (reset when a shot is taken)
+ * - Showing the uses left and feedback on the HUD while the ball rolls
+ */
+export class RollController {
+  // Core dependencies
+  private gameStateManager: GameStateManager;
+  private eventSystem: EventSystem;
+  private ballBody: RAPIER.RigidBody;
+  private world: RAPIER.World;
+  private ui: RollControlUI;
+  
+  // Uses per shot
+  private readonly BRAKES_PER_SHOT: number = 1;
+  private readonly HOPS_PER_SHOT: number = 2;
+  private brakesLeft: number = this.BRAKES_PER_SHOT;
+  private hopsLeft: number = this.HOPS_PER_SHOT;
+  
+  // Brake and hop tuning
+  private brakeRate: number = 8;          // Speed fraction lost per second while braking (exponential)
+  private brakeDuration: number = 0.5;    // Seconds a brake lasts
+  private brakeTimeLeft: number = 0;
+  private hopSpeed: number = 6;           // Upward speed of a hop
+  private groundTolerance: number = 0.15; // Distance from the ground a hop still counts from
+  
+  // Bound listeners, kept for removal
+  private boundBrake: () => void;
+  private boundHop: () => void;
+  private boundShotStarting: () => void;
+  private boundStateChange: () => void;
+  
+  /**
+   * Constructor
+   */
+  constructor(ballBody: RAPIER.RigidBody, world: RAPIER.World) {
+    this.ballBody = ballBody;
+    this.world = world;
+    this.gameStateManager = GameStateManager.getInstance();
+    this.eventSystem = EventSystem.getInstance();
+    this.ui = new RollControlUI();
+    
+    this.boundBrake = this.handleBrake.bind(this);
+    this.boundHop = this.handleHop.bind(this);
+    this.boundShotStarting = this.resetForShot.bind(this);
+    this.boundStateChange = this.refreshUI.bind(this);
+    
+    this.eventSystem.on(GameEvents.SHOT_BRAKE, this.boundBrake);
+    this.eventSystem.on(GameEvents.SHOT_HOP, this.boundHop);
+    this.eventSystem.on(GameEvents.SHOT_STARTING, this.boundShotStarting);
+    this.eventSystem.on(GameEvents.STATE_CHANGE, this.boundStateChange);
+  }
+  
+  /**
+   * Give back every command for a new shot
+   */
+  private resetForShot(): void {
+    this.brakesLeft = this.BRAKES_PER_SHOT;
+    this.hopsLeft = this.HOPS_PER_SHOT;
+    this.brakeTimeLeft = 0;
+    this.refreshUI();
+  }
+  
+  /**
+   * Check whether the ball is in play (rolling or boost-ready)
+   */
+  private isRolling(): boolean {
+    return this.gameStateManager.isState(GameState.ROLLING) ||
+      this.gameStateManager.isState(GameState.BOOST_READY);
+  }
+  
+  /**
+   * Start braking if a brake is left
+   */
+  private handleBrake(): void {
+    if (!this.isRolling() || this.brakeTimeLeft > 0) return;
+    
+    if (this.brakesLeft <= 0) {
+      this.ui.showFeedback('NO BRAKES LEFT', false);
+      return;
+    }
+    
+    this.brakesLeft--;
+    this.brakeTimeLeft = this.brakeDuration;
+    
+    this.ui.showFeedback('BRAKE!', true);
+    this.refreshUI();
+    
+    const event: RollControlEvent = { remaining: this.brakesLeft };
+    this.eventSystem.emit(GameEvents.BRAKE_APPLIED, event);
+    console.log(`Brake applied (${this.brakesLeft} left this shot)`);
+  }
+  
+  /**
+   * Kick the ball upward if a hop is left and the ball is on the ground
+   */
+  private handleHop(): void {
+    if (!this.isRolling()) return;
+    
+    if (this.hopsLeft <= 0) {
+      this.ui.showFeedback('NO HOPS LEFT', false);
+      return;
+    }
+    
+    // Only from the ground, and not again while the last hop is still lifting off
+    const velocity = this.ballBody.linvel();
+    if (velocity.y > this.hopSpeed * 0.5 || !this.isOnGround()) return;
+    
+    // A hop replaces any downward speed, so it always lifts the ball
+    this.ballBody.setLinvel({ x: velocity.x, y: Math.max(velocity.y, 0) + this.hopSpeed, z: velocity.z }, true);
+    this.hopsLeft--;
+    
+    this.ui.showFeedback('HOP!', true);
+    this.refreshUI();
+    
+    const event: RollControlEvent = { remaining: this.hopsLeft };
+    this.eventSystem.emit(GameEvents.HOP_APPLIED, event);
+    console.log(`Hop applied (${this.hopsLeft} left this shot)`);
+  }
+  
+  /**
+   * Check whether the ball is touching (or nearly touching) the ground below it
+   */
+  private isOnGround(): boolean {
+    return getGroundDistance(this.world, this.ballBody, this.groundTolerance) <= this.groundTolerance;
+  }
+  
+  /**
+   * Set the ball the commands act on
+   */
+  public setBallBody(ballBody: RAPIER.RigidBody): void {
+    this.ballBody = ballBody;
+    this.brakeTimeLeft = 0;
+  }
+  
+  /**
+   * Apply the brake for one fixed physics step while the ball is in play
+   * @param timestep Physics step in seconds
+   */
+  public step(timestep: number): void {
+    if (this.brakeTimeLeft <= 0 || !this.isRolling()) return;
+    
+    this.brakeTimeLeft = Math.max(this.brakeTimeLeft - timestep, 0);
+    
+    // Bleed off horizontal speed and spin; gravity keeps working on the ball
+    const factor = Math.exp(-this.brakeRate * timestep);
+    const velocity = this.ballBody.linvel();
+    const angular = this.ballBody.angvel();
+    this.ballBody.setLinvel({ x: velocity.x * factor, y: velocity.y, z: velocity.z * factor }, true);
+    this.ballBody.setAngvel({ x: angular.x * factor, y: angular.y * factor, z: angular.z * factor }, true);
+  }
+  
+  /**
+   * Show the commands left while the ball rolls
+   */
+  private refreshUI(): void {
+    if (this.isRolling()) {
+      this.ui.show(this.brakesLeft, this.hopsLeft);
+    } else {
+      this.brakeTimeLeft = 0;
+      this.ui.hide();
+    }
+  }
+  
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.eventSystem.off(GameEvents.SHOT_BRAKE, this.boundBrake);
+    this.eventSystem.off(GameEvents.SHOT_HOP, this.boundHop);
+    this.eventSystem.off(GameEvents.SHOT_STARTING, this.boundShotStarting);
+    this.eventSystem.off(GameEvents.STATE_CHANGE, this.boundStateChange);
+    
+    this.ui.dispose();
+  }
+} 
\ No newline at end of file
@@ -3,6 +3,7 @@ import RAPIER from '@dimforge/rapier3d-compat';
 import { GameStateManager, GameState } from '../../utils/GameStateManager';
 import { EventSystem, GameEvents } from '../../utils/EventSystem';
 import { TrajectorySystem } from '../../rendering/trajectory/TrajectorySystem';
+import { BallMaterialProvider } from '../../rendering/trajectory/TrajectorySimulator';
 
 import { ShotParameterManager, ShotOptions } from './ShotParameterManager';
 import { ShotType, SpinType, GuideLength } from './ShotTypes';
@@ -12,7 +13,12 @@ import { ShotPanelController } from './ShotPanelController';
 import { PowerController } from './PowerController';
 import { SpinController } from './SpinController';
 import { BoostController } from './BoostController';
+import { RollController } from './RollController';
+import { MagnusController } from './MagnusController';
 import { ShotPhysics } from './ShotPhysics';
+import { ScoreManager } from '../scoring/ScoreManager';
+import { AbilityType } from '../abilities/AbilityTypes';
+import { ModifierEffects } from '../modifiers/ModifierTypes';
 
 /**
  * ShotController - Orchestrates the four-phase shot system
@@ -23,7 +29,8 @@ import { ShotPhysics } from './ShotPhysics';
  * 1. Direction Selection (AimingController)
  * 2. Shot Panel / Guide Selection (ShotPanelController)
  * 3. Power and Spin (PowerController, SpinController)
- * 4. Shot Execution and Boost (BoostController)
+ * 4. Shot Execution and Boost (BoostController), mid-roll brake and hop (RollController),
+ *    spin in flight (MagnusController)
  * 
  * It also manages the shared parameter store and coordinates the overall shot flow.
  */
@@ -47,6 +54,8 @@ export class ShotController {
   private powerController: PowerController;
   private spinController: SpinController;
   private boostController: BoostController;
+  private rollController: RollController;
+  private magnusController: MagnusController;
   
   // Physics handler
   private shotPhysics: ShotPhysics;
@@ -78,9 +87,11 @@ export class ShotController {
     this.powerController = new PowerController(this.parameterManager);
     this.spinController = new SpinController(this.parameterManager);
     this.boostController = new BoostController(ballBody);
+    this.rollController = new RollController(ballBody, world);
+    this.magnusController = new MagnusController(ballBody, world);
     
     // Initialize physics handler
-    this.shotPhysics = new ShotPhysics(ballBody, this.parameterManager);
+    this.shotPhysics = new ShotPhysics(ballBody, this.parameterManager, this.magnusController);
     
     // Set up event listeners
     this.setupEventListeners();
@@ -104,22 +115,6 @@ export class ShotController {
     
     // Listen for parameter changes to update trajectory
     this.eventSystem.on(GameEvents.SHOT_PARAMS_CHANGED, this.updateTrajectoryVisualization.bind(this));
-    
-    // Listen for ball stopped event from physics
-    this.eventSystem.on(GameEvents.BALL_STOPPED, this.handleBallStopped.bind(this));
-  }
-  
-  /**
-   * Handle ball stopped event (after rolling)
-   */
-  private handleBallStopped(): void {
-    // Only handle if we're in a rolling state (either regular rolling or boost-ready)
-    if (this.gameStateManager.isState(GameState.ROLLING) ||
-        this.gameStateManager.isState(GameState.BOOST_READY)) {
-      // Ball has stopped, return to IDLE
-      this.gameStateManager.setState(GameState.IDLE);
-      console.log('Ball stopped, returning to IDLE state');
-    }
   }
   
   /**
@@ -194,6 +189,9 @@ export class ShotController {
     // Hide trajectory
     this.trajectorySystem.hideTrajectory();
     
+    // Last chance to see the balls and parameters as they were (mulligans)
+    this.eventSystem.emit(GameEvents.SHOT_STARTING);
+    
     // Execute the shot physics with error handling
     const success = this.shotPhysics.executeShot();
     
@@ -202,6 +200,9 @@ export class ShotController {
       return;
     }
     
+    // The shot was taken - count the stroke
+    ScoreManager.getInstance().recordStroke();
+    
     // Show super shot effect if applicable
     if (this.parameterManager.isSuperShot) {
       this.showSuperShotEffect();
@@ -242,12 +243,10 @@ export class ShotController {
     
     // Update trajectory visualization
     this.trajectorySystem.predictTrajectory(
-      ballPosition,
-      this.parameterManager.getShotDirection(),
+      this.ballBody,
+      this.shotPhysics.getLaunch(),
       this.parameterManager.power,
-      this.parameterManager.shotType,
-      this.parameterManager.spinType,
-      this.parameterManager.spinIntensity
+      this.parameterManager.shotType
     );
     
     // If in SHOT_PANEL or CHARGING state, limit the trajectory length
@@ -372,6 +371,15 @@ export class ShotController {
     this.eventSystem.emit(GameEvents.SUPER_SHOT_READY, { executed: true });
   }
   
+  /**
+   * Fixed physics step, run before every step of the physics world
+   * @param timestep Physics step in seconds
+   */
+  public step(timestep: number): void {
+    this.magnusController.step(timestep);
+    this.rollController.step(timestep);
+  }
+  
   /**
    * Update method called once per frame
    */
@@ -400,6 +408,76 @@ export class ShotController {
     }
   }
   
+  /**
+   * Hand the controls to another ball (e.g. the next player's)
+   * Shot parameters start fresh for the new ball.
+   */
+  public setBall(ballBody: RAPIER.RigidBody): void {
+    if (ballBody === this.ballBody) return;
+    
+    this.ballBody = ballBody;
+    this.shotPhysics.setBallBody(ballBody);
+    this.boostController.setBallBody(ballBody);
+    this.rollController.setBallBody(ballBody);
+    this.magnusController.setBallBody(ballBody);
+    
+    this.parameterManager.resetParameters();
+    this.trajectorySystem.hideTrajectory();
+  }
+  
+  /**
+   * Get the shot parameters as set up
+   */
+  public getShotOptions(): ShotOptions {
+    return this.parameterManager.getOptions();
+  }
+  
+  /**
+   * Put the shot parameters back (e.g. to the shot a mulligan took back)
+   */
+  public restoreShotOptions(options: ShotOptions): void {
+    this.parameterManager.applyOptions(options);
+    this.trajectorySystem.hideTrajectory();
+  }
+  
+  /**
+   * Arm a copy ability for the shot being set up (null disarms)
+   * The trajectory preview updates to show its effect.
+   */
+  public armAbility(ability: AbilityType | null): void {
+    this.parameterManager.setAbility(ability);
+  }
+  
+  /**
+   * Get the copy ability armed for the shot being set up
+   */
+  public getArmedAbility(): AbilityType | null {
+    return this.parameterManager.ability;
+  }
+  
+  /**
+   * Apply the session modifiers to shot power and boost timing
+   * (the trajectory preview follows the world and the ball's material on its own)
+   */
+  public applyModifiers(effects: ModifierEffects): void {
+    this.parameterManager.setPowerScale(effects.powerScale);
+    this.boostController.setWindowScale(effects.boostWindowScale);
+  }
+  
+  /**
+   * Set the lookup for the ball's material the trajectory preview uses
+   */
+  public setBallMaterial(provider: BallMaterialProvider | null): void {
+    this.trajectorySystem.setBallMaterial(provider);
+  }
+  
+  /**
+   * Get the shot type being set up
+   */
+  public getShotType(): ShotType {
+    return this.parameterManager.shotType;
+  }
+  
   /**
    * Start a new shot sequence
    */
@@ -412,21 +490,12 @@ export class ShotController {
       return false;
     }
     
-    // Initialize ball position and shot parameters
-    const ballPosition = new THREE.Vector3(
-      this.ballBody.translation().x,
-      this.ballBody.translation().y,
-      this.ballBody.translation().z
-    );
-    
     // Pre-generate an initial trajectory to ensure it's ready for later phases
     this.trajectorySystem.predictTrajectory(
-      ballPosition,
-      this.parameterManager.getShotDirection(),
+      this.ballBody,
+      this.shotPhysics.getLaunch(),
       this.parameterManager.power,
-      this.parameterManager.shotType,
-      this.parameterManager.spinType,
-      this.parameterManager.spinIntensity
+      this.parameterManager.shotType
     );
     
     // Begin the shot sequence at the shot type selection phase
@@ -448,6 +517,7 @@ export class ShotController {
     this.powerController.dispose();
     this.spinController.dispose();
     this.boostController.dispose();
+    this.rollController.dispose();
     
     // Dispose of trajectory system
     this.trajectorySystem.dispose();
@@ -458,6 +528,5 @@ export class ShotController {
     this.eventSystem.off(GameEvents.SHOT_GUIDE_CONFIRM, this.handleGuideConfirm.bind(this));
     this.eventSystem.off(GameEvents.SHOT_EXECUTE, this.handleShotExecute.bind(this));
     this.eventSystem.off(GameEvents.SHOT_PARAMS_CHANGED, this.updateTrajectoryVisualization.bind(this));
-    this.eventSystem.off(GameEvents.BALL_STOPPED, this.handleBallStopped.bind(this));
   }
 } 
\ No newline at end of file
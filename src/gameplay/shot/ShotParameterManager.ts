@@ -1,5 +1,6 @@
 import * as THREE from 'three';
-import { ShotType, SpinType, GuideLength } from './ShotTypes';
+import { ShotType, SpinType, GuideLength, SHOT_TYPES, getLaunchSlope } from './ShotTypes';
+import { AbilityType } from '../abilities/AbilityTypes';
 import { EventSystem, GameEvents } from '../../utils/EventSystem';
 
 /**
@@ -28,6 +29,8 @@ export class ShotParameterManager {
   private _angle: number = 0;
   private _power: number = 0;
   private _guideLength: GuideLength = GuideLength.SHORT;
+  private _ability: AbilityType | null = null; // Copy ability armed for this shot
+  private _powerScale: number = 1; // Session modifier, kept across resets
   
   // Parameter constraints
   private shortGuideLength: number = 10;
@@ -35,8 +38,7 @@ export class ShotParameterManager {
   private maxPower: number = 30;
   private minPower: number = 5;
   private superShotThreshold: number = 0.95;
-  private groundShotHeight: number = 0.1;
-  private flyShotHeight: number = 8.0;
+  private groundShotHeight: number = 0.1; // Lift every shot gets so it clears the turf
   
   // Event system for parameter change notifications
   private eventSystem: EventSystem;
@@ -71,6 +73,21 @@ export class ShotParameterManager {
     return this._guideLength;
   }
   
+  get ability(): AbilityType | null {
+    return this._ability;
+  }
+  
+  get powerScale(): number {
+    return this._powerScale;
+  }
+  
+  /**
+   * Power as it reaches the ball (charged power times the session's power scale)
+   */
+  get effectivePower(): number {
+    return this._power * this._powerScale;
+  }
+  
   get currentGuideDistance(): number {
     return this._guideLength === GuideLength.SHORT ? this.shortGuideLength : this.longGuideLength;
   }
@@ -88,35 +105,24 @@ export class ShotParameterManager {
     // Base power calculation
     let basePower = this.minPower + (this.maxPower - this.minPower) * this._power;
     
-    // Apply shot type specific scaling
-    if (this._shotType === ShotType.FLY) {
-      // Fly shots have less horizontal power but more vertical power
-      // Reduce horizontal power by 15% compared to grounders
-      basePower *= 0.85;
-    } else {
-      // Ground shots maintain full horizontal power
-      // No modification needed
-    }
+    // Apply shot type specific scaling (lofted shots trade horizontal power for height)
+    basePower *= SHOT_TYPES[this._shotType].powerScale;
     
     // Apply super shot bonus (5% extra power when at max)
     if (this.isSuperShot) {
       basePower *= 1.05;
     }
     
-    return basePower;
+    return basePower * this._powerScale;
   }
   
   /**
-   * Get shot height based on shot type and power
+   * Get upward launch speed from the shot type's launch angle and power
    */
   getShotHeight(): number {
-    if (this._shotType === ShotType.GROUNDER) {
-      return this.groundShotHeight;
-    } else {
-      // For fly shots, height scales with power
-      const heightScale = this.isSuperShot ? 1.2 : 1.0; // 20% height bonus for super shots
-      return this.flyShotHeight * heightScale;
-    }
+    const heightScale = this.isSuperShot ? 1.2 : 1.0; // 20% height bonus for super shots
+    const loft = this.getActualShotPower() * getLaunchSlope(this._shotType) * heightScale;
+    return loft + this.groundShotHeight * this.effectivePower;
   }
   
   /**
@@ -140,7 +146,7 @@ export class ShotParameterManager {
     
     return new THREE.Vector3(
       direction.x * shotPower,
-      shotHeight * this._power, // Scale height with power
+      shotHeight,
       direction.z * shotPower
     );
   }
@@ -223,6 +229,23 @@ export class ShotParameterManager {
     }
   }
   
+  /**
+   * Arm a copy ability for this shot (null disarms)
+   */
+  setAbility(ability: AbilityType | null): void {
+    if (this._ability !== ability) {
+      this._ability = ability;
+      this.notifyParameterChanged();
+    }
+  }
+  
+  /**
+   * Scale the power of every shot (session modifiers)
+   */
+  setPowerScale(scale: number): void {
+    this._powerScale = Math.max(scale, 0.1);
+  }
+  
   /**
    * Reset shot parameters to default values
    */
@@ -230,6 +253,7 @@ export class ShotParameterManager {
     this._shotType = ShotType.GROUNDER;
     this._spinType = SpinType.NONE;
     this._spinIntensity = 0;
+    this._ability = null;
     
     if (!preservePower) {
       this._power = 0;
@@ -238,6 +262,20 @@ export class ShotParameterManager {
     this.notifyParameterChanged();
   }
   
+  /**
+   * Get the current parameters as options (applyOptions puts them back)
+   */
+  getOptions(): ShotOptions {
+    return {
+      power: this._power,
+      angle: this._angle,
+      shotType: this._shotType,
+      spinType: this._spinType,
+      spinIntensity: this._spinIntensity,
+      guideLength: this._guideLength
+    };
+  }
+  
   /**
    * Apply multiple parameters at once
    */
@@ -287,7 +325,8 @@ export class ShotParameterManager {
       spinIntensity: this._spinIntensity,
       angle: this._angle,
       power: this._power,
-      guideLength: this._guideLength
+      guideLength: this._guideLength,
+      ability: this._ability
     });
   }
 } 
\ No newline at end of file
@@ -1,7 +1,25 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { ShotParameterManager } from './ShotParameterManager';
-import { ShotType, SpinType } from './ShotTypes';
+import { ShotType, getShotBounceScale } from './ShotTypes';
+import { getLaunchSpin } from './SpinModel';
+import { MagnusController } from './MagnusController';
+import { AbilityType, getShotAbility, HOVER_GRAVITY_SCALE, WHEEL_SPEED_MULTIPLIER } from '../abilities/AbilityTypes';
+
+// Share of the ball's linear damping left on a super shot
+export const SUPER_SHOT_DAMPING_SCALE = 0.7;
+
+/**
+ * Everything a shot does to the ball as it is taken
+ * The trajectory preview replays the same launch in a shadow physics world.
+ */
+export interface ShotLaunch {
+  impulse: THREE.Vector3;   // Impulse applied to the ball
+  spin: THREE.Vector3;      // Spin the ball launches with (see SpinModel)
+  gravityScale: number;     // Gravity on the ball until it first lands (hover)
+  bounceScale: number;      // Shot type's scale on the ball's restitution
+  superShot: boolean;       // Ball launches without angular velocity and with less damping
+}
 
 /**
  * ShotPhysics - Handles the physics calculations and application for shots
@@ -9,16 +27,55 @@ import { ShotType, SpinType } from './ShotTypes';
  * Responsible for:
  * - Calculating shot vectors based on parameters
  * - Applying impulses to the ball
- * - Handling different shot types (grounder, fly)
- * - Applying spin effects to shots
+ * - Handling the shot types (launch angle and power from SHOT_TYPES)
+ * - Putting the shot's spin on the ball (applied in flight by the MagnusController)
+ * - Applying the armed copy ability (hover, wheel)
  */
 export class ShotPhysics {
   private ballBody: RAPIER.RigidBody;
   private parameterManager: ShotParameterManager;
+  private magnusController: MagnusController;
   
-  constructor(ballBody: RAPIER.RigidBody, parameterManager: ShotParameterManager) {
+  constructor(ballBody: RAPIER.RigidBody, parameterManager: ShotParameterManager, magnusController: MagnusController) {
     this.ballBody = ballBody;
     this.parameterManager = parameterManager;
+    this.magnusController = magnusController;
+  }
+  
+  /**
+   * Set the ball the shot is applied to
+   */
+  public setBallBody(ballBody: RAPIER.RigidBody): void {
+    this.ballBody = ballBody;
+  }
+  
+  /**
+   * Work out the launch for the current shot parameters
+   */
+  public getLaunch(): ShotLaunch {
+    const shotVector = this.parameterManager.calculateShotVector();
+    
+    // Slightly stronger impulse (1.2x force, keeping the shot type's launch angle), always with some upward component
+    const launch: ShotLaunch = {
+      impulse: new THREE.Vector3(shotVector.x * 1.2, Math.max(shotVector.y * 1.2, 0.3), shotVector.z * 1.2),
+      spin: getLaunchSpin(
+        this.parameterManager.spinType,
+        this.parameterManager.spinIntensity,
+        this.parameterManager.getShotDirection(),
+        this.parameterManager.isSuperShot
+      ),
+      gravityScale: 1,
+      bounceScale: getShotBounceScale(this.parameterManager.shotType),
+      superShot: this.parameterManager.isSuperShot
+    };
+    
+    // Copy abilities change the launch before the impulse is applied
+    const ability = getShotAbility(this.parameterManager.ability, this.parameterManager.shotType);
+    if (ability) {
+      this.applyAbilityToLaunch(ability, launch);
+    }
+    
+    return launch;
   }
   
   /**
@@ -50,12 +107,19 @@ export class ShotPhysics {
     // Method 1: Set zero linear velocity to reset any "at rest" state
     this.ballBody.setLinvel({ x: 0, y: 0, z: 0 }, true);
     
-    // Method 2: Apply slightly stronger impulse (1.2x force)
-    const impulseVector = {
-      x: shotVector.x * 1.2,
-      y: Math.max(shotVector.y, 0.3), // Ensure some upward component
-      z: shotVector.z * 1.2
-    };
+    // Method 2: Apply the launch impulse
+    const launch = this.getLaunch();
+    const impulseVector = { x: launch.impulse.x, y: launch.impulse.y, z: launch.impulse.z };
+    
+    // Hover gravity stays on until the ball first lands (restored by the AbilityManager)
+    if (launch.gravityScale !== 1) {
+      this.ballBody.setGravityScale(launch.gravityScale, true);
+    }
+    
+    const ability = getShotAbility(this.parameterManager.ability, this.parameterManager.shotType);
+    if (ability) {
+      console.log(`Ability shot: ${ability}`);
+    }
     
     console.log("APPLYING IMPULSE:", {
       x: impulseVector.x.toFixed(2),
@@ -75,13 +139,12 @@ export class ShotPhysics {
       }, true);
     }
     
-    // Apply spin based on spin type
-    if (this.parameterManager.spinType !== SpinType.NONE) {
-      this.applySpinToShot();
-    }
+    // Put the shot's spin on the ball (no spin clears what the last shot left);
+    // the MagnusController turns it into force in flight
+    this.magnusController.launch(launch.spin);
     
     // For super shots, apply additional stability (reduced random factors)
-    if (this.parameterManager.isSuperShot) {
+    if (launch.superShot) {
       this.applySuperShotEffects();
     }
     
@@ -104,50 +167,19 @@ export class ShotPhysics {
   }
   
   /**
-   * Apply spin forces to the shot
+   * Apply a copy ability to the launch
    */
-  private applySpinToShot(): void {
-    // Get direction from parameter manager
-    const direction = this.parameterManager.getShotDirection();
-    
-    // Calculate spin force based on spin type and intensity
-    const spinForce = new THREE.Vector3();
-    const spinStrength = 2.0 * this.parameterManager.spinIntensity;
-    
-    switch (this.parameterManager.spinType) {
-      case SpinType.LEFT:
-        // Spin around y-axis (left spin)
-        spinForce.set(0, spinStrength, 0);
+  private applyAbilityToLaunch(ability: AbilityType, launch: ShotLaunch): void {
+    switch (ability) {
+      case AbilityType.WHEEL:
+        launch.impulse.x *= WHEEL_SPEED_MULTIPLIER;
+        launch.impulse.z *= WHEEL_SPEED_MULTIPLIER;
         break;
-        
-      case SpinType.RIGHT:
-        // Spin around y-axis (right spin)
-        spinForce.set(0, -spinStrength, 0);
+      
+      case AbilityType.HOVER:
+        launch.gravityScale = HOVER_GRAVITY_SCALE;
         break;
-        
-      case SpinType.TOP:
-        // Top spin (affects fly shots)
-        // Calculate perpendicular vector to direction on xz plane
-        const perpVector = new THREE.Vector3(-direction.z, 0, direction.x);
-        spinForce.copy(perpVector).multiplyScalar(spinStrength);
-        break;
-        
-      case SpinType.BACK:
-        // Back spin (affects fly shots)
-        const perpVectorBack = new THREE.Vector3(-direction.z, 0, direction.x);
-        spinForce.copy(perpVectorBack).multiplyScalar(-spinStrength);
-        break;
-        
-      default:
-        // No spin
-        return;
     }
-    
-    // Apply torque impulse for spin
-    this.ballBody.applyTorqueImpulse(
-      { x: spinForce.x, y: spinForce.y, z: spinForce.z },
-      true
-    );
   }
   
   /**
@@ -159,7 +191,7 @@ export class ShotPhysics {
     
     // Reduce linear damping temporarily for more precise movement
     const originalDamping = this.ballBody.linearDamping();
-    this.ballBody.setLinearDamping(originalDamping * 0.7);
+    this.ballBody.setLinearDamping(originalDamping * SUPER_SHOT_DAMPING_SCALE);
     
     console.log('SUPER SHOT! Applied physics enhancements');
   }
@@ -73,13 +73,14 @@ export class ShotTypeController {
   
   /**
    * Handle shot type toggle input
+   * @param step 1 for the next type, -1 for the previous one
    */
-  private handleShotTypeToggle(): void {
+  private handleShotTypeToggle(step: number = 1): void {
     // Only toggle if in the shot type selection state
     if (!this.gameStateManager.isState(GameState.SELECTING_TYPE)) return;
     
-    // Toggle shot type in UI
-    const newType = this.shotTypeUI.toggleType();
+    // Step the shot type in UI
+    const newType = this.shotTypeUI.toggleType(step);
     
     // Update parameter manager
     this.parameterManager.setShotType(newType);
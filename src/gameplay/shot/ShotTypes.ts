@@ -1,9 +1,14 @@
 /**
  * Enum for different shot types
+ * Each is defined once in SHOT_TYPES; nothing else should branch on the type.
  */
 export enum ShotType {
-  GROUNDER = 'GROUNDER', // Ball rolls along the ground (like Kirby's Dream Course)
-  FLY = 'FLY'            // Ball follows an arc trajectory (like Kirby's Dream Course)
+  GROUNDER = 'GROUNDER',      // Ball rolls along the ground (like Kirby's Dream Course)
+  FLY = 'FLY',                // Ball follows an arc trajectory (like Kirby's Dream Course)
+  CHIP = 'CHIP',              // Short, steep hop that stops quickly
+  PUNCH = 'PUNCH',            // Low, hard flight that runs out after landing
+  LOB = 'LOB',                // High, soft arc over obstacles
+  POWER_DRIVE = 'POWER_DRIVE' // Long, flat drive with extra power
 }
 
 /**
@@ -23,4 +28,91 @@ export enum SpinType {
 export enum GuideLength {
   SHORT = 'SHORT', // Short guide for close shots
   LONG = 'LONG'    // Long guide for distant shots
+}
+
+/**
+ * Everything that makes a shot type behave and look the way it does
+ */
+export interface ShotTypeDefinition {
+  label: string;            // Shot type panel name
+  icon: string;             // Shot type panel symbol
+  color: number;            // Panel and landing indicator color
+  airborne: boolean;        // Flies (dashed preview, ring landing) or rolls along the ground
+  launchAngle: number;      // Degrees above horizontal the ball leaves at (super shots rise higher)
+  powerScale: number;       // Horizontal power relative to a full grounder
+  meterSpeed: number;       // Power meter fill speed relative to a grounder
+  bounceRetention: number;  // Share of vertical speed kept on a bounce
+  spins: SpinType[];        // Spins that can be put on the shot, in toggle order
+}
+
+/**
+ * Shot type table, in the order the shot type panel cycles through
+ */
+export const SHOT_TYPES: Record<ShotType, ShotTypeDefinition> = {
+  [ShotType.GROUNDER]: {
+    label: 'GROUNDER', icon: '➜', color: 0x55aaff, airborne: false,
+    launchAngle: 0, powerScale: 1.0, meterSpeed: 1.0,
+    bounceRetention: 0.3,
+    spins: [SpinType.NONE, SpinType.LEFT, SpinType.RIGHT]
+  },
+  [ShotType.FLY]: {
+    label: 'FLY', icon: '↗', color: 0xff44aa, airborne: true,
+    launchAngle: 17, powerScale: 0.85, meterSpeed: 0.85,
+    bounceRetention: 0.6,
+    spins: [SpinType.NONE, SpinType.LEFT, SpinType.RIGHT, SpinType.TOP, SpinType.BACK]
+  },
+  [ShotType.CHIP]: {
+    label: 'CHIP', icon: '⤴', color: 0x66dd66, airborne: true,
+    launchAngle: 40, powerScale: 0.3, meterSpeed: 0.8,
+    bounceRetention: 0.3,
+    spins: [SpinType.NONE, SpinType.TOP, SpinType.BACK]
+  },
+  [ShotType.PUNCH]: {
+    label: 'PUNCH', icon: '➟', color: 0xffaa33, airborne: true,
+    launchAngle: 8, powerScale: 0.9, meterSpeed: 1.0,
+    bounceRetention: 0.4,
+    spins: [SpinType.NONE, SpinType.LEFT, SpinType.RIGHT]
+  },
+  [ShotType.LOB]: {
+    label: 'LOB', icon: '⌒', color: 0xbb88ff, airborne: true,
+    launchAngle: 55, powerScale: 0.35, meterSpeed: 0.75,
+    bounceRetention: 0.25,
+    spins: [SpinType.NONE, SpinType.LEFT, SpinType.RIGHT, SpinType.BACK]
+  },
+  [ShotType.POWER_DRIVE]: {
+    label: 'POWER DRIVE', icon: '⇶', color: 0xff5555, airborne: true,
+    launchAngle: 12, powerScale: 1.15, meterSpeed: 1.2,
+    bounceRetention: 0.55,
+    spins: [SpinType.NONE, SpinType.LEFT, SpinType.RIGHT, SpinType.TOP]
+  }
+};
+
+/**
+ * All shot types, in panel order
+ */
+export const SHOT_TYPE_ORDER = Object.keys(SHOT_TYPES) as ShotType[];
+
+/**
+ * Get the next (or previous) shot type in panel order, wrapping around
+ * @param step 1 for the next type, -1 for the previous one
+ */
+export function cycleShotType(type: ShotType, step: number = 1): ShotType {
+  const count = SHOT_TYPE_ORDER.length;
+  const index = SHOT_TYPE_ORDER.indexOf(type);
+  return SHOT_TYPE_ORDER[(((index + step) % count) + count) % count];
+}
+
+/**
+ * Get the scale a shot type puts on the ball's restitution
+ * Bounce retention is relative to a fly shot, which bounces the way the surfaces are tuned.
+ */
+export function getShotBounceScale(type: ShotType): number {
+  return SHOT_TYPES[type].bounceRetention / SHOT_TYPES[ShotType.FLY].bounceRetention;
+}
+
+/**
+ * Get the share of a shot's horizontal speed that goes upward at launch
+ */
+export function getLaunchSlope(type: ShotType): number {
+  return Math.tan(SHOT_TYPES[type].launchAngle * Math.PI / 180);
 } 
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { GameStateManager, GameState } from '../../utils/GameStateManager';
 import { EventSystem, GameEvents } from '../../utils/EventSystem';
 import { ShotParameterManager } from './ShotParameterManager';
-import { ShotType, SpinType } from './ShotTypes';
+import { SpinType, SHOT_TYPES } from './ShotTypes';
 
 /**
  * SpinController - Handles spin selection during Phase 3 (Power and Spin Selection) of the shot system
@@ -10,7 +10,7 @@ import { ShotType, SpinType } from './ShotTypes';
  * - Managing spin type selection (LEFT, RIGHT, TOP, BACK, NONE)
  * - Handling spin intensity
  * - Providing spin selection UI and feedback
- * - Coordinating with shot type (different spin options for grounder vs fly shots)
+ * - Coordinating with shot type (each shot type lists the spins it allows)
  */
 export class SpinController {
   // Core dependencies
@@ -192,63 +192,21 @@ export class SpinController {
   
   /**
    * Validate spin type based on current shot type
-   * Only certain spin types are valid for each shot type
+   * Only the spins listed in the shot type's definition are valid
    */
   private validateSpinType(type: SpinType): SpinType {
-    const currentShotType = this.parameterManager.shotType;
-    
-    // For GROUNDER shots, only LEFT/RIGHT/NONE spins are valid
-    if (currentShotType === ShotType.GROUNDER) {
-      if (type === SpinType.TOP || type === SpinType.BACK) {
-        return SpinType.NONE; // Invalid spin type for grounders
-      }
-    }
-    
-    return type;
+    const allowedSpins = SHOT_TYPES[this.parameterManager.shotType].spins;
+    return allowedSpins.includes(type) ? type : SpinType.NONE;
   }
   
   /**
    * Toggle through available spin types based on current shot type
+   * (in the order the shot type's definition lists them, wrapping back to NONE)
    */
   public toggleSpinType(): SpinType {
-    const currentShotType = this.parameterManager.shotType;
-    
-    // For GROUNDER shots: NONE -> LEFT -> RIGHT -> NONE
-    if (currentShotType === ShotType.GROUNDER) {
-      switch (this.selectedSpinType) {
-        case SpinType.NONE:
-          this.setSpinType(SpinType.LEFT);
-          break;
-        case SpinType.LEFT:
-          this.setSpinType(SpinType.RIGHT);
-          break;
-        case SpinType.RIGHT:
-        default:
-          this.setSpinType(SpinType.NONE);
-          break;
-      }
-    }
-    // For FLY shots: NONE -> LEFT -> RIGHT -> TOP -> BACK -> NONE
-    else if (currentShotType === ShotType.FLY) {
-      switch (this.selectedSpinType) {
-        case SpinType.NONE:
-          this.setSpinType(SpinType.LEFT);
-          break;
-        case SpinType.LEFT:
-          this.setSpinType(SpinType.RIGHT);
-          break;
-        case SpinType.RIGHT:
-          this.setSpinType(SpinType.TOP);
-          break;
-        case SpinType.TOP:
-          this.setSpinType(SpinType.BACK);
-          break;
-        case SpinType.BACK:
-        default:
-          this.setSpinType(SpinType.NONE);
-          break;
-      }
-    }
+    const allowedSpins = SHOT_TYPES[this.parameterManager.shotType].spins;
+    const index = allowedSpins.indexOf(this.selectedSpinType);
+    this.setSpinType(allowedSpins[(index + 1) % allowedSpins.length]);
     
     return this.selectedSpinType;
   }
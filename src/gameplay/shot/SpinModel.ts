@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+import { SpinType } from './ShotTypes';
+
+/**
+ * Spin model shared by the real ball (MagnusController) and the trajectory preview
+ * (TrajectorySimulator), so the predicted path follows the same forces.
+ *
+ * Spin is a world-space axis whose length is the spin strength:
+ * - LEFT/RIGHT spin around the vertical axis and curve the ball sideways
+ * - TOP/BACK spin around the horizontal axis across the shot and push it down or lift it
+ */
+
+// Sideways/vertical acceleration per unit of spin per unit of speed
+export const MAGNUS_COEFFICIENT = 0.15;
+
+// Share of spin lost per second in the air and while rolling (exponential)
+export const AIR_SPIN_DECAY = 0.3;
+export const GROUND_SPIN_DECAY = 1.5;
+
+// Spin left on a super shot, which flies straighter
+export const SUPER_SHOT_SPIN_SCALE = 0.7;
+
+// Distance from the ground that still counts as touching it
+export const SPIN_GROUND_TOLERANCE = 0.05;
+
+// How topspin (positive) or backspin (negative) changes a bounce per unit of spin
+const BOUNCE_SPIN_GRIP = 0.3;   // Horizontal speed gained (lost for backspin)
+const BOUNCE_SPIN_LIFT = 0.4;   // Bounce height lost (gained for backspin)
+const BOUNCE_SPIN_USED = 0.5;   // Share of the top/back spin the bounce uses up
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Get the spin a shot launches the ball with
+ * @param direction Horizontal shot direction
+ * @param intensity Spin intensity (0-1)
+ */
+export function getLaunchSpin(
+  spinType: SpinType,
+  intensity: number,
+  direction: THREE.Vector3,
+  isSuperShot: boolean = false
+): THREE.Vector3 {
+  const strength = intensity * (isSuperShot ? SUPER_SHOT_SPIN_SCALE : 1);
+  const forward = new THREE.Vector3(direction.x, 0, direction.z).normalize();
+  const left = new THREE.Vector3().crossVectors(UP, forward);
+  
+  switch (spinType) {
+    case SpinType.LEFT:
+      return UP.clone().multiplyScalar(strength);
+    case SpinType.RIGHT:
+      return UP.clone().multiplyScalar(-strength);
+    case SpinType.TOP:
+      return left.multiplyScalar(strength);
+    case SpinType.BACK:
+      return left.multiplyScalar(-strength);
+    default:
+      return new THREE.Vector3();
+  }
+}
+
+/**
+ * Advance a spinning ball's velocity by one step of the Magnus force, and wear the spin down
+ * On the ground only the sideways part of the force acts; the turf takes the rest.
+ * @param velocity Ball velocity (changed in place)
+ * @param spin Ball spin (changed in place)
+ */
+export function applyMagnusStep(
+  velocity: THREE.Vector3,
+  spin: THREE.Vector3,
+  timestep: number,
+  onGround: boolean
+): void {
+  if (spin.lengthSq() === 0) return;
+  
+  const acceleration = new THREE.Vector3().crossVectors(spin, velocity).multiplyScalar(MAGNUS_COEFFICIENT);
+  if (onGround) {
+    acceleration.y = 0;
+  }
+  velocity.addScaledVector(acceleration, timestep);
+  
+  spin.multiplyScalar(Math.exp(-(onGround ? GROUND_SPIN_DECAY : AIR_SPIN_DECAY) * timestep));
+}
+
+/**
+ * Change a bounce for the ball's topspin or backspin
+ * Topspin kicks the ball forward and keeps it low; backspin checks it up and pops it higher.
+ * @param velocity Velocity just after the bounce (changed in place)
+ * @param spin Ball spin (changed in place)
+ */
+export function applySpinBounce(velocity: THREE.Vector3, spin: THREE.Vector3): void {
+  const forward = new THREE.Vector3(velocity.x, 0, velocity.z);
+  if (forward.lengthSq() < 1e-6 || spin.lengthSq() === 0) return;
+  forward.normalize();
+  
+  // Spin around the axis across the shot: positive is topspin
+  const left = new THREE.Vector3().crossVectors(UP, forward);
+  const roll = spin.dot(left);
+  
+  const grip = Math.max(1 + BOUNCE_SPIN_GRIP * roll, 0);
+  velocity.x *= grip;
+  velocity.z *= grip;
+  velocity.y *= Math.max(1 - BOUNCE_SPIN_LIFT * roll, 0);
+  
+  spin.addScaledVector(left, -roll * BOUNCE_SPIN_USED);
+} 
\ No newline at end of file
@@ -1,7 +1,11 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { EventSystem, GameEvents } from '../utils/EventSystem';
-import { BallEntity } from '../entities/BallEntity';
+import { BallEntity, BallCollisionEvent } from '../entities/BallEntity';
+import { PropEntity, PropType } from '../entities/PropEntity';
+import { TeleporterEntity } from '../entities/TeleporterEntity';
+import { TargetEntity, TargetHitEvent } from '../entities/TargetEntity';
+import { PickupEntity, PickupReachedEvent } from '../entities/PickupEntity';
 import { GameStateManager, GameState } from '../utils/GameStateManager';
 
 /**
@@ -13,22 +17,49 @@ export interface CollisionConfig {
   minBounceVelocity: number;
 }
 
+/**
+ * Event emitted for a hit on each prop type
+ */
+const PROP_HIT_EVENTS: Record<PropType, string> = {
+  [PropType.BUMPER]: GameEvents.BUMPER_HIT,
+  [PropType.SPRING]: GameEvents.SPRING_LAUNCH,
+  [PropType.BOOST_PAD]: GameEvents.BOOST_PAD_HIT
+};
+
 /**
  * CollisionHandler - Centralizes collision detection and response logic
  * 
  * This class handles collision events from the physics system and
- * implements appropriate responses based on game state.
+ * implements appropriate responses based on game state. It knows every ball on
+ * the course: props, teleporters, targets and pickups act on whichever ball touches them, a ball
+ * knocked by another is tracked until it stops, and the shot only ends once all
+ * balls in play are at rest.
  */
 export class CollisionHandler {
   private eventSystem: EventSystem;
   private gameStateManager: GameStateManager;
-  private ball: BallEntity;
+  private ball: BallEntity; // The ball in play (the one the shot was hit with)
+  private balls: BallEntity[] = [];
+  private ballsByCollider: Map<number, BallEntity> = new Map();
   private physicsWorld: RAPIER.World;
   private config: CollisionConfig;
   
   // Store for active collisions
   private activeCollisions: Set<number> = new Set();
   
+  // Props of the current hole by collider handle
+  private propsByCollider: Map<number, PropEntity> = new Map();
+  
+  // Teleporter pads of the current hole by sensor handle
+  private teleportersBySensor: Map<number, TeleporterEntity> = new Map();
+  
+  // Targets of the current hole by sensor handle
+  private targets: TargetEntity[] = [];
+  private targetsBySensor: Map<number, TargetEntity> = new Map();
+  
+  // Power-up pickups of the current hole by sensor handle
+  private pickupsBySensor: Map<number, PickupEntity> = new Map();
+  
   /**
    * Constructor
    */
@@ -39,6 +70,7 @@ export class CollisionHandler {
   ) {
     this.physicsWorld = world;
     this.ball = ball;
+    this.setBalls([ball]);
     this.eventSystem = EventSystem.getInstance();
     this.gameStateManager = GameStateManager.getInstance();
     
@@ -67,12 +99,15 @@ export class CollisionHandler {
       const velocity = this.ball.getVelocity();
       const speed = velocity.length();
       
+      // Surface under the ball (sand doesn't allow boosts)
+      const surface = this.ball.getSurface();
+      
       // Check for rapid velocity changes which indicate collisions
       if (speed > this.config.minBounceVelocity && 
           this.gameStateManager.isState(GameState.ROLLING)) {
         
         // Consider this a potential boost opportunity
-        if (speed > this.config.boostSpeedThreshold) {
+        if (speed > this.config.boostSpeedThreshold && surface.boostEligible) {
           // Transition to BOOST_READY state
           this.gameStateManager.setState(GameState.BOOST_READY);
           
@@ -81,6 +116,7 @@ export class CollisionHandler {
             velocity,
             position: new THREE.Vector3(ballPos.x, ballPos.y, ballPos.z),
             normal: new THREE.Vector3(0, 1, 0), // Default normal
+            surface: surface.type,
             collisionId: Date.now() // Unique ID
           });
           
@@ -93,7 +129,169 @@ export class CollisionHandler {
   }
   
   /**
-   * Check if ball has stopped moving
+   * Set the ball in play
+   */
+  public setBall(ball: BallEntity): void {
+    this.ball = ball;
+    this.activeCollisions.clear();
+    
+    if (!this.balls.includes(ball)) {
+      this.setBalls([...this.balls, ball]);
+    }
+  }
+  
+  /**
+   * Set all balls on the course (including the ball in play)
+   */
+  public setBalls(balls: BallEntity[]): void {
+    this.balls = balls;
+    this.ballsByCollider.clear();
+    balls.forEach(ball => this.ballsByCollider.set(ball.getCollider().handle, ball));
+  }
+  
+  /**
+   * Set the props of the current hole
+   * Call this after each hole is built.
+   */
+  public setProps(props: PropEntity[]): void {
+    this.propsByCollider.clear();
+    props.forEach(prop => this.propsByCollider.set(prop.getCollider().handle, prop));
+  }
+  
+  /**
+   * Set the teleporter pads of the current hole
+   * Call this after each hole is built.
+   */
+  public setTeleporters(teleporters: TeleporterEntity[]): void {
+    this.teleportersBySensor.clear();
+    teleporters.forEach(teleporter => this.teleportersBySensor.set(teleporter.getSensor().handle, teleporter));
+  }
+  
+  /**
+   * Set the targets of the current hole
+   * Call this after each hole is built.
+   */
+  public setTargets(targets: TargetEntity[]): void {
+    this.targets = targets;
+    this.targetsBySensor.clear();
+    targets.forEach(target => this.targetsBySensor.set(target.getSensor().handle, target));
+  }
+  
+  /**
+   * Set the power-up pickups of the current hole
+   * Call this after each hole is built.
+   */
+  public setPickups(pickups: PickupEntity[]): void {
+    this.pickupsBySensor.clear();
+    pickups.forEach(pickup => this.pickupsBySensor.set(pickup.getSensor().handle, pickup));
+  }
+  
+  /**
+   * Handle a contact that started during the last physics step
+   * Wire this to PhysicsWorld.setOnContactStart.
+   */
+  public handleContactStart(collider1: RAPIER.Collider, collider2: RAPIER.Collider): void {
+    const ball1 = this.ballsByCollider.get(collider1.handle);
+    const ball2 = this.ballsByCollider.get(collider2.handle);
+    
+    if (ball1 && ball2) {
+      this.handleBallCollision(ball1, ball2);
+      return;
+    }
+    
+    const ball = ball1 ?? ball2;
+    if (!ball) return;
+    const other = ball1 ? collider2 : collider1;
+    
+    if (ball === this.ball) {
+      this.activeCollisions.add(other.handle);
+    }
+    
+    const prop = this.propsByCollider.get(other.handle);
+    if (prop) {
+      const hit = prop.hit(ball);
+      this.eventSystem.emit(PROP_HIT_EVENTS[hit.type], hit);
+    }
+    
+    const teleporter = this.teleportersBySensor.get(other.handle);
+    if (teleporter) {
+      const warp = teleporter.warp(ball);
+      if (warp) {
+        this.eventSystem.emit(GameEvents.BALL_WARPED, warp);
+      }
+    }
+    
+    const target = this.targetsBySensor.get(other.handle);
+    if (target && target.knockOut()) {
+      this.targetsBySensor.delete(other.handle);
+      
+      const event: TargetHitEvent = {
+        ball,
+        position: target.getPosition(),
+        remaining: this.targets.filter(entry => !entry.isKnockedOut()).length,
+        total: this.targets.length,
+        ability: target.getAbility()
+      };
+      this.eventSystem.emit(GameEvents.TARGET_HIT, event);
+    }
+    
+    const pickup = this.pickupsBySensor.get(other.handle);
+    if (pickup && !pickup.isCollected()) {
+      const event: PickupReachedEvent = { ball, pickup, type: pickup.getType() };
+      this.eventSystem.emit(GameEvents.PICKUP_REACHED, event);
+    }
+  }
+  
+  /**
+   * Handle a contact that ended during the last physics step
+   * Wire this to PhysicsWorld.setOnContactEnd.
+   */
+  public handleContactEnd(collider1: RAPIER.Collider, collider2: RAPIER.Collider): void {
+    const ballHandle = this.ball.getCollider().handle;
+    
+    if (collider1.handle === ballHandle) {
+      this.activeCollisions.delete(collider2.handle);
+    } else if (collider2.handle === ballHandle) {
+      this.activeCollisions.delete(collider1.handle);
+    }
+  }
+  
+  /**
+   * Handle two balls hitting each other
+   * Both balls are tracked as moving until they stop, and the faster one into
+   * the other is reported as the striker.
+   */
+  private handleBallCollision(ball1: BallEntity, ball2: BallEntity): void {
+    const position1 = ball1.getPosition();
+    const position2 = ball2.getPosition();
+    const velocity1 = ball1.getVelocity();
+    const velocity2 = ball2.getVelocity();
+    
+    // Speed of each ball toward the other
+    const direction = position2.clone().sub(position1);
+    if (direction.lengthSq() > 0) direction.normalize();
+    const approach1 = velocity1.dot(direction);
+    const approach2 = -velocity2.dot(direction);
+    
+    const [striker, struck] = approach1 >= approach2 ? [ball1, ball2] : [ball2, ball1];
+    
+    ball1.setMoving(true);
+    ball2.setMoving(true);
+    
+    const event: BallCollisionEvent = {
+      striker,
+      struck,
+      strikerOwner: striker.getOwner(),
+      struckOwner: struck.getOwner(),
+      position: position1.add(position2).multiplyScalar(0.5),
+      impactSpeed: Math.max(0, approach1 + approach2)
+    };
+    
+    this.eventSystem.emit(GameEvents.BALL_COLLISION, event);
+  }
+  
+  /**
+   * Check if the balls have stopped moving
    * Call this from the game update loop
    */
   public checkBallStopped(): void {
@@ -101,56 +299,56 @@ export class CollisionHandler {
     if (!this.gameStateManager.isState(GameState.ROLLING) && 
         !this.gameStateManager.isState(GameState.BOOST_READY)) return;
     
-    // Get current velocity
-    const velocity = this.ball.getVelocity();
-    const speed = velocity.length();
-    
-    // Perform a more reliable stop check
-    if (speed < this.config.ballStopThreshold) {
-      // Double check that it's not just momentarily slow
-      // For example, at the peak of an arc
-      if (this.isGrounded()) {
-        console.log(`Ball has stopped: speed=${speed.toFixed(2)}`);
-        
-        // Zero out any remaining velocity to ensure it's really stopped
-        this.zeroOutBallVelocity();
-        
-        // Update ball state
-        this.ball.setMoving(false);
-        
-        // Emit ball stopped event
-        this.eventSystem.emit(GameEvents.BALL_STOPPED, this.ball.getPosition());
-        
-        // Transition to IDLE state
-        this.gameStateManager.setState(GameState.IDLE);
+    // The ball in play is checked every frame, other balls while they move
+    const ballInPlayStopped = this.checkSingleBallStopped(this.ball);
+    this.balls.forEach(ball => {
+      if (ball !== this.ball && ball.isInPlay() && ball.isMovingState()) {
+        this.checkSingleBallStopped(ball);
       }
-    }
+    });
+    
+    // The shot is over once every ball has stopped
+    if (!ballInPlayStopped || this.isAnyBallMoving()) return;
+    
+    // Emit ball stopped event (the game ends the shot and returns to IDLE)
+    this.eventSystem.emit(GameEvents.BALL_STOPPED, this.ball.getPosition());
   }
   
   /**
-   * Check if ball is on the ground
+   * Stop a ball that has come to rest
+   * @returns True if the ball is at rest
    */
-  private isGrounded(): boolean {
-    const position = this.ball.getPosition();
-    const radius = this.ball.getRadius();
-    const velocity = this.ball.getVelocity();
+  private checkSingleBallStopped(ball: BallEntity): boolean {
+    // Get current velocity
+    const speed = ball.getVelocity().length();
     
-    // Ball is considered grounded if:
-    // 1. Vertical velocity is very small
-    // 2. Position is close to the ground (accounting for radius)
-    const isNearGround = position.y <= radius + 0.1;
-    const hasSmallVerticalVelocity = Math.abs(velocity.y) < 0.1;
+    // Perform a more reliable stop check
+    // Double check that it's not just momentarily slow
+    // For example, at the peak of an arc
+    if (ball.isSettling() || speed >= this.config.ballStopThreshold || !ball.isGrounded()) {
+      return false;
+    }
+    
+    if (ball.isMovingState()) {
+      console.log(`Ball has stopped: speed=${speed.toFixed(2)}`);
+      
+      // Zero out any remaining velocity to ensure it's really stopped
+      ball.zeroVelocity();
+      
+      // Update ball state
+      ball.setMoving(false);
+      
+      this.eventSystem.emit(GameEvents.BALL_AT_REST, ball.getPosition(), ball);
+    }
     
-    return isNearGround && hasSmallVerticalVelocity;
+    return true;
   }
   
   /**
-   * Zero out ball velocity completely
+   * Check whether any ball on the course is still moving
    */
-  private zeroOutBallVelocity(): void {
-    const rigidBody = this.ball.getRigidBody();
-    rigidBody.setLinvel({ x: 0, y: 0, z: 0 }, true);
-    rigidBody.setAngvel({ x: 0, y: 0, z: 0 }, true);
+  public isAnyBallMoving(): boolean {
+    return this.balls.some(ball => ball.isInPlay() && ball.isMovingState());
   }
   
   /**
@@ -169,5 +367,11 @@ export class CollisionHandler {
    */
   public dispose(): void {
     this.activeCollisions.clear();
+    this.ballsByCollider.clear();
+    this.propsByCollider.clear();
+    this.teleportersBySensor.clear();
+    this.targets = [];
+    this.targetsBySensor.clear();
+    this.pickupsBySensor.clear();
   }
 } 
\ No newline at end of file
@@ -0,0 +1,20 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+
+/**
+ * Get the distance from the bottom of a ball body to the surface below it
+ * Casts a ray straight down from the ball's center past its own collider (the
+ * body's first, a ball) and past sensors (cup, teleporters, pickups), which the
+ * ball rolls through rather than on. Used by the ball, the spin and roll
+ * controllers and the trajectory preview, so they all agree on the ground.
+ * @param maxDistance Farthest distance below the ball to look for ground
+ * @returns Distance to the ground, or Infinity if nothing is within maxDistance
+ */
+export function getGroundDistance(world: RAPIER.World, body: RAPIER.RigidBody, maxDistance: number = 10): number {
+  const collider = body.collider(0);
+  const radius = collider.radius();
+  const position = body.translation();
+  const ray = new RAPIER.Ray({ x: position.x, y: position.y, z: position.z }, { x: 0, y: -1, z: 0 });
+  
+  const hit = world.castRay(ray, radius + maxDistance, true, RAPIER.QueryFilterFlags.EXCLUDE_SENSORS, undefined, collider);
+  return hit ? hit.toi - radius : Infinity;
+} 
\ No newline at end of file
@@ -21,6 +21,11 @@ type CollisionCallback = (
   collider2: RAPIER.Collider
 ) => void;
 
+/**
+ * Type for callbacks run before each fixed physics step
+ */
+type StepCallback = (timestep: number) => void;
+
 /**
  * PhysicsWorld - Manages Rapier physics simulation
  */
@@ -30,6 +35,7 @@ export class PhysicsWorld {
   private debugRenderer: THREE.LineSegments | null = null;
   private debugScene: THREE.Scene | null = null;
   private accumulator: number = 0;
+  private eventQueue: RAPIER.EventQueue;
   
   // Maps to track entities and colliders
   private rigidBodyToEntity: Map<number, any> = new Map();
@@ -39,6 +45,9 @@ export class PhysicsWorld {
   private onContactStart: CollisionCallback | null = null;
   private onContactEnd: CollisionCallback | null = null;
   
+  // Callbacks run before every fixed step (kinematic motion, per-step forces)
+  private stepCallbacks: StepCallback[] = [];
+  
   /**
    * Constructor
    */
@@ -63,9 +72,29 @@ export class PhysicsWorld {
    * Set up physics event handlers
    */
   private setupEventHandlers(): void {
-    // Instead of trying to use the event handling system directly,
-    // we'll check for collisions manually in the update method
-    // This avoids API compatibility issues
+    // Collision events are collected during each step and dispatched right after it.
+    // Only colliders with ActiveEvents.COLLISION_EVENTS (on either side) report them.
+    this.eventQueue = new RAPIER.EventQueue(true);
+  }
+  
+  /**
+   * Dispatch the collision events of the last step to the contact callbacks
+   */
+  private dispatchCollisionEvents(): void {
+    this.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+      const callback = started ? this.onContactStart : this.onContactEnd;
+      if (!callback) return;
+      
+      const collider1 = this.world.getCollider(handle1);
+      const collider2 = this.world.getCollider(handle2);
+      if (!collider1 || !collider2) return;
+      
+      const body1 = collider1.parent();
+      const body2 = collider2.parent();
+      if (!body1 || !body2) return;
+      
+      callback(body1, body2, collider1, collider2);
+    });
   }
   
   /**
@@ -84,17 +113,19 @@ export class PhysicsWorld {
     
     // Fixed timestep loop
     while (this.accumulator >= this.settings.timestep) {
+      // Let step callbacks move kinematic bodies for this step
+      this.stepCallbacks.forEach(callback => callback(this.settings.timestep));
+      
       // Step the physics world forward
-      this.world.step();
+      this.world.step(this.eventQueue);
+      
+      // Report contacts that started or ended during this step
+      this.dispatchCollisionEvents();
       
       // Decrease accumulator
       this.accumulator -= this.settings.timestep;
     }
     
-    // Check for collisions manually
-    // This is a simplified approach that avoids using the event system
-    // A real implementation would iterate through all collider pairs
-    
     // Update debug visuals if enabled
     if (this.settings.debug && this.debugRenderer) {
       this.updateDebugRenderer();
@@ -123,6 +154,29 @@ export class PhysicsWorld {
     this.onContactEnd = callback;
   }
   
+  /**
+   * Add a callback that runs before every fixed physics step
+   * Callbacks receive the fixed timestep, so anything driven by them stays in
+   * step with the simulation regardless of frame rate.
+   */
+  public addStepCallback(callback: StepCallback): void {
+    this.stepCallbacks.push(callback);
+  }
+  
+  /**
+   * Remove a step callback
+   */
+  public removeStepCallback(callback: StepCallback): void {
+    this.stepCallbacks = this.stepCallbacks.filter(existing => existing !== callback);
+  }
+  
+  /**
+   * Get the fixed physics timestep in seconds
+   */
+  public getTimestep(): number {
+    return this.settings.timestep;
+  }
+  
   /**
    * Create a rigid body
    */
@@ -341,6 +395,10 @@ export class PhysicsWorld {
     // Clear entity maps
     this.rigidBodyToEntity.clear();
     this.colliderToEntity.clear();
+    this.stepCallbacks = [];
+    this.onContactStart = null;
+    this.onContactEnd = null;
+    this.eventQueue.free();
     
     // Remove debug renderer
     if (this.debugRenderer && this.debugScene) {
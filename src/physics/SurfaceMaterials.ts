@@ -0,0 +1,163 @@
+/**
+ * Named surface types a course can use
+ */
+export enum SurfaceType {
+  FAIRWAY = 'fairway', // Standard grass
+  ROUGH = 'rough',     // Long grass - slows the ball
+  SAND = 'sand',       // Bunker - kills speed and bounce
+  ICE = 'ice',         // Slippery - the ball keeps its speed
+  BUMPER = 'bumper'    // Springy - strong bounces
+}
+
+/**
+ * Physical properties of a surface
+ *
+ * Friction and restitution are the combined contact values between the ball
+ * and the surface. The ball takes them over from the surface it is on, so
+ * ground colliders themselves stay neutral (zero friction and restitution).
+ */
+export interface SurfaceMaterial {
+  type: SurfaceType;
+  friction: number;        // Contact friction with the ball
+  restitution: number;     // Bounciness of the ball on this surface
+  rollingDamping: number;  // Linear and angular damping while the ball rolls on it
+  boostEligible: boolean;  // Whether bounces on this surface open a boost window
+  color: number;           // Display color for tiles and regions
+}
+
+/**
+ * Surface material table
+ */
+export const SURFACE_MATERIALS: Record<SurfaceType, SurfaceMaterial> = {
+  [SurfaceType.FAIRWAY]: {
+    type: SurfaceType.FAIRWAY,
+    friction: 0.55,
+    restitution: 0.45,
+    rollingDamping: 0.5,
+    boostEligible: true,
+    color: 0x7ec850
+  },
+  [SurfaceType.ROUGH]: {
+    type: SurfaceType.ROUGH,
+    friction: 0.8,
+    restitution: 0.3,
+    rollingDamping: 1.5,
+    boostEligible: true,
+    color: 0x4f8f32
+  },
+  [SurfaceType.SAND]: {
+    type: SurfaceType.SAND,
+    friction: 1.0,
+    restitution: 0.05,
+    rollingDamping: 4.0,
+    boostEligible: false,
+    color: 0xe8d49a
+  },
+  [SurfaceType.ICE]: {
+    type: SurfaceType.ICE,
+    friction: 0.02,
+    restitution: 0.5,
+    rollingDamping: 0.15,
+    boostEligible: true,
+    color: 0xc8ecff
+  },
+  [SurfaceType.BUMPER]: {
+    type: SurfaceType.BUMPER,
+    friction: 0.2,
+    restitution: 0.95,
+    rollingDamping: 0.5,
+    boostEligible: true,
+    color: 0xf4e4b0
+  }
+};
+
+/**
+ * Check whether a name is a known surface type
+ */
+export function isSurfaceType(name: string): name is SurfaceType {
+  return Object.values(SurfaceType).includes(name as SurfaceType);
+}
+
+/**
+ * Get the material for a surface name, falling back to fairway
+ */
+export function getSurfaceMaterial(name: string): SurfaceMaterial {
+  if (!isSurfaceType(name)) {
+    console.warn(`Unknown surface '${name}', using fairway`);
+    return SURFACE_MATERIALS[SurfaceType.FAIRWAY];
+  }
+  
+  return SURFACE_MATERIALS[name];
+}
+
+/**
+ * A rectangular area of the course with its own surface
+ */
+export interface SurfaceRegion {
+  surface: SurfaceType;
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/**
+ * SurfaceMap - Answers which surface lies at a given x/z position
+ *
+ * Lookup order: per-tile surfaces, then regions (later regions win where they
+ * overlap), then the hole's default surface.
+ */
+export class SurfaceMap {
+  private defaultSurface: SurfaceType;
+  private regions: SurfaceRegion[] = [];
+  private tileSampler: ((x: number, z: number) => SurfaceType | null) | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor(defaultSurface: SurfaceType = SurfaceType.FAIRWAY) {
+    this.defaultSurface = defaultSurface;
+  }
+  
+  /**
+   * Add a rectangular surface region
+   */
+  public addRegion(region: SurfaceRegion): void {
+    this.regions.push(region);
+  }
+  
+  /**
+   * Set the lookup for per-tile surfaces
+   * The sampler returns null where a tile has no surface of its own.
+   */
+  public setTileSampler(sampler: ((x: number, z: number) => SurfaceType | null) | null): void {
+    this.tileSampler = sampler;
+  }
+  
+  /**
+   * Get the surface type at a world position
+   */
+  public getSurfaceTypeAt(x: number, z: number): SurfaceType {
+    if (this.tileSampler) {
+      const tileSurface = this.tileSampler(x, z);
+      if (tileSurface) return tileSurface;
+    }
+    
+    // Later regions are painted over earlier ones
+    for (let i = this.regions.length - 1; i >= 0; i--) {
+      const region = this.regions[i];
+      if (x >= region.minX && x <= region.maxX && z >= region.minZ && z <= region.maxZ) {
+        return region.surface;
+      }
+    }
+    
+    return this.defaultSurface;
+  }
+  
+  /**
+   * Get the surface material at a world position
+   */
+  public getSurfaceAt(x: number, z: number): SurfaceMaterial {
+    return SURFACE_MATERIALS[this.getSurfaceTypeAt(x, z)];
+  }
+} 
\ No newline at end of file
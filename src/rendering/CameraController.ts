@@ -25,6 +25,11 @@ export class CameraController {
   private targetPosition: THREE.Vector3 = new THREE.Vector3();
   private ballVelocity: THREE.Vector3 | null = null;
   
+  // Warp transitions also glide the look-at point from the old target to the new one
+  private isWarpTransition: boolean = false;
+  private warpReturnMode: CameraMode = CameraMode.FOLLOW;
+  private warpDuration: number = 700; // ms
+  
   // Camera settings
   private distance: number = 25;
   private height: number = 15;
@@ -134,6 +139,11 @@ export class CameraController {
    * Update camera during transition between modes
    */
   private updateTransition(): void {
+    if (this.isWarpTransition) {
+      this.updateWarpTransition();
+      return;
+    }
+    
     // Calculate elapsed time
     const elapsed = Date.now() - this.transitionStartTime;
     const progress = Math.min(elapsed / this.transitionDuration, 1);
@@ -154,6 +164,49 @@ export class CameraController {
     }
   }
   
+  /**
+   * Update camera while gliding to the ball's new position after a warp
+   */
+  private updateWarpTransition(): void {
+    const elapsed = Date.now() - this.transitionStartTime;
+    const progress = Math.min(elapsed / this.warpDuration, 1);
+    const eased = progress * progress * (3 - 2 * progress);
+    
+    // The ball keeps moving after the warp, so aim for where it is now
+    const lookAt = new THREE.Vector3().lerpVectors(this.startTarget, this.target, eased);
+    const endPosition = new THREE.Vector3().copy(this.target).add(this.offset);
+    
+    this.camera.position.lerpVectors(this.startPosition, endPosition, eased);
+    this.camera.lookAt(lookAt);
+    
+    if (progress >= 1) {
+      this.isWarpTransition = false;
+      this.currentMode = this.warpReturnMode;
+    }
+  }
+  
+  /**
+   * Glide the camera from one point to another, e.g. after a warp or when the
+   * turn passes to another player's ball
+   * Replaces the snap the follow camera would otherwise make.
+   */
+  public startWarpTransition(from: THREE.Vector3, to: THREE.Vector3): void {
+    // Return to the mode we were in (or were heading to)
+    if (this.currentMode !== CameraMode.TRANSITION) {
+      this.warpReturnMode = this.currentMode;
+    } else if (!this.isWarpTransition) {
+      this.warpReturnMode = CameraMode.FOLLOW;
+    }
+    
+    this.startPosition.copy(this.camera.position);
+    this.startTarget.copy(from);
+    this.target.copy(to);
+    
+    this.isWarpTransition = true;
+    this.currentMode = CameraMode.TRANSITION;
+    this.transitionStartTime = Date.now();
+  }
+  
   /**
    * Set camera mode
    */
@@ -163,6 +216,7 @@ export class CameraController {
     
     // Store current position for transitions
     this.startPosition.copy(this.camera.position);
+    this.isWarpTransition = false;
     
     // Update current mode
     this.currentMode = mode;
@@ -215,6 +269,7 @@ export class CameraController {
     
     // Store current position
     this.startPosition.copy(this.camera.position);
+    this.isWarpTransition = false;
     
     // Calculate target position based on new mode
     switch (mode) {
@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { ShotType } from '../../gameplay/shot/ShotTypes';
+import { ShotType, SHOT_TYPES } from '../../gameplay/shot/ShotTypes';
 
 /**
  * TrajectoryRenderer - Handles the visualization of shot trajectories
@@ -97,11 +97,11 @@ export class TrajectoryRenderer {
     this.updateGeometry(points);
     
     // Change appearance based on shot type
-    if (shotType === ShotType.GROUNDER) {
-      // For grounder shots, use a basic material with different colors
+    if (!SHOT_TYPES[shotType].airborne) {
+      // For ground shots, use a basic material with different colors
       this.updateGrounderLineAppearance(power);
     } else {
-      // For fly shots, use a dashed material with different colors
+      // For airborne shots, use a dashed material with different colors
       this.updateFlyLineAppearance(power);
     }
   }
@@ -258,17 +258,18 @@ export class TrajectoryRenderer {
     }
     
     // Create geometry based on shot type
+    const shotDefinition = SHOT_TYPES[shotType];
     let geometry;
-    if (shotType === ShotType.GROUNDER) {
-      // Circular target for GROUNDER shots
+    if (!shotDefinition.airborne) {
+      // Circular target for ground shots
       geometry = new THREE.CircleGeometry(0.3, 16);
     } else {
-      // Ring for FLY shots
+      // Ring for airborne shots
       geometry = new THREE.RingGeometry(0.2, 0.4, 16);
     }
     
     const material = new THREE.MeshBasicMaterial({
-      color: shotType === ShotType.GROUNDER ? 0x00ff00 : 0xff9900,
+      color: shotDefinition.color,
       transparent: true,
       opacity: 0.6,
       side: THREE.DoubleSide
@@ -1,173 +1,184 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
-import { ShotType, SpinType } from '../../gameplay/shot/ShotTypes';
+import { BallMaterial } from '../../entities/BallEntity';
+import { ShotLaunch, SUPER_SHOT_DAMPING_SCALE } from '../../gameplay/shot/ShotPhysics';
+import { applyMagnusStep, applySpinBounce, SPIN_GROUND_TOLERANCE } from '../../gameplay/shot/SpinModel';
+import { getGroundDistance } from '../../physics/GroundProbe';
+
+/**
+ * Lookup for the ball's material at a point of the course (see BallEntity.getMaterialAt)
+ */
+export type BallMaterialProvider = (
+  x: number,
+  z: number,
+  isOnSurface: boolean,
+  shotBounceScale: number
+) => BallMaterial;
 
 /**
  * TrajectorySimulator - Handles the simulation of shot trajectories
- * 
+ *
  * Responsible for:
- * - Simulating ball physics for trajectory prediction
- * - Calculating bounce points and trajectories
- * - Handling different shot types and spin effects
- * - Supporting both ground shots and fly shots
+ * - Replaying the real shot launch in a shadow copy of the physics world
+ * - Recording the ball's path, its bounces and what it hits along the way
+ * - Following terrain, walls and obstacles, other balls and the session's gravity
+ * - Giving the shadow ball the same surface materials, spin and hover as the real one
+ *
+ * Moving obstacles stay where they are when the prediction is made.
  */
 export class TrajectorySimulator {
   // Physics world reference
-  private gravity: { x: number; y: number; z: number };
+  private physicsWorld: RAPIER.World;
+  
+  // Lookup for the ball's material as it moves over the course
+  private materialProvider: BallMaterialProvider | null = null;
   
   // Simulation properties
-  private simulationSteps: number = 100;
-  private maxPoints: number = 50;
+  private maxSteps: number = 360;       // Physics steps simulated (6 seconds at 60Hz)
+  private stepsPerPoint: number = 3;    // Physics steps between recorded points
+  private surfaceTolerance: number = 0.1; // Ground distance the ball counts as on a surface (as BallEntity)
+  private restSpeed: number = 0.1;      // Speed below which the landed ball counts as stopped
+  private minHeight: number = -20;      // Height below which the ball is lost
   
   /**
    * Constructor
    */
   constructor(physicsWorld: RAPIER.World) {
-    // Get gravity from physics world
-    const gravity = physicsWorld.gravity;
-    this.gravity = { x: gravity.x, y: gravity.y, z: gravity.z };
+    this.physicsWorld = physicsWorld;
   }
   
   /**
-   * Generate trajectory points using physics simulation
-   * 
+   * Set the lookup for the ball's material (null keeps the material it has now)
+   */
+  public setMaterialProvider(provider: BallMaterialProvider | null): void {
+    this.materialProvider = provider;
+  }
+  
+  /**
+   * Generate trajectory points by stepping the shot in a shadow physics world
+   *
+   * @param ballBody The real ball about to be hit
+   * @param launch The launch the shot will apply (ShotPhysics.getLaunch)
    * @returns An object containing the trajectory points and bounce points
    */
   public generateTrajectory(
-    startPos: THREE.Vector3,
-    direction: THREE.Vector3,
-    power: number,
-    shotType: ShotType = ShotType.GROUNDER,
-    spinType: SpinType = SpinType.NONE,
-    spinIntensity: number = 0
-  ): { 
-    points: THREE.Vector3[]; 
+    ballBody: RAPIER.RigidBody,
+    launch: ShotLaunch
+  ): {
+    points: THREE.Vector3[];
     bouncePoints: THREE.Vector3[];
     landingPoint: THREE.Vector3 | null;
   } {
-    // Calculate if this is a super shot (95%+ power)
-    const isSuperShot = power >= 0.95;
+    const points: THREE.Vector3[] = [];
+    const bouncePoints: THREE.Vector3[] = [];
+    let landingPoint: THREE.Vector3 | null = null;
     
-    // Calculate initial velocity
-    const velocityMultiplier = 30; // Adjust to match actual physics force
-    const initialVelocity = this.calculateInitialVelocity(
-      direction, 
-      power * velocityMultiplier,
-      shotType
-    );
+    // Copy the world as it is now; the copy keeps every handle
+    const shadow = RAPIER.World.restoreSnapshot(this.physicsWorld.takeSnapshot());
+    if (!shadow) {
+      console.error('Could not copy the physics world for the trajectory');
+      return { points, bouncePoints, landingPoint };
+    }
     
-    // Apply spin effects (reduced for super shots to show more predictable path)
-    if (isSuperShot) {
-      // For super shots, reduce spin effect to show the more predictable path
-      this.applySpinToVelocity(initialVelocity, spinType, spinIntensity * 0.7, power);
-    } else {
-      this.applySpinToVelocity(initialVelocity, spinType, spinIntensity, power);
+    const ball = shadow.getRigidBody(ballBody.handle);
+    if (!ball) {
+      console.error('Ball not found in the shadow physics world');
+      shadow.free();
+      return { points, bouncePoints, landingPoint };
     }
+    const collider = ball.collider(0);
+    const radius = collider.radius();
+    const eventQueue = new RAPIER.EventQueue(true);
     
-    // Prepare result containers
-    const points: THREE.Vector3[] = [];
-    const bouncePoints: THREE.Vector3[] = [];
-    let landingPoint: THREE.Vector3 | null = null;
+    if (!this.materialProvider) {
+      collider.setRestitution(Math.min(collider.restitution() * launch.bounceScale, 1));
+    }
     
-    // Add starting point
-    points.push(startPos.clone());
+    // Take the shot exactly as ShotPhysics does
+    ball.wakeUp();
+    ball.setLinvel({ x: 0, y: 0, z: 0 }, true);
+    ball.setGravityScale(launch.gravityScale, true);
+    ball.applyImpulse({ x: launch.impulse.x, y: launch.impulse.y, z: launch.impulse.z }, true);
     
-    // Simulation variables
-    const pos = startPos.clone();
-    const vel = initialVelocity.clone();
-    const timestep = 0.1; // Simulation time step
+    // The material the ball has now; like the real ball, it only changes with the surface below
+    let material = this.getMaterial(ball, collider);
     
-    // Bounce tracking
-    let bounceCount = 0;
-    const maxBounces = shotType === ShotType.FLY ? 4 : 2;
-    let hasHitGround = false;
+    if (launch.superShot) {
+      ball.setAngvel({ x: 0, y: 0, z: 0 }, true);
+      ball.setLinearDamping(ball.linearDamping() * SUPER_SHOT_DAMPING_SCALE);
+    }
     
-    // Simulate trajectory
-    for (let i = 0; i < this.simulationSteps; i++) {
-      // Apply gravity
-      vel.x += this.gravity.x * timestep;
-      vel.y += this.gravity.y * timestep;
-      vel.z += this.gravity.z * timestep;
-      
-      // Apply progressive spin effects
-      this.applyProgressiveSpin(vel, spinType, spinIntensity, hasHitGround, bounceCount);
-      
-      // Apply air resistance
-      vel.x *= 0.995;
-      vel.z *= 0.995;
+    const spin = launch.spin.clone();
+    const velocity = new THREE.Vector3();
+    let wasOnGround = true;
+    let hasLanded = false;
+    
+    points.push(this.getPosition(ball));
+    
+    for (let i = 1; i <= this.maxSteps; i++) {
+      const position = ball.translation();
+      const groundDistance = getGroundDistance(shadow, ball);
+      const onSurface = groundDistance <= this.surfaceTolerance;
+      const onGround = groundDistance <= SPIN_GROUND_TOLERANCE;
       
-      // Update position
-      pos.x += vel.x * timestep;
-      pos.y += vel.y * timestep;
-      pos.z += vel.z * timestep;
+      // Material of the surface below, as the real ball picks it up
+      if (this.materialProvider) {
+        const surfaceMaterial = this.materialProvider(position.x, position.z, onSurface, launch.bounceScale);
+        if (!this.isSameMaterial(surfaceMaterial, material)) {
+          material = surfaceMaterial;
+          this.applyMaterial(ball, collider, material);
+        }
+      }
       
-      // Ground collision detection and bounce handling
-      if (pos.y <= 0 && vel.y < 0) {
-        bounceCount++;
-        hasHitGround = true;
-        
-        // Store bounce point
-        const bouncePoint = pos.clone();
-        bouncePoint.y = 0.01; // Just above ground
+      // Touching down after a flight: a bounce, the end of a hover and a spin bounce
+      const linvel = ball.linvel();
+      velocity.set(linvel.x, linvel.y, linvel.z);
+      if (onGround && !wasOnGround) {
+        // Mark the spot on the ground under the ball
+        const bouncePoint = this.getPosition(ball);
+        bouncePoint.y -= radius + groundDistance - 0.01;
         bouncePoints.push(bouncePoint);
-        
-        // Track landing point (first time hitting ground)
-        if (bounceCount === 1) {
+        if (!landingPoint) {
           landingPoint = bouncePoint.clone();
         }
+        hasLanded = true;
+        ball.setGravityScale(1, true);
+        applySpinBounce(velocity, spin);
+      }
+      wasOnGround = onGround;
+      
+      // Same spin model as the MagnusController
+      applyMagnusStep(velocity, spin, shadow.timestep, onGround);
+      ball.setLinvel({ x: velocity.x, y: velocity.y, z: velocity.z }, true);
+      
+      shadow.step(eventQueue);
+      
+      // Hits on walls, obstacles and other balls (ground bounces are found above)
+      eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+        if (!started) return;
+        if (handle1 !== collider.handle && handle2 !== collider.handle) return;
         
-        // Handle bounce physics based on shot type
-        if (shotType === ShotType.GROUNDER) {
-          // GROUNDER shots have minimal bounce
-          vel.y = -vel.y * 0.3; // 30% energy retained
-          
-          // Apply more friction to horizontal velocity
-          vel.x *= 0.7;
-          vel.z *= 0.7;
-        } else {
-          // FLY shots have significant bounce
-          vel.y = -vel.y * 0.6; // 60% energy retained
-          
-          // Apply less friction to horizontal velocity
-          vel.x *= 0.8;
-          vel.z *= 0.8;
-          
-          // Apply spin effects to bounce
-          if (spinType === SpinType.TOP) {
-            // Top spin increases forward momentum after bounce
-            vel.x *= 1.2;
-            vel.z *= 1.2;
-            vel.y *= 0.7; // Lower bounce
-          } else if (spinType === SpinType.BACK) {
-            // Back spin decreases forward momentum but increases bounce height
-            vel.x *= 0.7;
-            vel.z *= 0.7;
-            vel.y *= 1.3; // Higher bounce
-          }
-        }
-        
-        // Prevent getting stuck in ground
-        pos.y = 0.01;
-        
-        // Stop after max bounces
-        if (bounceCount >= maxBounces) {
-          // For GROUNDER shots, simulate rolling to a stop
-          if (shotType === ShotType.GROUNDER) {
-            this.simulateRollingPoints(pos, vel, spinType, spinIntensity, points);
-          }
-          break;
+        const other = shadow.getCollider(handle1 === collider.handle ? handle2 : handle1);
+        if (other && this.isSideContact(shadow, collider, other)) {
+          bouncePoints.push(this.getPosition(ball));
         }
-      }
+      });
       
-      // Add point to trajectory
-      points.push(pos.clone());
+      if (i % this.stepsPerPoint === 0) {
+        points.push(this.getPosition(ball));
+      }
       
-      // Stop if velocity becomes too small after at least one bounce
-      if (vel.length() < 0.5 && hasHitGround) {
+      // Stop once the ball has come to rest or left the course
+      const speed = new THREE.Vector3(ball.linvel().x, ball.linvel().y, ball.linvel().z).length();
+      if ((hasLanded && speed < this.restSpeed) || ball.translation().y < this.minHeight) {
+        points.push(this.getPosition(ball));
         break;
       }
     }
     
+    eventQueue.free();
+    shadow.free();
+    
     return {
       points,
       bouncePoints,
@@ -176,209 +187,55 @@ export class TrajectorySimulator {
   }
   
   /**
-   * Calculate initial velocity based on direction, power, and shot type
+   * Get a body's position as a vector
    */
-  private calculateInitialVelocity(
-    direction: THREE.Vector3,
-    force: number,
-    shotType: ShotType
-  ): THREE.Vector3 {
-    // Create normalized direction vector
-    const normalizedDir = direction.clone().normalize();
-    
-    // Calculate initial velocity based on shot type
-    if (shotType === ShotType.GROUNDER) {
-      // GROUNDER shots have minimal upward component and more forward momentum
-      return new THREE.Vector3(
-        normalizedDir.x * force * 1.2, // More horizontal force for grounder (20% more)
-        0.05 * force,                  // Minimal upward component
-        normalizedDir.z * force * 1.2  // More horizontal force for grounder (20% more)
-      );
-    } else {
-      // FLY shots have significant upward component but less forward momentum
-      return new THREE.Vector3(
-        normalizedDir.x * force * 0.8, // Less horizontal force for fly shots (80% of normal)
-        0.6 * force,                   // Higher upward component (increased from 0.4 to 0.6)
-        normalizedDir.z * force * 0.8  // Less horizontal force for fly shots (80% of normal)
-      );
-    }
+  private getPosition(body: RAPIER.RigidBody): THREE.Vector3 {
+    const position = body.translation();
+    return new THREE.Vector3(position.x, position.y, position.z);
   }
   
   /**
-   * Apply spin effects to velocity vector
+   * Check whether the ball touches another collider from the side rather than from above
    */
-  private applySpinToVelocity(
-    velocity: THREE.Vector3,
-    spinType: SpinType,
-    spinIntensity: number,
-    powerFactor: number
-  ): void {
-    // Skip if no spin
-    if (spinType === SpinType.NONE || spinIntensity <= 0) {
-      return;
-    }
-    
-    // Scale factor for spin effects
-    const spinFactor = spinIntensity * 0.3;
-    const force = powerFactor * 30; // Match the velocityMultiplier
-    
-    switch (spinType) {
-      case SpinType.LEFT:
-        // Left spin curves the trajectory left
-        velocity.x -= force * spinFactor;
-        break;
-        
-      case SpinType.RIGHT:
-        // Right spin curves the trajectory right
-        velocity.x += force * spinFactor;
-        break;
-        
-      case SpinType.TOP:
-        // Top spin increases forward momentum, reduces height
-        velocity.x *= 1 + spinFactor;
-        velocity.z *= 1 + spinFactor;
-        velocity.y *= 0.8;
-        break;
-        
-      case SpinType.BACK:
-        // Back spin reduces forward momentum, increases height
-        velocity.x *= 1 - spinFactor * 0.5;
-        velocity.z *= 1 - spinFactor * 0.5;
-        velocity.y *= 1.2;
-        break;
-    }
+  private isSideContact(world: RAPIER.World, ball: RAPIER.Collider, other: RAPIER.Collider): boolean {
+    let isSide = false;
+    world.contactPair(ball, other, manifold => {
+      if (manifold.numContacts() > 0 && Math.abs(manifold.normal().y) < 0.5) {
+        isSide = true;
+      }
+    });
+    return isSide;
   }
   
   /**
-   * Apply progressive spin effects as the trajectory continues
+   * Get the shadow ball's material
    */
-  private applyProgressiveSpin(
-    velocity: THREE.Vector3,
-    spinType: SpinType,
-    spinIntensity: number,
-    hasHitGround: boolean,
-    bounceCount: number
-  ): void {
-    // Skip if no spin
-    if (spinType === SpinType.NONE || spinIntensity <= 0) {
-      return;
-    }
-    
-    // Spin effects are stronger after bounces
-    const postBounceFactor = hasHitGround ? 1.0 + (bounceCount * 0.2) : 1.0;
-    const effectiveIntensity = spinIntensity * postBounceFactor * 0.01;
-    
-    switch (spinType) {
-      case SpinType.LEFT:
-        // Progressive curve to the left
-        velocity.x -= velocity.length() * effectiveIntensity;
-        break;
-        
-      case SpinType.RIGHT:
-        // Progressive curve to the right
-        velocity.x += velocity.length() * effectiveIntensity;
-        break;
-        
-      case SpinType.TOP:
-        // Top spin increases forward momentum progressively
-        if (hasHitGround) {
-          const forwardBoost = velocity.length() * effectiveIntensity;
-          // Boost in the direction of horizontal movement
-          const horizLength = Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
-          if (horizLength > 0) {
-            velocity.x += (velocity.x / horizLength) * forwardBoost;
-            velocity.z += (velocity.z / horizLength) * forwardBoost;
-          }
-        }
-        break;
-        
-      case SpinType.BACK:
-        // Back spin decreases forward momentum progressively
-        if (hasHitGround && bounceCount > 0) {
-          const backwardFactor = 1.0 - effectiveIntensity;
-          velocity.x *= backwardFactor;
-          velocity.z *= backwardFactor;
-        }
-        break;
-    }
+  private getMaterial(ball: RAPIER.RigidBody, collider: RAPIER.Collider): BallMaterial {
+    return {
+      friction: collider.friction(),
+      restitution: collider.restitution(),
+      linearDamping: ball.linearDamping(),
+      angularDamping: ball.angularDamping()
+    };
   }
   
   /**
-   * Simulate rolling to a stop for GROUNDER shots and add points to the trajectory
+   * Check whether two materials are the same (at the single precision physics keeps them in)
    */
-  private simulateRollingPoints(
-    startPos: THREE.Vector3,
-    startVel: THREE.Vector3,
-    spinType: SpinType,
-    spinIntensity: number,
-    pointsArray: THREE.Vector3[]
-  ): void {
-    // Simulate rolling with gradual deceleration
-    const pos = startPos.clone();
-    const vel = startVel.clone();
-    const timestep = 0.1;
-    
-    // Calculate initial speed and deceleration
-    const initialSpeed = Math.sqrt(vel.x * vel.x + vel.z * vel.z);
-    const rollingFactor = 0.95; // Deceleration per step
-    
-    // Adjust for spin effects
-    let spinRollingBonus = 1.0;
-    if (spinType === SpinType.LEFT || spinType === SpinType.RIGHT) {
-      // Horizontal spin increases rolling distance slightly
-      spinRollingBonus = 1.0 + spinIntensity * 0.3;
-    } else if (spinType === SpinType.TOP) {
-      // Top spin increases rolling distance
-      spinRollingBonus = 1.0 + spinIntensity * 0.6;
-    } else if (spinType === SpinType.BACK) {
-      // Back spin decreases rolling distance
-      spinRollingBonus = 1.0 - spinIntensity * 0.4;
-    }
-    
-    // Calculate spin curvature (for LEFT/RIGHT spin)
-    const spinCurveFactor = spinIntensity * 0.03;
-    let spinCurvature = 0;
-    
-    if (spinType === SpinType.LEFT) {
-      spinCurvature = -spinCurveFactor;
-    } else if (spinType === SpinType.RIGHT) {
-      spinCurvature = spinCurveFactor;
-    }
-    
-    // Add rolling points
-    let currentSpeed = initialSpeed;
-    let maxRollingPoints = 15;
-    
-    for (let i = 0; i < maxRollingPoints && currentSpeed > 0.05; i++) {
-      // Gradual deceleration
-      currentSpeed *= rollingFactor;
-      
-      // Apply spin curve effect (rotation)
-      if (spinCurvature !== 0) {
-        // Rotate velocity vector to create curved path
-        const angle = spinCurvature * (1.0 - currentSpeed / initialSpeed);
-        const cosAngle = Math.cos(angle);
-        const sinAngle = Math.sin(angle);
-        
-        const oldVelX = vel.x;
-        vel.x = vel.x * cosAngle - vel.z * sinAngle;
-        vel.z = oldVelX * sinAngle + vel.z * cosAngle;
-      }
-      
-      // Normalize and scale by current speed
-      const velLength = Math.sqrt(vel.x * vel.x + vel.z * vel.z);
-      if (velLength > 0) {
-        vel.x = (vel.x / velLength) * currentSpeed;
-        vel.z = (vel.z / velLength) * currentSpeed;
-      }
-      
-      // Update position
-      pos.x += vel.x * timestep * spinRollingBonus;
-      pos.y = 0.01; // Stay just above ground
-      pos.z += vel.z * timestep * spinRollingBonus;
-      
-      // Add point to the provided array
-      pointsArray.push(pos.clone());
-    }
+  private isSameMaterial(a: BallMaterial, b: BallMaterial): boolean {
+    return Math.fround(a.friction) === Math.fround(b.friction) &&
+      Math.fround(a.restitution) === Math.fround(b.restitution) &&
+      Math.fround(a.linearDamping) === Math.fround(b.linearDamping) &&
+      Math.fround(a.angularDamping) === Math.fround(b.angularDamping);
+  }
+  
+  /**
+   * Give the shadow ball a material
+   */
+  private applyMaterial(ball: RAPIER.RigidBody, collider: RAPIER.Collider, material: BallMaterial): void {
+    collider.setFriction(material.friction);
+    collider.setRestitution(material.restitution);
+    ball.setLinearDamping(material.linearDamping);
+    ball.setAngularDamping(material.angularDamping);
   }
 } 
\ No newline at end of file
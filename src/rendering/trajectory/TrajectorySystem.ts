@@ -1,8 +1,9 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { EventSystem, GameEvents } from '../../utils/EventSystem';
-import { ShotType, SpinType } from '../../gameplay/shot/ShotTypes';
-import { TrajectorySimulator } from './TrajectorySimulator';
+import { ShotType } from '../../gameplay/shot/ShotTypes';
+import { ShotLaunch } from '../../gameplay/shot/ShotPhysics';
+import { TrajectorySimulator, BallMaterialProvider } from './TrajectorySimulator';
 import { TrajectoryRenderer } from './TrajectoryRenderer';
 
 /**
@@ -20,6 +21,13 @@ export class TrajectorySystem {
   private trajectorySimulator: TrajectorySimulator;
   private trajectoryRenderer: TrajectoryRenderer;
   
+  // Shadow-world predictions are costly, so at most one runs per interval;
+  // a request in between waits for the next update
+  private predictionInterval: number = 100; // ms between predictions
+  private lastPredictionTime: number = 0;
+  private pendingPrediction: (() => void) | null = null;
+  private lengthLimit: number | null = null; // Guide distance the path is cut to
+  
   // Logging control
   private debugMode: boolean = false;
   private lastLogTime: number = 0;
@@ -68,27 +76,41 @@ export class TrajectorySystem {
   
   /**
    * Predict and visualize trajectory based on shot parameters
+   * @param ballBody The ball about to be hit
+   * @param launch The launch the shot will apply (ShotPhysics.getLaunch)
+   * @param power Charged power (0-1), for the line's look
    */
   public predictTrajectory(
-    position: THREE.Vector3,
-    direction: THREE.Vector3,
+    ballBody: RAPIER.RigidBody,
+    launch: ShotLaunch,
+    power: number,
+    shotType: ShotType = ShotType.GROUNDER
+  ): void {
+    this.lengthLimit = null;
+    this.pendingPrediction = () => this.runPrediction(ballBody, launch, power, shotType);
+    
+    if (Date.now() - this.lastPredictionTime >= this.predictionInterval) {
+      this.pendingPrediction();
+    }
+  }
+  
+  /**
+   * Simulate the shot and show its path
+   */
+  private runPrediction(
+    ballBody: RAPIER.RigidBody,
+    launch: ShotLaunch,
     power: number,
-    shotType: ShotType = ShotType.GROUNDER,
-    spinType: SpinType = SpinType.NONE,
-    spinIntensity: number = 0
+    shotType: ShotType
   ): void {
+    this.pendingPrediction = null;
+    this.lastPredictionTime = Date.now();
+    
     // Check if this is a super shot (95%+ power)
     const isSuperShot = power >= 0.95;
     
     // Generate trajectory points using simulator
-    const { points, bouncePoints, landingPoint } = this.trajectorySimulator.generateTrajectory(
-      position, 
-      direction, 
-      power, 
-      shotType, 
-      spinType, 
-      spinIntensity
-    );
+    const { points, bouncePoints, landingPoint } = this.trajectorySimulator.generateTrajectory(ballBody, launch);
     
     // Visualize trajectory using renderer
     this.trajectoryRenderer.showTrajectory(
@@ -99,6 +121,11 @@ export class TrajectorySystem {
       shotType,
       isSuperShot
     );
+    
+    // Keep the guide length asked for since the prediction was requested
+    if (this.lengthLimit !== null) {
+      this.limitTrajectoryLength(this.lengthLimit);
+    }
   }
   
   /**
@@ -107,6 +134,7 @@ export class TrajectorySystem {
    */
   public limitTrajectoryLength(maxDistance: number): void {
     this.debugLog(`Limiting trajectory to maxDistance: ${maxDistance}`);
+    this.lengthLimit = maxDistance;
     
     // Check if trajectory line exists
     if (!this.trajectoryRenderer.trajectoryLine) {
@@ -154,10 +182,18 @@ export class TrajectorySystem {
     this.trajectoryRenderer.updateGeometry(limitedPoints);
   }
   
+  /**
+   * Set the lookup for the ball's material along the predicted path
+   */
+  public setBallMaterial(provider: BallMaterialProvider | null): void {
+    this.trajectorySimulator.setMaterialProvider(provider);
+  }
+  
   /**
    * Hide the trajectory visualization
    */
   public hideTrajectory(): void {
+    this.pendingPrediction = null;
     this.trajectoryRenderer.hideTrajectory();
   }
   
@@ -165,6 +201,11 @@ export class TrajectorySystem {
    * Update method to be called each frame
    */
   public update(): void {
+    // Run a prediction that had to wait
+    if (this.pendingPrediction && Date.now() - this.lastPredictionTime >= this.predictionInterval) {
+      this.pendingPrediction();
+    }
+    
     this.trajectoryRenderer.update();
   }
   
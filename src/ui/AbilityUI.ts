@@ -0,0 +1,101 @@
+import { AbilityType, ABILITIES } from '../gameplay/abilities/AbilityTypes';
+
+/**
+ * AbilityUI - Shows the active player's copy ability
+ *
+ * The ability's name in its color with the key to use it, and whether it is
+ * armed for the shot being set up. Hidden while the player has no ability.
+ */
+export class AbilityUI {
+  private panelElement: HTMLElement | null = null;
+  private nameElement: HTMLElement | null = null;
+  private hintElement: HTMLElement | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.createPanel();
+  }
+  
+  /**
+   * Create the panel element
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'ability-panel';
+    panel.style.position = 'absolute';
+    panel.style.bottom = '20px';
+    panel.style.right = '20px';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    panel.style.color = 'white';
+    panel.style.padding = '8px 12px';
+    panel.style.borderRadius = '8px';
+    panel.style.fontFamily = 'Arial, sans-serif';
+    panel.style.fontSize = '14px';
+    panel.style.zIndex = '1000';
+    panel.style.display = 'none';
+    panel.style.textAlign = 'right';
+    
+    // Ability name
+    const name = document.createElement('div');
+    name.style.fontSize = '18px';
+    name.style.fontWeight = 'bold';
+    
+    // Key hint or armed marker
+    const hint = document.createElement('div');
+    hint.style.fontSize = '12px';
+    
+    panel.appendChild(name);
+    panel.appendChild(hint);
+    document.body.appendChild(panel);
+    
+    this.panelElement = panel;
+    this.nameElement = name;
+    this.hintElement = hint;
+  }
+  
+  /**
+   * Show a player's ability and whether it is armed
+   */
+  public update(ability: AbilityType | null, armed: boolean): void {
+    if (!this.panelElement || !this.nameElement || !this.hintElement) return;
+    
+    if (!ability) {
+      this.panelElement.style.display = 'none';
+      return;
+    }
+    
+    const definition = ABILITIES[ability];
+    const color = `#${definition.color.toString(16).padStart(6, '0')}`;
+    
+    this.nameElement.innerText = definition.name;
+    this.nameElement.style.color = color;
+    this.hintElement.innerText = armed ? 'ARMED' : '[A] use';
+    this.hintElement.style.fontWeight = armed ? 'bold' : 'normal';
+    this.panelElement.style.border = armed ? `2px solid ${color}` : '2px solid transparent';
+    this.panelElement.style.display = 'block';
+  }
+  
+  /**
+   * Hide the panel
+   */
+  public hide(): void {
+    if (this.panelElement) {
+      this.panelElement.style.display = 'none';
+    }
+  }
+  
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    if (this.panelElement && this.panelElement.parentNode) {
+      this.panelElement.parentNode.removeChild(this.panelElement);
+    }
+    
+    this.panelElement = null;
+    this.nameElement = null;
+    this.hintElement = null;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * EnergyUI - Shows the active player's shot energy
+ *
+ * A row of pips in the top-right corner, one per point of energy up to the
+ * maximum. The row turns red when only one stroke is left.
+ */
+export class EnergyUI {
+  private panelElement: HTMLElement | null = null;
+  private pipsElement: HTMLElement | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.createPanel();
+  }
+  
+  /**
+   * Create the panel element
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'energy-panel';
+    panel.style.position = 'absolute';
+    panel.style.top = '20px';
+    panel.style.right = '20px';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    panel.style.color = 'white';
+    panel.style.padding = '8px 16px';
+    panel.style.borderRadius = '8px';
+    panel.style.fontFamily = 'Arial, sans-serif';
+    panel.style.fontSize = '14px';
+    panel.style.fontWeight = 'bold';
+    panel.style.zIndex = '1000';
+    
+    const label = document.createElement('div');
+    label.innerText = 'ENERGY';
+    
+    // Filled and empty pips
+    const pips = document.createElement('div');
+    pips.style.fontSize = '20px';
+    pips.style.letterSpacing = '2px';
+    
+    panel.appendChild(label);
+    panel.appendChild(pips);
+    document.body.appendChild(panel);
+    
+    this.panelElement = panel;
+    this.pipsElement = pips;
+  }
+  
+  /**
+   * Show an amount of energy out of the maximum
+   */
+  public update(energy: number, maxEnergy: number): void {
+    if (!this.pipsElement) return;
+    
+    this.pipsElement.innerText = '●'.repeat(energy) + '○'.repeat(Math.max(maxEnergy - energy, 0));
+    this.pipsElement.style.color = energy <= 1 ? '#ff5555' : '#ffcc33';
+  }
+  
+  /**
+   * Hide the panel
+   */
+  public hide(): void {
+    if (this.panelElement) {
+      this.panelElement.style.display = 'none';
+    }
+  }
+  
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    if (this.panelElement && this.panelElement.parentNode) {
+      this.panelElement.parentNode.removeChild(this.panelElement);
+    }
+    
+    this.panelElement = null;
+    this.pipsElement = null;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { HoleResult, MedalTier, MEDALS, SCORE_RATING_NAMES } from '../gameplay/scoring/HoleResults';
+
+/**
+ * HoleResultUI - Shows the rating and medal of a completed hole
+ *
+ * After a ball is sunk: the rating against par, the medal and the numbers it
+ * was based on. During the hole intro: the best stored result of the hole (and
+ * of the course on its first hole), below the intro banner.
+ */
+export class HoleResultUI {
+  private panelElement: HTMLElement | null = null;
+  private titleElement: HTMLElement | null = null;
+  private medalElement: HTMLElement | null = null;
+  private detailElement: HTMLElement | null = null;
+  private hideTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // How long a result stays up (ms)
+  private resultDuration: number = 3000;
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.createPanel();
+  }
+  
+  /**
+   * Create the panel element
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'hole-result';
+    panel.style.position = 'absolute';
+    panel.style.top = '45%';
+    panel.style.left = '50%';
+    panel.style.transform = 'translateX(-50%)';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+    panel.style.color = 'white';
+    panel.style.padding = '12px 30px';
+    panel.style.borderRadius = '8px';
+    panel.style.fontFamily = 'Arial, sans-serif';
+    panel.style.zIndex = '1000';
+    panel.style.display = 'none';
+    panel.style.textAlign = 'center';
+    
+    // Rating (BIRDIE!) or "Best"
+    const title = document.createElement('div');
+    title.style.fontSize = '26px';
+    title.style.fontWeight = 'bold';
+    
+    // Medal in its color
+    const medal = document.createElement('div');
+    medal.style.fontSize = '18px';
+    medal.style.fontWeight = 'bold';
+    medal.style.margin = '4px 0';
+    
+    // Strokes, boosts and time
+    const detail = document.createElement('div');
+    detail.style.fontSize = '14px';
+    
+    panel.appendChild(title);
+    panel.appendChild(medal);
+    panel.appendChild(detail);
+    document.body.appendChild(panel);
+    
+    this.panelElement = panel;
+    this.titleElement = title;
+    this.medalElement = medal;
+    this.detailElement = detail;
+  }
+  
+  /**
+   * Show a completed hole's result for a few seconds
+   * @param playerName Shown with several players, null otherwise
+   */
+  public showResult(playerName: string | null, result: HoleResult, newBest: boolean): void {
+    if (!this.panelElement || !this.titleElement || !this.medalElement || !this.detailElement) return;
+    
+    const rating = SCORE_RATING_NAMES[result.rating].toUpperCase();
+    this.titleElement.innerText = playerName ? `${playerName}: ${rating}!` : `${rating}!`;
+    this.setMedal(result.medal, newBest ? ' - NEW BEST' : '');
+    this.detailElement.innerText = HoleResultUI.formatDetails(result);
+    this.show(this.resultDuration);
+  }
+  
+  /**
+   * Show the best stored results before a hole is played
+   * Stays up until hide() is called; nothing shows if there are no results yet.
+   */
+  public showBest(best: HoleResult | null, courseBest: MedalTier | null): void {
+    if (!this.panelElement || !this.titleElement || !this.medalElement || !this.detailElement) return;
+    
+    if (!best && !courseBest) {
+      this.hide();
+      return;
+    }
+    
+    this.titleElement.innerText = best ? `Best: ${SCORE_RATING_NAMES[best.rating]}` : 'Best';
+    if (best) {
+      this.setMedal(best.medal, '');
+      this.detailElement.innerText = HoleResultUI.formatDetails(best);
+    } else {
+      this.medalElement.innerText = '';
+      this.detailElement.innerText = '';
+    }
+    
+    if (courseBest) {
+      const line = `Course best: ${MEDALS[courseBest].name}`;
+      this.detailElement.innerText = this.detailElement.innerText ? `${this.detailElement.innerText}\n${line}` : line;
+    }
+    
+    this.show(null);
+  }
+  
+  /**
+   * Show a medal in its color
+   */
+  private setMedal(medal: MedalTier, suffix: string): void {
+    if (!this.medalElement) return;
+    
+    const definition = MEDALS[medal];
+    this.medalElement.innerText = `${definition.name} medal${suffix}`;
+    this.medalElement.style.color = `#${definition.color.toString(16).padStart(6, '0')}`;
+  }
+  
+  /**
+   * Show the panel, hiding it again after a delay (ms) unless it is null
+   */
+  private show(duration: number | null): void {
+    if (!this.panelElement) return;
+    
+    this.clearHideTimer();
+    this.panelElement.style.display = 'block';
+    
+    if (duration !== null) {
+      this.hideTimer = setTimeout(() => {
+        this.hideTimer = null;
+        this.hide();
+      }, duration);
+    }
+  }
+  
+  /**
+   * Format the numbers behind a result
+   */
+  private static formatDetails(result: HoleResult): string {
+    return `${result.strokes} strokes (par ${result.par}) | ${result.boosts} boosts | ${result.time.toFixed(1)}s`;
+  }
+  
+  /**
+   * Cancel a scheduled hide
+   */
+  private clearHideTimer(): void {
+    if (this.hideTimer !== null) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+  }
+  
+  /**
+   * Hide the panel
+   */
+  public hide(): void {
+    this.clearHideTimer();
+    
+    if (this.panelElement) {
+      this.panelElement.style.display = 'none';
+    }
+  }
+  
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    this.clearHideTimer();
+    
+    if (this.panelElement && this.panelElement.parentNode) {
+      this.panelElement.parentNode.removeChild(this.panelElement);
+    }
+    
+    this.panelElement = null;
+    this.titleElement = null;
+    this.medalElement = null;
+    this.detailElement = null;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { ModifierDefinition } from '../gameplay/modifiers/ModifierTypes';
+
+/**
+ * ModifierUI - Shows the session's modifiers
+ *
+ * A small label at the top of the screen with each modifier's name and what it
+ * does. Nothing shows when playing without modifiers.
+ */
+export class ModifierUI {
+  private panelElement: HTMLElement | null = null;
+  private listElement: HTMLElement | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.createPanel();
+  }
+  
+  /**
+   * Create the panel element
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'modifier-panel';
+    panel.style.position = 'absolute';
+    panel.style.top = '20px';
+    panel.style.left = '50%';
+    panel.style.transform = 'translateX(-50%)';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    panel.style.color = 'white';
+    panel.style.padding = '6px 16px';
+    panel.style.borderRadius = '8px';
+    panel.style.fontFamily = 'Arial, sans-serif';
+    panel.style.fontSize = '13px';
+    panel.style.zIndex = '1000';
+    panel.style.textAlign = 'center';
+    panel.style.display = 'none';
+    
+    const label = document.createElement('div');
+    label.innerText = 'TODAY';
+    label.style.fontWeight = 'bold';
+    label.style.color = '#66ddff';
+    
+    // One line per modifier
+    const list = document.createElement('div');
+    
+    panel.appendChild(label);
+    panel.appendChild(list);
+    document.body.appendChild(panel);
+    
+    this.panelElement = panel;
+    this.listElement = list;
+  }
+  
+  /**
+   * Show a list of modifiers (an empty list hides the panel)
+   */
+  public update(modifiers: ModifierDefinition[]): void {
+    if (!this.panelElement || !this.listElement) return;
+    
+    this.listElement.innerText = modifiers
+      .map(modifier => `${modifier.name}: ${modifier.description}`)
+      .join('\n');
+    this.panelElement.style.display = modifiers.length > 0 ? 'block' : 'none';
+  }
+  
+  /**
+   * Hide the panel
+   */
+  public hide(): void {
+    if (this.panelElement) {
+      this.panelElement.style.display = 'none';
+    }
+  }
+  
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    if (this.panelElement && this.panelElement.parentNode) {
+      this.panelElement.parentNode.removeChild(this.panelElement);
+    }
+    
+    this.panelElement = null;
+    this.listElement = null;
+  }
+} 
\ No newline at end of file
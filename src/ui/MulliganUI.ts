@@ -0,0 +1,71 @@
+/**
+ * MulliganUI - Hint that the last shot can be taken back
+ *
+ * A small panel in the top-right corner, below the energy, shown while a
+ * mulligan is available, with the number left this round when limited.
+ */
+export class MulliganUI {
+  private panelElement: HTMLElement | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.createPanel();
+  }
+  
+  /**
+   * Create the panel element
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'mulligan-panel';
+    panel.style.position = 'absolute';
+    panel.style.top = '90px';
+    panel.style.right = '20px';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    panel.style.color = 'white';
+    panel.style.padding = '6px 12px';
+    panel.style.borderRadius = '8px';
+    panel.style.fontFamily = 'Arial, sans-serif';
+    panel.style.fontSize = '13px';
+    panel.style.zIndex = '1000';
+    panel.style.display = 'none';
+    
+    document.body.appendChild(panel);
+    this.panelElement = panel;
+  }
+  
+  /**
+   * Show the hint
+   * @param remaining Mulligans left this round, or null when unlimited
+   */
+  public show(remaining: number | null): void {
+    if (!this.panelElement) return;
+    
+    this.panelElement.innerText = remaining === null
+      ? 'Z: Mulligan'
+      : `Z: Mulligan (${remaining} left)`;
+    this.panelElement.style.display = 'block';
+  }
+  
+  /**
+   * Hide the panel
+   */
+  public hide(): void {
+    if (this.panelElement) {
+      this.panelElement.style.display = 'none';
+    }
+  }
+  
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    if (this.panelElement && this.panelElement.parentNode) {
+      this.panelElement.parentNode.removeChild(this.panelElement);
+    }
+    
+    this.panelElement = null;
+  }
+} 
\ No newline at end of file
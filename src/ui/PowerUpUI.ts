@@ -0,0 +1,93 @@
+import { PowerUpType, POWER_UPS } from '../gameplay/powerups/PowerUpTypes';
+import { PowerUpInventory } from '../gameplay/powerups/PowerUpInventory';
+
+/**
+ * PowerUpUI - Shows the active player's power-ups and the running effect
+ *
+ * One row per power-up type with its key and how many are held. The row of a
+ * running effect is highlighted. Hidden while the player has nothing to use.
+ */
+export class PowerUpUI {
+  private panelElement: HTMLElement | null = null;
+  private rowElements: Map<PowerUpType, HTMLElement> = new Map();
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.createPanel();
+  }
+  
+  /**
+   * Create the panel element
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'power-up-panel';
+    panel.style.position = 'absolute';
+    panel.style.bottom = '20px';
+    panel.style.left = '20px';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    panel.style.color = 'white';
+    panel.style.padding = '8px 12px';
+    panel.style.borderRadius = '8px';
+    panel.style.fontFamily = 'Arial, sans-serif';
+    panel.style.fontSize = '14px';
+    panel.style.zIndex = '1000';
+    panel.style.display = 'none';
+    
+    (Object.values(PowerUpType) as PowerUpType[]).forEach(type => {
+      const row = document.createElement('div');
+      row.style.padding = '2px 6px';
+      row.style.borderRadius = '4px';
+      row.style.borderLeft = `4px solid #${POWER_UPS[type].color.toString(16).padStart(6, '0')}`;
+      row.style.marginBottom = '2px';
+      
+      panel.appendChild(row);
+      this.rowElements.set(type, row);
+    });
+    
+    document.body.appendChild(panel);
+    this.panelElement = panel;
+  }
+  
+  /**
+   * Show a player's power-ups and the running effect
+   */
+  public update(inventory: PowerUpInventory, active: PowerUpType | null): void {
+    if (!this.panelElement) return;
+    
+    this.rowElements.forEach((row, type) => {
+      const definition = POWER_UPS[type];
+      const count = inventory.getCount(type);
+      
+      row.innerText = `[${definition.key.replace('Digit', '')}] ${definition.name} x${count}`;
+      row.style.opacity = count > 0 || type === active ? '1' : '0.4';
+      row.style.backgroundColor = type === active ? 'rgba(255, 255, 255, 0.25)' : 'transparent';
+      row.style.fontWeight = type === active ? 'bold' : 'normal';
+    });
+    
+    this.panelElement.style.display = inventory.getTotal() > 0 || active ? 'block' : 'none';
+  }
+  
+  /**
+   * Hide the panel
+   */
+  public hide(): void {
+    if (this.panelElement) {
+      this.panelElement.style.display = 'none';
+    }
+  }
+  
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    if (this.panelElement && this.panelElement.parentNode) {
+      this.panelElement.parentNode.removeChild(this.panelElement);
+    }
+    
+    this.panelElement = null;
+    this.rowElements.clear();
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,128 @@
+/**
+ * RollControlUI - Shows the mid-roll brake and hop commands
+ *
+ * While the ball rolls, a row at the bottom of the screen shows the keys and
+ * the uses left this shot. Using a command flashes a short message above it.
+ */
+export class RollControlUI {
+  private panelElement: HTMLElement | null = null;
+  private feedbackElement: HTMLElement | null = null;
+  private feedbackTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // How long feedback stays up (ms)
+  private feedbackDuration: number = 600;
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.createPanel();
+  }
+  
+  /**
+   * Create the panel and feedback elements
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'roll-control-panel';
+    panel.style.position = 'absolute';
+    panel.style.bottom = '20px';
+    panel.style.left = '50%';
+    panel.style.transform = 'translateX(-50%)';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    panel.style.color = 'white';
+    panel.style.padding = '6px 16px';
+    panel.style.borderRadius = '8px';
+    panel.style.fontFamily = 'Arial, sans-serif';
+    panel.style.fontSize = '14px';
+    panel.style.zIndex = '1000';
+    panel.style.display = 'none';
+    
+    // Brief message when a command is used
+    const feedback = document.createElement('div');
+    feedback.id = 'roll-control-feedback';
+    feedback.style.position = 'absolute';
+    feedback.style.bottom = '60px';
+    feedback.style.left = '50%';
+    feedback.style.transform = 'translateX(-50%)';
+    feedback.style.padding = '6px 14px';
+    feedback.style.borderRadius = '5px';
+    feedback.style.fontFamily = 'Arial, sans-serif';
+    feedback.style.fontSize = '20px';
+    feedback.style.fontWeight = 'bold';
+    feedback.style.zIndex = '1001';
+    feedback.style.display = 'none';
+    
+    document.body.appendChild(panel);
+    document.body.appendChild(feedback);
+    
+    this.panelElement = panel;
+    this.feedbackElement = feedback;
+  }
+  
+  /**
+   * Show the commands with their uses left
+   */
+  public show(brakesLeft: number, hopsLeft: number): void {
+    if (!this.panelElement) return;
+    
+    this.panelElement.innerText = `↓ Brake: ${brakesLeft}    ↑ Hop: ${hopsLeft}`;
+    this.panelElement.style.display = 'block';
+  }
+  
+  /**
+   * Flash a message for a command
+   * @param success False for a command that had no uses left
+   */
+  public showFeedback(message: string, success: boolean): void {
+    if (!this.feedbackElement) return;
+    
+    this.clearFeedbackTimer();
+    this.feedbackElement.innerText = message;
+    this.feedbackElement.style.backgroundColor = success ? 'rgba(102, 221, 255, 0.85)' : 'rgba(255, 85, 85, 0.85)';
+    this.feedbackElement.style.color = success ? 'black' : 'white';
+    this.feedbackElement.style.display = 'block';
+    
+    this.feedbackTimer = setTimeout(() => {
+      this.feedbackTimer = null;
+      if (this.feedbackElement) {
+        this.feedbackElement.style.display = 'none';
+      }
+    }, this.feedbackDuration);
+  }
+  
+  /**
+   * Cancel a scheduled feedback hide
+   */
+  private clearFeedbackTimer(): void {
+    if (this.feedbackTimer !== null) {
+      clearTimeout(this.feedbackTimer);
+      this.feedbackTimer = null;
+    }
+  }
+  
+  /**
+   * Hide the panel
+   */
+  public hide(): void {
+    if (this.panelElement) {
+      this.panelElement.style.display = 'none';
+    }
+  }
+  
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    this.clearFeedbackTimer();
+    
+    [this.panelElement, this.feedbackElement].forEach(element => {
+      if (element && element.parentNode) {
+        element.parentNode.removeChild(element);
+      }
+    });
+    
+    this.panelElement = null;
+    this.feedbackElement = null;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { Scorecard } from '../gameplay/scoring/Scorecard';
+
+/**
+ * RoundBannerUI - Centered banner for the hole intro and the round summary
+ *
+ * Shows the hole number, name and par before each hole, and a stroke table once
+ * the last hole of the round is complete (or the standings with several players).
+ * A lost round shows GAME OVER with the reason.
+ */
+export class RoundBannerUI {
+  private bannerElement: HTMLElement | null = null;
+  private titleElement: HTMLElement | null = null;
+  private bodyElement: HTMLElement | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.createBanner();
+  }
+  
+  /**
+   * Create the banner element
+   */
+  private createBanner(): void {
+    const banner = document.createElement('div');
+    banner.id = 'round-banner';
+    banner.style.position = 'absolute';
+    banner.style.top = '30%';
+    banner.style.left = '50%';
+    banner.style.transform = 'translate(-50%, -50%)';
+    banner.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+    banner.style.color = 'white';
+    banner.style.padding = '20px 40px';
+    banner.style.borderRadius = '8px';
+    banner.style.fontFamily = 'Arial, sans-serif';
+    banner.style.zIndex = '1000';
+    banner.style.display = 'none';
+    banner.style.textAlign = 'center';
+    banner.style.minWidth = '260px';
+    banner.style.border = '2px solid #55aaff';
+    banner.style.boxShadow = '0 0 15px rgba(85, 170, 255, 0.4)';
+    
+    // Hole number or "Round Complete"
+    const title = document.createElement('div');
+    title.style.fontSize = '28px';
+    title.style.fontWeight = 'bold';
+    title.style.marginBottom = '10px';
+    
+    // Hole name and par, or the score table
+    const body = document.createElement('div');
+    body.style.fontSize = '16px';
+    
+    banner.appendChild(title);
+    banner.appendChild(body);
+    document.body.appendChild(banner);
+    
+    this.bannerElement = banner;
+    this.titleElement = title;
+    this.bodyElement = body;
+  }
+  
+  /**
+   * Show the intro for a hole
+   * @param holeNumber 1-based number of the hole in the round
+   */
+  public showHoleIntro(holeNumber: number, holeCount: number, holeName: string, par: number): void {
+    if (!this.bannerElement || !this.titleElement || !this.bodyElement) return;
+    
+    this.titleElement.innerText = `HOLE ${holeNumber} / ${holeCount}`;
+    this.bodyElement.innerText = `${holeName}\nPar ${par}`;
+    this.bannerElement.style.display = 'block';
+  }
+  
+  /**
+   * Show the round summary
+   * One player gets a hole-by-hole table, several players get the standings.
+   */
+  public showRoundComplete(scorecards: Scorecard[]): void {
+    if (!this.bannerElement || !this.titleElement || !this.bodyElement) return;
+    
+    this.titleElement.innerText = 'ROUND COMPLETE';
+    
+    let lines: string[];
+    if (scorecards.length === 1) {
+      const scorecard = scorecards[0];
+      lines = scorecard.getHoles().map((hole, index) =>
+        `${index + 1}. ${hole.holeName} - ${hole.strokes} (${RoundBannerUI.formatRelative(Scorecard.getRelativeToPar(hole))})`
+      );
+      lines.push('');
+      lines.push(`Total: ${scorecard.getTotalStrokes()} (${RoundBannerUI.formatRelative(scorecard.getRelativeScore())})`);
+    } else {
+      // Fewest strokes first
+      lines = [...scorecards]
+        .sort((a, b) => a.getTotalStrokes() - b.getTotalStrokes())
+        .map((scorecard, index) =>
+          `${index + 1}. ${scorecard.getPlayerName()} - ${scorecard.getTotalStrokes()} (${RoundBannerUI.formatRelative(scorecard.getRelativeScore())})`
+        );
+    }
+    
+    lines.push('Press SPACE to play again');
+    
+    this.bodyElement.innerText = lines.join('\n');
+    this.bannerElement.style.display = 'block';
+  }
+  
+  /**
+   * Show that the round was lost
+   */
+  public showGameOver(reason: string): void {
+    if (!this.bannerElement || !this.titleElement || !this.bodyElement) return;
+    
+    this.titleElement.innerText = 'GAME OVER';
+    this.bodyElement.innerText = `${reason}\nPress SPACE to play again`;
+    this.bannerElement.style.display = 'block';
+  }
+  
+  /**
+   * Hide the banner
+   */
+  public hide(): void {
+    if (this.bannerElement) {
+      this.bannerElement.style.display = 'none';
+    }
+  }
+  
+  /**
+   * Format a score relative to par (E, +2, -1)
+   */
+  private static formatRelative(relative: number): string {
+    if (relative === 0) return 'E';
+    return relative > 0 ? `+${relative}` : `${relative}`;
+  }
+  
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    if (this.bannerElement && this.bannerElement.parentNode) {
+      this.bannerElement.parentNode.removeChild(this.bannerElement);
+    }
+    
+    this.bannerElement = null;
+    this.titleElement = null;
+    this.bodyElement = null;
+  }
+} 
\ No newline at end of file
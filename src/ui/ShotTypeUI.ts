@@ -1,15 +1,16 @@
-import { ShotType } from '../gameplay/shot/ShotTypes';
+import { ShotType, SHOT_TYPES, SHOT_TYPE_ORDER, cycleShotType } from '../gameplay/shot/ShotTypes';
 
 /**
  * ShotTypeUI - Visual UI element for shot type selection
  * 
  * This class creates and manages the UI for the shot type selection panel
- * that appears during Phase 0 of the shot process, allowing the player to toggle
- * between grounder and fly shots.
+ * that appears during Phase 0 of the shot process, allowing the player to step
+ * through the shot types. Names, icons and colors come from SHOT_TYPES.
  */
 export class ShotTypeUI {
   private panelElement: HTMLElement | null = null;
   private typeTextElement: HTMLElement | null = null;
+  private indicators: Map<ShotType, HTMLElement> = new Map();
   private isVisible: boolean = false;
   private currentType: ShotType = ShotType.GROUNDER;
   
@@ -49,32 +50,23 @@ export class ShotTypeUI {
     typeText.style.fontSize = '22px';
     typeText.style.fontWeight = 'bold';
     typeText.style.marginBottom = '10px';
-    typeText.innerText = 'GROUNDER SHOT';
-    typeText.style.color = '#55aaff'; // Blue for grounder
     
-    // Add visual type indicators
+    // Add visual type indicators, one per shot type
     const typeIndicatorContainer = document.createElement('div');
     typeIndicatorContainer.style.display = 'flex';
     typeIndicatorContainer.style.justifyContent = 'center';
     typeIndicatorContainer.style.marginBottom = '15px';
     
-    // Grounder shot indicator
-    const grounderIndicator = document.createElement('div');
-    grounderIndicator.id = 'grounder-indicator';
-    grounderIndicator.style.width = '60px';
-    grounderIndicator.style.height = '10px';
-    grounderIndicator.style.backgroundColor = '#55aaff'; // Blue for grounder
-    grounderIndicator.style.borderRadius = '5px';
-    grounderIndicator.style.margin = '0 5px';
-    
-    // Fly shot indicator
-    const flyIndicator = document.createElement('div');
-    flyIndicator.id = 'fly-indicator';
-    flyIndicator.style.width = '60px';
-    flyIndicator.style.height = '10px';
-    flyIndicator.style.backgroundColor = '#444'; // Gray for inactive
-    flyIndicator.style.borderRadius = '5px';
-    flyIndicator.style.margin = '0 5px';
+    SHOT_TYPE_ORDER.forEach(type => {
+      const indicator = document.createElement('div');
+      indicator.style.width = '24px';
+      indicator.style.height = '10px';
+      indicator.style.backgroundColor = '#444'; // Gray for inactive
+      indicator.style.borderRadius = '5px';
+      indicator.style.margin = '0 3px';
+      typeIndicatorContainer.appendChild(indicator);
+      this.indicators.set(type, indicator);
+    });
     
     // Add help text
     const helpText = document.createElement('div');
@@ -84,8 +76,6 @@ export class ShotTypeUI {
     helpText.style.whiteSpace = 'pre-line';
     
     // Add all elements to the container
-    typeIndicatorContainer.appendChild(grounderIndicator);
-    typeIndicatorContainer.appendChild(flyIndicator);
     shotTypePanel.appendChild(typeText);
     shotTypePanel.appendChild(typeIndicatorContainer);
     shotTypePanel.appendChild(helpText);
@@ -105,31 +95,15 @@ export class ShotTypeUI {
     if (!this.typeTextElement || !this.panelElement) return;
     
     // Update text content
-    if (this.currentType === ShotType.GROUNDER) {
-      this.typeTextElement.innerText = 'GROUNDER SHOT';
-      this.typeTextElement.style.color = '#55aaff'; // Blue for grounder
-      
-      // Update indicators
-      const grounderIndicator = this.panelElement.querySelector('#grounder-indicator') as HTMLElement;
-      const flyIndicator = this.panelElement.querySelector('#fly-indicator') as HTMLElement;
-      
-      if (grounderIndicator && flyIndicator) {
-        grounderIndicator.style.backgroundColor = '#55aaff'; // Blue for active
-        flyIndicator.style.backgroundColor = '#444'; // Gray for inactive
-      }
-    } else {
-      this.typeTextElement.innerText = 'FLY SHOT';
-      this.typeTextElement.style.color = '#ff44aa'; // Pink for fly
-      
-      // Update indicators
-      const grounderIndicator = this.panelElement.querySelector('#grounder-indicator') as HTMLElement;
-      const flyIndicator = this.panelElement.querySelector('#fly-indicator') as HTMLElement;
-      
-      if (grounderIndicator && flyIndicator) {
-        grounderIndicator.style.backgroundColor = '#444'; // Gray for inactive
-        flyIndicator.style.backgroundColor = '#ff44aa'; // Pink for active
-      }
-    }
+    const definition = SHOT_TYPES[this.currentType];
+    const color = `#${definition.color.toString(16).padStart(6, '0')}`;
+    this.typeTextElement.innerText = `${definition.icon} ${definition.label} SHOT`;
+    this.typeTextElement.style.color = color;
+    
+    // Update indicators
+    this.indicators.forEach((indicator, type) => {
+      indicator.style.backgroundColor = type === this.currentType ? color : '#444'; // Gray for inactive
+    });
   }
   
   /**
@@ -154,11 +128,12 @@ export class ShotTypeUI {
   }
   
   /**
-   * Toggle the shot type selection
+   * Step to the next (or previous) shot type
+   * @param step 1 for the next type, -1 for the previous one
    * @returns The new shot type
    */
-  public toggleType(): ShotType {
-    this.currentType = this.currentType === ShotType.GROUNDER ? ShotType.FLY : ShotType.GROUNDER;
+  public toggleType(step: number = 1): ShotType {
+    this.currentType = cycleShotType(this.currentType, step);
     this.updateTypeDisplay();
     return this.currentType;
   }
@@ -189,5 +164,6 @@ export class ShotTypeUI {
     
     this.panelElement = null;
     this.typeTextElement = null;
+    this.indicators.clear();
   }
 } 
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * TurnIndicatorUI - Shows whose turn it is in a local multiplayer match
+ *
+ * A small label in the top-left corner with the active player's name in their
+ * ball color.
+ */
+export class TurnIndicatorUI {
+  private panelElement: HTMLElement | null = null;
+  private swatchElement: HTMLElement | null = null;
+  private nameElement: HTMLElement | null = null;
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.createPanel();
+  }
+  
+  /**
+   * Create the indicator element
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'turn-indicator';
+    panel.style.position = 'absolute';
+    panel.style.top = '20px';
+    panel.style.left = '20px';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    panel.style.color = 'white';
+    panel.style.padding = '8px 16px';
+    panel.style.borderRadius = '8px';
+    panel.style.fontFamily = 'Arial, sans-serif';
+    panel.style.fontSize = '18px';
+    panel.style.fontWeight = 'bold';
+    panel.style.zIndex = '1000';
+    panel.style.display = 'none';
+    panel.style.alignItems = 'center';
+    
+    // Dot in the player's ball color
+    const swatch = document.createElement('div');
+    swatch.style.width = '16px';
+    swatch.style.height = '16px';
+    swatch.style.borderRadius = '50%';
+    swatch.style.marginRight = '10px';
+    swatch.style.border = '2px solid white';
+    
+    const name = document.createElement('div');
+    
+    panel.appendChild(swatch);
+    panel.appendChild(name);
+    document.body.appendChild(panel);
+    
+    this.panelElement = panel;
+    this.swatchElement = swatch;
+    this.nameElement = name;
+  }
+  
+  /**
+   * Show the active player
+   * @param color Ball color as a hex number
+   */
+  public setPlayer(name: string, color: number): void {
+    if (!this.swatchElement || !this.nameElement) return;
+    
+    const cssColor = `#${color.toString(16).padStart(6, '0')}`;
+    this.swatchElement.style.backgroundColor = cssColor;
+    this.nameElement.innerText = `${name.toUpperCase()}'S TURN`;
+    this.nameElement.style.color = cssColor;
+  }
+  
+  /**
+   * Show the indicator
+   */
+  public show(): void {
+    if (this.panelElement) {
+      this.panelElement.style.display = 'flex';
+    }
+  }
+  
+  /**
+   * Hide the indicator
+   */
+  public hide(): void {
+    if (this.panelElement) {
+      this.panelElement.style.display = 'none';
+    }
+  }
+  
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    if (this.panelElement && this.panelElement.parentNode) {
+      this.panelElement.parentNode.removeChild(this.panelElement);
+    }
+    
+    this.panelElement = null;
+    this.swatchElement = null;
+    this.nameElement = null;
+  }
+} 
\ No newline at end of file
@@ -1,4 +1,13 @@
 // Export UI components
 export { ShotTypeUI } from './ShotTypeUI';
 export { ShotPanelUI } from './ShotPanelUI';
+export { RoundBannerUI } from './RoundBannerUI';
+export { TurnIndicatorUI } from './TurnIndicatorUI';
+export { PowerUpUI } from './PowerUpUI';
+export { AbilityUI } from './AbilityUI';
+export { EnergyUI } from './EnergyUI';
+export { HoleResultUI } from './HoleResultUI';
+export { ModifierUI } from './ModifierUI';
+export { MulliganUI } from './MulliganUI';
+export { RollControlUI } from './RollControlUI';
 // Add other UI exports as they are created 
\ No newline at end of file
@@ -122,7 +122,7 @@ export class EventSystem {
 export const GameEvents = {
   // Input events
   SHOT_AIM: 'shot:aim',                  // Player is aiming shot direction (Phase 1)
-  SHOT_TYPE_TOGGLE: 'shot:type_toggle',  // Player toggles between grounder and fly shot
+  SHOT_TYPE_TOGGLE: 'shot:type_toggle',  // Player steps through the shot types (1 next, -1 previous)
   SHOT_TYPE_CONFIRM: 'shot:type_confirm', // Player confirms shot type and moves to aiming (Phase 0→1)
   SHOT_DIRECTION_CONFIRM: 'shot:dir_confirm', // Player confirms direction and moves to guide selection (Phase 1→2)
   SHOT_GUIDE_TOGGLE: 'shot:guide_toggle', // Player toggles between short and long guide (Phase 2)
@@ -130,19 +130,52 @@ export const GameEvents = {
   SHOT_POWER_CHANGE: 'shot:power',       // Player is changing shot power (Phase 3)
   SHOT_SPIN_CHANGE: 'shot:spin',         // Player is changing shot spin (Phase 3)
   SHOT_EXECUTE: 'shot:execute',          // Player executes the shot (Phase 3→4)
+  SHOT_STARTING: 'shot:starting',        // Shot is about to be applied; balls and score are still as before it
   SHOT_CANCEL: 'shot:cancel',            // Player cancels the shot (Any Phase→IDLE)
   SHOT_BOOST: 'shot:boost',              // Player activates boost at bounce point (Phase 4)
+  BOOST_LANDED: 'shot:boost_landed',     // A boost was timed perfectly (seconds after the bounce)
+  SHOT_BRAKE: 'shot:brake',              // Player asks to brake the rolling ball (Phase 4)
+  BRAKE_APPLIED: 'shot:brake_applied',   // The ball started braking (RollControlEvent)
+  SHOT_HOP: 'shot:hop',                  // Player asks the rolling ball to hop (Phase 4)
+  HOP_APPLIED: 'shot:hop_applied',       // The ball hopped (RollControlEvent)
   SHOT_PARAMS_CHANGED: 'shot:params_changed', // Shot parameters have been updated
   
   // Game state events
   BALL_MOVING: 'ball:moving',            // Ball is moving
-  BALL_STOPPED: 'ball:stopped',          // Ball has stopped moving
+  BALL_STOPPED: 'ball:stopped',          // Every ball set in motion by the shot has stopped
+  BALL_AT_REST: 'ball:at_rest',          // One ball has stopped moving (position, BallEntity)
+  BALL_COLLISION: 'ball:collision',      // Two balls hit each other (BallCollisionEvent)
   BALL_BOUNCE: 'ball:bounce',            // Ball has bounced (potential boost opportunity)
+  BALL_PENALTY: 'ball:penalty',          // Ball went out of bounds or into a hazard (penalty stroke)
+  CUP_LIP_OUT: 'cup:lip_out',            // Ball reached the cup too fast and rolled over the lip
+  BUMPER_HIT: 'prop:bumper_hit',         // Ball hit a bumper (PropHitEvent)
+  SPRING_LAUNCH: 'prop:spring_launch',   // Ball was launched by a spring (PropHitEvent)
+  BOOST_PAD_HIT: 'prop:boost_pad_hit',   // Ball crossed a boost pad (PropHitEvent)
+  BALL_WARPED: 'ball:warped',            // Ball went through a teleporter (WarpEvent)
+  TARGET_HIT: 'target:hit',              // Ball knocked out a target (TargetHitEvent)
+  CUP_SPAWNED: 'cup:spawned',            // Last target fell and the cup appeared (position)
+  PICKUP_REACHED: 'pickup:reached',      // Ball rolled into a power-up pickup (PickupReachedEvent)
+  POWERUP_COLLECTED: 'powerup:collected', // A player stored a power-up (PowerUpCollectedEvent)
+  POWERUP_ACTIVATE: 'powerup:activate',  // Player asks to use a power-up mid-roll (PowerUpType)
+  POWERUP_ACTIVATED: 'powerup:activated', // A power-up effect started (PowerUpEffectEvent)
+  POWERUP_EXPIRED: 'powerup:expired',    // A power-up effect ended and was undone (PowerUpEffectEvent)
+  ABILITY_GAINED: 'ability:gained',      // A player took a copy ability from a target (AbilityEvent)
+  ABILITY_USE: 'ability:use',            // Player asks to arm or use their copy ability
+  ABILITY_USED: 'ability:used',          // A copy ability took effect and was used up (AbilityEvent)
+  ABILITY_LOST: 'ability:lost',          // A player lost their copy ability to a hazard (AbilityEvent)
+  ENERGY_CHANGED: 'energy:changed',      // A player's shot energy went up or down (EnergyChangedEvent)
+  MODIFIERS_APPLIED: 'modifiers:applied', // Session modifiers changed the physics and rules (ModifiersAppliedEvent)
+  MULLIGAN_REQUEST: 'mulligan:request',  // Player asks to take back their last shot
+  MULLIGAN_USED: 'mulligan:used',        // The last shot was taken back (MulliganEvent)
+  TURN_CHANGED: 'turn:changed',          // Another player's ball is now in play (TurnChangedEvent)
+  HOLE_INTRO: 'hole:intro',              // A hole was built and its intro is showing (HoleIntroEvent)
   HOLE_COMPLETE: 'hole:complete',        // Player completed the current hole
+  HOLE_RESULT: 'hole:result',            // A completed hole was rated and stored (HoleResultEvent)
+  ROUND_COMPLETE: 'round:complete',      // Last hole of the round is complete (RoundCompleteEvent)
   GAME_STARTED: 'game:started',          // Game has started
   GAME_PAUSED: 'game:paused',            // Game has been paused
   GAME_RESUMED: 'game:resumed',          // Game has been resumed
-  GAME_OVER: 'game:over',                // Game is over
+  GAME_OVER: 'game:over',                // Game is over (GameOverEvent)
   
   // UI events
   UI_UPDATE: 'ui:update',                // UI needs to be updated
@@ -9,6 +9,10 @@ export enum GameState {
   CHARGING = 'CHARGING',       // Phase 3: Player is selecting power and spin
   ROLLING = 'ROLLING',         // Phase 4a: Ball is in motion (regular rolling)
   BOOST_READY = 'BOOST_READY', // Phase 4b: Ball can be boosted at bounce point
+  HOLE_INTRO = 'HOLE_INTRO',   // Hole was just built, showing its intro before play
+  HOLE_COMPLETE = 'HOLE_COMPLETE', // Ball dropped into the cup
+  ROUND_COMPLETE = 'ROUND_COMPLETE', // Last hole of the round is done, showing the summary
+  GAME_OVER = 'GAME_OVER',     // A player ran out of energy, the round is lost
   PAUSED = 'PAUSED'            // Game is paused
 }
 
@@ -50,9 +54,15 @@ export class GameStateManager {
     // Define which state transitions are valid
     this.validTransitions.set(GameState.IDLE, [
       GameState.SELECTING_TYPE,  // Start shot selection
+      GameState.HOLE_INTRO,      // Start of a round
+      GameState.GAME_OVER,       // Out of energy
       GameState.PAUSED           // Pause game
     ]);
     
+    this.validTransitions.set(GameState.HOLE_INTRO, [
+      GameState.IDLE        // Intro over, start playing
+    ]);
+    
     this.validTransitions.set(GameState.SELECTING_TYPE, [
       GameState.IDLE,        // Cancel shot
       GameState.AIMING,      // Confirm shot type, move to aiming
@@ -83,15 +93,31 @@ export class GameStateManager {
     this.validTransitions.set(GameState.ROLLING, [
       GameState.IDLE,         // Ball stopped
       GameState.BOOST_READY,  // Ball hit bounce point
+      GameState.HOLE_COMPLETE, // Ball sunk
       GameState.PAUSED        // Pause game
     ]);
     
     this.validTransitions.set(GameState.BOOST_READY, [
       GameState.IDLE,       // Ball stopped or boost missed
       GameState.ROLLING,    // Continue rolling after boost
+      GameState.HOLE_COMPLETE, // Ball sunk
       GameState.PAUSED      // Pause game
     ]);
     
+    this.validTransitions.set(GameState.HOLE_COMPLETE, [
+      GameState.IDLE,          // Replay
+      GameState.HOLE_INTRO,    // Next hole
+      GameState.ROUND_COMPLETE // Last hole done
+    ]);
+    
+    this.validTransitions.set(GameState.ROUND_COMPLETE, [
+      GameState.HOLE_INTRO  // Play the round again
+    ]);
+    
+    this.validTransitions.set(GameState.GAME_OVER, [
+      GameState.HOLE_INTRO  // Play the round again
+    ]);
+    
     this.validTransitions.set(GameState.PAUSED, [
       GameState.IDLE,           // Resume to idle
       GameState.SELECTING_TYPE, // Resume to shot type selection
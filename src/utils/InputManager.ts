@@ -1,6 +1,7 @@
 import { EventSystem, GameEvents } from './EventSystem';
 import { GameStateManager, GameState } from './GameStateManager';
 import { SpinType } from '../gameplay/shot/ShotTypes';
+import { PowerUpType, POWER_UPS } from '../gameplay/powerups/PowerUpTypes';
 
 /**
  * InputManager - Handles user input and maps it to game events
@@ -121,9 +122,9 @@ export class InputManager {
           break;
           
         case GameState.SELECTING_TYPE:
-          // In SELECTING_TYPE state, Up/Down toggles shot type, Space confirms
+          // In SELECTING_TYPE state, Up/Down steps through the shot types, Space confirms
           if (keyCode === 'ArrowUp' || keyCode === 'ArrowDown') {
-            this.eventSystem.emit(GameEvents.SHOT_TYPE_TOGGLE);
+            this.eventSystem.emit(GameEvents.SHOT_TYPE_TOGGLE, keyCode === 'ArrowUp' ? -1 : 1);
           } else if (keyCode === 'Space') {
             this.eventSystem.emit(GameEvents.SHOT_TYPE_CONFIRM);
           }
@@ -179,10 +180,19 @@ export class InputManager {
           }
           break;
           
+        case GameState.ROLLING:
+          // In ROLLING state, Down brakes, Up hops, number keys use power-ups
+          if (!this.checkRollControlKey(keyCode)) {
+            this.checkPowerUpKey(keyCode);
+          }
+          break;
+        
         case GameState.BOOST_READY:
-          // In BOOST_READY state, Space activates boost
+          // In BOOST_READY state, Space activates boost; brake, hop and power-ups as when rolling
           if (keyCode === 'Space') {
             this.eventSystem.emit(GameEvents.SHOT_BOOST);
+          } else if (!this.checkRollControlKey(keyCode)) {
+            this.checkPowerUpKey(keyCode);
           }
           break;
       }
@@ -195,6 +205,23 @@ export class InputManager {
             currentState !== GameState.BOOST_READY) {
           this.eventSystem.emit(GameEvents.SHOT_CANCEL);
         }
+      } else if (keyCode === 'KeyA') {
+        // A arms the copy ability during shot setup, or uses it mid-roll
+        if (currentState === GameState.SELECTING_TYPE ||
+            currentState === GameState.AIMING ||
+            currentState === GameState.SHOT_PANEL ||
+            currentState === GameState.CHARGING ||
+            currentState === GameState.ROLLING ||
+            currentState === GameState.BOOST_READY) {
+          this.eventSystem.emit(GameEvents.ABILITY_USE);
+        }
+      } else if (keyCode === 'KeyZ') {
+        // Z takes back the last shot while it rolls or after it stopped
+        if (currentState === GameState.IDLE ||
+            currentState === GameState.ROLLING ||
+            currentState === GameState.BOOST_READY) {
+          this.eventSystem.emit(GameEvents.MULLIGAN_REQUEST);
+        }
       }
     } else {
       // Handle key up events
@@ -211,6 +238,33 @@ export class InputManager {
     }
   }
 
+  /**
+   * Emit a brake (Down) or hop (Up) request for the rolling ball
+   * @returns True if the key was a roll command
+   */
+  private checkRollControlKey(keyCode: string): boolean {
+    if (keyCode === 'ArrowDown') {
+      this.eventSystem.emit(GameEvents.SHOT_BRAKE);
+      return true;
+    }
+    if (keyCode === 'ArrowUp') {
+      this.eventSystem.emit(GameEvents.SHOT_HOP);
+      return true;
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Emit a power-up activation if the key belongs to a power-up
+   */
+  private checkPowerUpKey(keyCode: string): void {
+    const type = (Object.values(PowerUpType) as PowerUpType[]).find(entry => POWER_UPS[entry].key === keyCode);
+    if (type) {
+      this.eventSystem.emit(GameEvents.POWERUP_ACTIVATE, type);
+    }
+  }
+  
   /**
    * Check if a key is currently down
    */
@@ -305,4 +359,4 @@ export class InputManager {
     // Nothing to set up initially - actual event listeners are registered in initialize()
     console.log('InputManager ready for initialization');
   }
-}
\ No newline at end of file
+} 
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * PerlinNoise - Seeded 2D gradient noise
+ *
+ * Classic Perlin noise with a permutation table shuffled by a SeededRandom,
+ * so the same seed always yields the same terrain.
+ */
+export class PerlinNoise {
+  private permutation: number[] = [];
+  
+  // Gradient directions (8 evenly spread unit-ish vectors)
+  private static readonly GRADIENTS: [number, number][] = [
+    [1, 0], [-1, 0], [0, 1], [0, -1],
+    [0.7071, 0.7071], [-0.7071, 0.7071], [0.7071, -0.7071], [-0.7071, -0.7071]
+  ];
+  
+  /**
+   * Constructor
+   */
+  constructor(random: SeededRandom) {
+    const values: number[] = [];
+    for (let i = 0; i < 256; i++) values.push(i);
+    
+    // Fisher-Yates shuffle
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(random.next() * (i + 1));
+      [values[i], values[j]] = [values[j], values[i]];
+    }
+    
+    // Duplicate to avoid wrapping indices
+    this.permutation = values.concat(values);
+  }
+  
+  /**
+   * Noise value at a point, roughly in [-1, 1]
+   */
+  public noise2D(x: number, y: number): number {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+    const xi = x0 & 255;
+    const yi = y0 & 255;
+    
+    const n00 = this.gradientDot(xi, yi, fx, fy);
+    const n10 = this.gradientDot(xi + 1, yi, fx - 1, fy);
+    const n01 = this.gradientDot(xi, yi + 1, fx, fy - 1);
+    const n11 = this.gradientDot(xi + 1, yi + 1, fx - 1, fy - 1);
+    
+    const u = PerlinNoise.fade(fx);
+    const v = PerlinNoise.fade(fy);
+    
+    const nx0 = n00 + u * (n10 - n00);
+    const nx1 = n01 + u * (n11 - n01);
+    return nx0 + v * (nx1 - nx0);
+  }
+  
+  /**
+   * Fractal noise: several octaves of noise summed, normalized to roughly [-1, 1]
+   */
+  public fbm(x: number, y: number, octaves: number = 4, persistence: number = 0.5): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let maxValue = 0;
+    
+    for (let i = 0; i < octaves; i++) {
+      total += this.noise2D(x * frequency, y * frequency) * amplitude;
+      maxValue += amplitude;
+      amplitude *= persistence;
+      frequency *= 2;
+    }
+    
+    return total / maxValue;
+  }
+  
+  /**
+   * Dot product of the corner gradient and the offset vector
+   */
+  private gradientDot(xi: number, yi: number, dx: number, dy: number): number {
+    const hash = this.permutation[this.permutation[xi & 255] + (yi & 255)];
+    const [gx, gy] = PerlinNoise.GRADIENTS[hash & 7];
+    return gx * dx + gy * dy;
+  }
+  
+  /**
+   * Smoothstep curve 6t^5 - 15t^4 + 10t^3
+   */
+  private static fade(t: number): number {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,84 @@
+/**
+ * SeededRandom - Deterministic pseudo-random number generator
+ *
+ * The same seed string always produces the same sequence, on every platform.
+ * Uses a string hash (cyrb128) to seed a mulberry32 generator; only integer
+ * arithmetic is involved, so there are no floating point differences between
+ * JavaScript engines.
+ */
+export class SeededRandom {
+  private state: number;
+  
+  /**
+   * Constructor
+   * @param seed Any string, e.g. "2024-06-01" or a player-shared course code
+   */
+  constructor(seed: string) {
+    this.state = SeededRandom.hash(seed);
+  }
+  
+  /**
+   * Hash a string to a 32-bit seed (cyrb128, first lane)
+   */
+  private static hash(seed: string): number {
+    let h1 = 1779033703;
+    let h2 = 3144134277;
+    let h3 = 1013904242;
+    let h4 = 2773480762;
+    
+    for (let i = 0; i < seed.length; i++) {
+      const k = seed.charCodeAt(i);
+      h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+      h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+      h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+      h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+    }
+    
+    h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+    h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+    h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+    h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+    
+    return (h1 ^ h2 ^ h3 ^ h4) >>> 0;
+  }
+  
+  /**
+   * Next value in [0, 1)
+   */
+  public next(): number {
+    // mulberry32
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+  
+  /**
+   * Random number in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+  
+  /**
+   * Random integer in [min, max] (inclusive)
+   */
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+  
+  /**
+   * True with the given probability
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+  
+  /**
+   * Random element of an array
+   */
+  public pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+} 
\ No newline at end of file